@@ -10,13 +10,13 @@
  *
  * Usage:
  *   npx tsx scripts/enrich-backfill.ts --limit 30 --spread --exclude cat,health
- *   npx tsx scripts/enrich-backfill.ts --limit 30 --model gemini-2.5-flash-lite --no-persist
+ *   npx tsx scripts/enrich-backfill.ts --limit 30 --model google:gemini-2.5-flash-lite --no-persist
  *   npx tsx scripts/enrich-backfill.ts --dry-run
  *
  * Flags:
  *   --limit N          max txns this run (default 50)
  *   --batch-size N     txns per AI call (default 30)
- *   --model ID         gemini model (default gemini-2.5-flash)
+ *   --model SPEC       provider:model (default: the enrich chain, see services/llm.ts)
  *   --max-rupees X     spend ceiling for this run (default 5)
  *   --spread           sample evenly across categories instead of newest-first
  *   --exclude a,b      category slugs to skip
@@ -27,7 +27,9 @@
 import "dotenv/config";
 import { supabase } from "../src/services/supabase.js";
 import { enrichTransactions, type EnrichInput } from "../src/services/enrichment.js";
-import { noteHash, loadVocabulary, costRupees } from "../src/services/enrichmentJob.js";
+import { noteHash, loadVocabulary } from "../src/services/enrichmentJob.js";
+import { costRupees } from "../src/services/pricing.js";
+import { chainFor, modelEntry, usageKey } from "../src/services/llm.js";
 
 function arg(name: string): string | undefined {
   const i = process.argv.indexOf(`--${name}`);
@@ -39,7 +41,8 @@ function flag(name: string): boolean {
 
 const LIMIT = Number(arg("limit") ?? 50);
 const BATCH_SIZE = Number(arg("batch-size") ?? 30);
-const MODEL = arg("model") ?? "gemini-2.5-flash";
+const MODEL_SPEC = arg("model");
+const CHAIN = MODEL_SPEC ? [modelEntry(MODEL_SPEC)] : chainFor("enrich");
 const MAX_RUPEES = Number(arg("max-rupees") ?? 5);
 const SPREAD = flag("spread");
 const EXCLUDE = (arg("exclude") ?? "").split(",").filter(Boolean);
@@ -113,7 +116,7 @@ async function selectPending(): Promise<Row[]> {
 
 async function main() {
   const pending = await selectPending();
-  console.log(`Selected ${pending.length} txns (limit ${LIMIT}, model ${MODEL}, batch ${BATCH_SIZE})`);
+  console.log(`Selected ${pending.length} txns (limit ${LIMIT}, model ${CHAIN.map((e) => e.model).join(" → ")}, batch ${BATCH_SIZE})`);
   const perCat = new Map<string, number>();
   for (const r of pending) perCat.set(r.category, (perCat.get(r.category) ?? 0) + 1);
   console.log("By category:", Object.fromEntries(perCat));
@@ -150,8 +153,8 @@ async function main() {
       current_category: b.category,
     }));
 
-    const res = await enrichTransactions(inputs, allSlugs, vocab, MODEL);
-    const batchCost = costRupees(MODEL, res);
+    const res = await enrichTransactions(inputs, allSlugs, vocab, CHAIN);
+    const batchCost = costRupees(usageKey(res), res);
     spent += batchCost;
     totals.input += res.input;
     totals.output += res.output;
@@ -167,7 +170,7 @@ async function main() {
         lending: r.lending,
         category_suggestion: r.category_suggestion,
         note_hash: noteHash(byId.get(r.id)!.notes),
-        model: MODEL,
+        model: res.model,
         enriched_at: new Date().toISOString(),
       }));
 
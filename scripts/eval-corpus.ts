@@ -0,0 +1,155 @@
+/**
+ * Build an evaluation corpus (services/evaluation.ts) from a user's sync runs.
+ *
+ * The label for each message is what the user left standing, not what the
+ * pipeline decided:
+ *   - a transaction row with this sms_id that is no longer awaiting review
+ *     (reviewed, edited, or added via "mark as transaction") → positive,
+ *     with the row's amount / direction / merchant / category as fields;
+ *   - a row still awaiting review → left out (not confirmed either way);
+ *   - no row, and the run is older than --settle-days → negative. That
+ *     covers skips the user never overturned and inserts they deleted.
+ * Duplicates, deferrals and chunk errors say nothing about the message and
+ * are left out.
+ *
+ * Usage:
+ *   npx tsx scripts/eval-corpus.ts --user-id <uuid> --out eval/corpus.json
+ *
+ * Flags:
+ *   --user-id UUID     whose sync runs to read (required)
+ *   --days N           how far back to look (default 90)
+ *   --settle-days N    runs younger than this give no negatives (default 7)
+ *   --limit N          max cases (default 1000, newest runs first)
+ *   --out FILE         corpus path (default eval/corpus.json)
+ */
+import "dotenv/config";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { supabase, getCategories } from "../src/services/supabase.js";
+import type { EvalCase, EvalCorpus } from "../src/services/evaluation.js";
+import type { ParsedTransactionResult, SMSMessage } from "../src/types/index.js";
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+const USER_ID = arg("user-id");
+const DAYS = Number(arg("days") ?? 90);
+const SETTLE_DAYS = Number(arg("settle-days") ?? 7);
+const LIMIT = Number(arg("limit") ?? 1000);
+const OUT = arg("out") ?? "eval/corpus.json";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Skip reasons that don't tell us whether the message was a transaction.
+const UNLABELED_REASONS = [/duplicate/i, /^Deferred/, /^Already inserted/];
+
+type TxnRow = {
+  sms_id: number;
+  amount: number;
+  original_amount: number | null;
+  direction: "credit" | "debit";
+  merchant: string | null;
+  needs_review: boolean | null;
+  categories: { slug: string } | null;
+};
+
+async function loadTransactions(smsIds: number[]): Promise<Map<number, TxnRow>> {
+  const bySmsId = new Map<number, TxnRow>();
+  for (let i = 0; i < smsIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("sms_id, amount, original_amount, direction, merchant, needs_review, categories(slug)")
+      .eq("user_id", USER_ID!)
+      .in("sms_id", smsIds.slice(i, i + 200));
+    if (error) throw new Error(`transactions load failed: ${error.message}`);
+    for (const t of (data ?? []) as unknown as TxnRow[]) bySmsId.set(Number(t.sms_id), t);
+  }
+  return bySmsId;
+}
+
+async function main() {
+  if (!USER_ID) throw new Error("--user-id is required");
+  const now = Date.now();
+
+  const { data: runs, error } = await supabase
+    .from("sync_runs")
+    .select("id, started_at, messages, details")
+    .eq("user_id", USER_ID)
+    .gte("started_at", new Date(now - DAYS * DAY_MS).toISOString())
+    .order("started_at", { ascending: false });
+  if (error) throw new Error(`sync_runs load failed: ${error.message}`);
+
+  const withMessages = (runs ?? []).filter((r) => Array.isArray(r.messages) && r.messages.length > 0);
+  const smsIds = [...new Set(withMessages.flatMap((r) => (r.messages as SMSMessage[]).map((m) => Number(m.id))))];
+  const txns = await loadTransactions(smsIds);
+  console.log(`Read ${withMessages.length} sync runs, ${smsIds.length} messages, ${txns.size} with transactions`);
+
+  const seen = new Set<number>();
+  const cases: EvalCase[] = [];
+  const dropped: Record<string, number> = {};
+  const drop = (why: string) => {
+    dropped[why] = (dropped[why] ?? 0) + 1;
+  };
+
+  for (const run of withMessages) {
+    if (cases.length >= LIMIT) break;
+    const settled = now - new Date(run.started_at).getTime() >= SETTLE_DAYS * DAY_MS;
+    const details = new Map(((run.details ?? []) as ParsedTransactionResult[]).map((d) => [Number(d.sms_id), d]));
+    for (const m of run.messages as SMSMessage[]) {
+      const smsId = Number(m.id);
+      // Replays repeat messages; the newest run's copy wins.
+      if (seen.has(smsId)) continue;
+      seen.add(smsId);
+
+      const base = { id: `${run.id}:${smsId}`, sender: m.sender, body: m.body, subject: m.subject, timestamp: m.timestamp };
+      const txn = txns.get(smsId);
+      if (txn) {
+        if (txn.needs_review) {
+          drop("awaiting review");
+          continue;
+        }
+        cases.push({
+          ...base,
+          expected: {
+            is_transaction: true,
+            amount: Number(txn.original_amount ?? txn.amount),
+            direction: txn.direction,
+            merchant: txn.merchant,
+            category_slug: txn.categories?.slug ?? null,
+          },
+        });
+        continue;
+      }
+
+      const detail = details.get(smsId);
+      if (!settled) {
+        drop("run not settled");
+      } else if (!detail || detail.status === "error") {
+        drop("no outcome");
+      } else if (UNLABELED_REASONS.some((re) => re.test(detail.reason ?? ""))) {
+        drop("duplicate or deferred");
+      } else {
+        cases.push({ ...base, expected: { is_transaction: false } });
+      }
+    }
+  }
+
+  const categories = (await getCategories(USER_ID)).map((c) => c.slug);
+  const corpus: EvalCorpus = { version: 1, categories, cases };
+  mkdirSync(dirname(OUT), { recursive: true });
+  writeFileSync(OUT, JSON.stringify(corpus, null, 2) + "\n");
+
+  const positives = cases.filter((c) => c.expected.is_transaction).length;
+  console.log(`Wrote ${cases.length} cases (${positives} transactions) to ${OUT}`);
+  if (Object.keys(dropped).length > 0) console.log("Left out:", dropped);
+}
+
+main().then(
+  () => process.exit(0),
+  (err) => {
+    console.error(err);
+    process.exit(1);
+  },
+);
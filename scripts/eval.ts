@@ -0,0 +1,134 @@
+/**
+ * Offline evaluation of the classifier and extractor prompts.
+ *
+ * Runs parseAndCategorize over a labeled corpus (build one with
+ * scripts/eval-corpus.ts) and reports Pass 1 precision / recall, Pass 2
+ * per-field accuracy and token cost. Compare against a saved baseline to
+ * see what a prompt change broke before it ships.
+ *
+ * Usage:
+ *   # live run, recording every model response
+ *   npx tsx scripts/eval.ts --record eval/recording.json --save-baseline eval/baseline.json
+ *   # after a prompt edit: live run against the baseline
+ *   npx tsx scripts/eval.ts --baseline eval/baseline.json
+ *   # re-score offline (no API calls) — e.g. after a scoring or merge change
+ *   npx tsx scripts/eval.ts --replay eval/recording.json --baseline eval/baseline.json
+ *
+ * Flags:
+ *   --corpus FILE          labeled corpus (default eval/corpus.json)
+ *   --record FILE          live run; save model responses to FILE
+ *   --replay FILE          answer from recorded responses instead of the models
+ *   --baseline FILE        report regressions against FILE; exit 1 on any metric drop
+ *   --tolerance X          allowed metric drop before it counts (default 0.01)
+ *   --save-baseline FILE   write this run's report to FILE
+ *   --economy              extract with the extract_economy chain
+ *
+ * Live runs use the configured chains (LLM_CHAIN_CLASSIFY, LLM_CHAIN_EXTRACT…,
+ * see services/llm.ts). Set LOG_LEVEL=warn to keep per-call logs out of the report.
+ */
+import "dotenv/config";
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { parseAndCategorize, type ParsedTransaction } from "../src/services/ai.js";
+import { llmRegistry, setLlmRegistry } from "../src/services/llm.js";
+import { usageRupees } from "../src/services/pricing.js";
+import {
+  compareToBaseline,
+  emptyRecording,
+  formatReport,
+  recordChains,
+  replayChains,
+  scoreRun,
+  type EvalCorpus,
+  type EvalReport,
+  type Recording,
+} from "../src/services/evaluation.js";
+import type { Category, SMSMessage } from "../src/types/index.js";
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+function flag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+const CORPUS = arg("corpus") ?? "eval/corpus.json";
+const RECORD = arg("record");
+const REPLAY = arg("replay");
+const BASELINE = arg("baseline");
+const TOLERANCE = Number(arg("tolerance") ?? 0.01);
+const SAVE_BASELINE = arg("save-baseline");
+const ECONOMY = flag("economy");
+
+const readJson = <T>(path: string): T => JSON.parse(readFileSync(path, "utf8")) as T;
+
+function writeJson(path: string, value: unknown) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(value, null, 2) + "\n");
+}
+
+async function main() {
+  if (RECORD && REPLAY) throw new Error("--record and --replay are exclusive");
+  const corpus = readJson<EvalCorpus>(CORPUS);
+
+  const recording = REPLAY ? readJson<Recording>(REPLAY) : emptyRecording();
+  if (REPLAY) {
+    setLlmRegistry({ providers: {}, chains: replayChains(recording) });
+  } else if (RECORD) {
+    const live = llmRegistry();
+    setLlmRegistry({ providers: live.providers, chains: recordChains(live.chains, recording) });
+  }
+
+  // Ids are corpus positions, so prompts (and recording keys) stay stable
+  // for as long as the corpus does.
+  const messages: SMSMessage[] = corpus.cases.map((c, i) => ({
+    id: i,
+    sender: c.sender,
+    body: c.body,
+    subject: c.subject,
+    timestamp: c.timestamp,
+  }));
+  const categories: Category[] = corpus.categories.map((slug) => ({ id: slug, slug, name: slug }));
+
+  const mode = REPLAY ? `replay of ${REPLAY}` : "live";
+  console.log(`Evaluating ${messages.length} cases from ${CORPUS} (${mode}${ECONOMY ? ", economy" : ""})`);
+  const result = await parseAndCategorize(messages, categories, { economy: ECONOMY });
+
+  const parsed = new Map<number, ParsedTransaction>(result.parsed.map((p) => [Number(p.sms_id), p]));
+  const report = scoreRun(corpus.cases, parsed, result.usage, usageRupees(result.usage));
+  console.log(`\n${formatReport(report)}`);
+
+  if (RECORD) {
+    writeJson(RECORD, recording);
+    console.log(`\nRecorded ${Object.keys(recording.responses).length} responses to ${RECORD}`);
+  }
+  if (SAVE_BASELINE) {
+    writeJson(SAVE_BASELINE, report);
+    console.log(`Saved baseline to ${SAVE_BASELINE}`);
+  }
+
+  if (!BASELINE) return;
+  const baseline = readJson<EvalReport>(BASELINE);
+  const regressions = compareToBaseline(report, baseline, TOLERANCE);
+  console.log(`\nAgainst ${BASELINE}: cost ₹${baseline.rupees.toFixed(3)} → ₹${report.rupees.toFixed(3)}`);
+  if (regressions.cases.length > 0) {
+    console.log(`Cases that regressed (${regressions.cases.length}):`);
+    for (const line of regressions.cases) console.log(`  ${line}`);
+  }
+  if (regressions.metrics.length === 0) {
+    console.log("No metric regressions.");
+    return;
+  }
+  console.log("Metric regressions:");
+  for (const line of regressions.metrics) console.log(`  ${line}`);
+  process.exitCode = 1;
+}
+
+main().then(
+  () => process.exit(process.exitCode ?? 0),
+  (err) => {
+    console.error(err);
+    process.exit(1);
+  },
+);
@@ -36,11 +36,28 @@ async function main() {
     { default: enrichmentRoutes },
     { default: insightsRoutes },
     { default: reviewRoutes },
+    { default: rulesRoutes },
+    { default: accountsRoutes },
+    { default: sendersRoutes },
+    { default: transactionsRoutes },
+    { default: webhooksRoutes },
+    { default: notificationsRoutes },
+    { default: keysRoutes },
+    { default: usageRoutes },
     { default: mcpRoutes },
+    { default: metricsRoutes },
+    { default: healthRoutes },
     gmailService,
     supabaseService,
     enrichmentJob,
     subscriptionSync,
+    ingestQueue,
+    bills,
+    webhooks,
+    { dueAtLocalHour },
+    apiKeys,
+    { createLogger, newRequestId, withLogContext },
+    llm,
   ] = await Promise.all([
     import("express"),
     import("cors"),
@@ -51,28 +68,71 @@ async function main() {
     import("./routes/enrichment.js"),
     import("./routes/insights.js"),
     import("./routes/review.js"),
+    import("./routes/rules.js"),
+    import("./routes/accounts.js"),
+    import("./routes/senders.js"),
+    import("./routes/transactions.js"),
+    import("./routes/webhooks.js"),
+    import("./routes/notifications.js"),
+    import("./routes/keys.js"),
+    import("./routes/usage.js"),
     import("./routes/mcp.js"),
+    import("./routes/metrics.js"),
+    import("./routes/health.js"),
     import("./services/gmail.js"),
     import("./services/supabase.js"),
     import("./services/enrichmentJob.js"),
     import("./services/subscriptionSync.js"),
+    import("./services/ingestQueue.js"),
+    import("./services/bills.js"),
+    import("./services/webhooks.js"),
+    import("./services/timezone.js"),
+    import("./services/apiKeys.js"),
+    import("./services/logger.js"),
+    import("./services/llm.js"),
   ]);
 
-  console.log("[startup] All modules loaded successfully.");
+  const log = createLogger("startup");
+  log.info("All modules loaded");
+
+  // Resolve the LLM chains from env (and the llm_config row) before serving:
+  // a chain naming a provider without its key should stop the boot, not the
+  // first ingest.
+  await llm.refreshLlmConfigFromDb();
+  log.info("LLM chains", {
+    chains: Object.fromEntries(llm.LLM_TASKS.map((t) => [t, llm.chainFor(t).map((e) => `${e.provider}:${e.model}`)])),
+  });
 
   const app = express();
 
   // Middleware
   app.use(cors());
-  app.use(express.json({ limit: "5mb" }));
+  // Message batches and CSV imports can be large; nothing else needs to be.
+  app.use(["/api/sms", "/api/import"], express.json({ limit: "5mb" }));
+  app.use(express.json({ limit: "256kb" }));
 
-  // Request logging in development
-  if (env.isDev) {
-    app.use((req, _res, next) => {
-      console.log(`${req.method} ${req.path}`);
+  // Request id + access log. After the body parsers: their stream callbacks
+  // would otherwise run outside the request's log context.
+  const httpLog = createLogger("http");
+  app.use((req, res, next) => {
+    const inbound = req.get("X-Request-Id");
+    const requestId = inbound && /^[\w.-]{8,64}$/.test(inbound) ? inbound : newRequestId();
+    res.set("X-Request-Id", requestId);
+    withLogContext({ requestId }, () => {
+      const start = Date.now();
+      res.on("finish", () => {
+        // Scrapes and probes come every few seconds; keep them out of the info stream.
+        const write = req.path === "/metrics" || req.path === "/api/health/ready" ? httpLog.debug : httpLog.info;
+        write(`${req.method} ${req.path} ${res.statusCode}`, {
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          duration_ms: Date.now() - start,
+        });
+      });
       next();
     });
-  }
+  });
 
   // Routes
   app.use("/api/sms", smsRoutes);
@@ -81,7 +141,17 @@ async function main() {
   app.use("/api/enrichment", enrichmentRoutes);
   app.use("/api/insights", insightsRoutes);
   app.use("/api/review", reviewRoutes);
+  app.use("/api/rules", rulesRoutes);
+  app.use("/api/accounts", accountsRoutes);
+  app.use("/api/senders", sendersRoutes);
+  app.use("/api/transactions", transactionsRoutes);
+  app.use("/api/webhooks", webhooksRoutes);
+  app.use("/api/notifications", notificationsRoutes);
+  app.use("/api/keys", keysRoutes);
+  app.use("/api/usage", usageRoutes);
   app.use("/mcp/:token", mcpRoutes);
+  app.use("/metrics", metricsRoutes);
+  app.use("/api/health", healthRoutes);
 
   // Root health check
   app.get("/", (_req, res) => {
@@ -100,7 +170,13 @@ async function main() {
 
   // Error handler
   app.use(((err: Error, _req: import("express").Request, res: import("express").Response, _next: import("express").NextFunction) => {
-    console.error("Unhandled error:", err);
+    // body-parser errors (oversized or malformed JSON) carry their own 4xx status.
+    const status = (err as Error & { status?: number }).status;
+    if (status && status >= 400 && status < 500) {
+      res.status(status).json({ success: false, error: err.message });
+      return;
+    }
+    httpLog.error("Unhandled error", { err });
     res.status(500).json({
       error: "Internal server error",
       message: env.isDev ? err.message : undefined,
@@ -109,73 +185,114 @@ async function main() {
 
  
   const server = app.listen(env.port, () => {
-    console.log(`[startup] Server listening on http://localhost:${env.port}`);
-    console.log(`[startup] Environment: ${env.nodeEnv}`);
+    log.info(`Server listening on http://localhost:${env.port}`, { env: env.nodeEnv });
   });
 
   server.on("error", (err) => {
-    console.error("Server failed to start:", err);
+    log.error("Server failed to start", { err });
     process.exit(1);
   });
 
+  // ── Ingest job worker ──────────────────────────────────────────────────────
+  // Drains ingest_jobs persisted by /shortcut-ingest and /pubsub-ingest,
+  // including anything queued (or left running) before a restart.
+  ingestQueue.startIngestWorker();
+
   // ── Gmail Pub/Sub watch lifecycle ──────────────────────────────────────────
   // Lease lasts max 7 days. Renew every 24h on a setInterval (cheap, idempotent).
   // First call on startup establishes the cursor if not already set; subsequent
   // calls just refresh the expiration.
   const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 
+  // Each scheduler tick gets its own request id, so its lines (and any
+  // sync_run it writes) can be correlated like an HTTP request's.
+  const scheduled = (fn: () => Promise<unknown>) => () => {
+    void withLogContext({ requestId: newRequestId() }, fn);
+  };
+
+  const gmailLog = createLogger("Gmail");
   async function ensureGmailWatch() {
     if (!gmailService.isGmailFullyAuthed()) {
-      console.log("[Gmail] Watch skipped — Gmail not fully configured (missing client/secret/refresh_token)");
+      gmailLog.info("Watch skipped — Gmail not fully configured (missing client/secret/refresh_token)");
       return;
     }
     if (!env.gmailTargetUserApiKey) {
-      console.log("[Gmail] Watch skipped — GMAIL_TARGET_USER_API_KEY not set");
+      gmailLog.info("Watch skipped — GMAIL_TARGET_USER_API_KEY not set");
       return;
     }
     try {
-      const user = await supabaseService.getUserByApiKey(env.gmailTargetUserApiKey);
+      const user = (await apiKeys.authenticateApiKey(env.gmailTargetUserApiKey))?.user;
       if (!user) {
-        console.error("[Gmail] Watch failed — no user matches GMAIL_TARGET_USER_API_KEY");
+        gmailLog.error("Watch failed — no user matches GMAIL_TARGET_USER_API_KEY");
         return;
       }
       const result = await gmailService.startOrRenewWatch(user.id);
-      console.log(
-        `[Gmail] Watch active — historyId=${result.historyId} expiresAt=${result.expiresAt.toISOString()}`
-      );
+      gmailLog.info("Watch active", { historyId: result.historyId, expiresAt: result.expiresAt.toISOString() });
     } catch (err) {
       // Don't crash the server on Gmail failures — log and continue. Common
       // causes: refresh token revoked, label missing, topic IAM not set.
-      console.error("[Gmail] startOrRenewWatch failed:", (err as Error).message);
+      gmailLog.error("startOrRenewWatch failed", { err });
     }
   }
 
   // Kick off the first watch shortly after startup (don't block server listen).
-  setTimeout(() => { void ensureGmailWatch(); }, 2000);
+  setTimeout(scheduled(ensureGmailWatch), 2000);
   // Renew every 24h thereafter. Setting unref so it doesn't keep the process alive in tests.
-  setInterval(() => { void ensureGmailWatch(); }, ONE_DAY_MS).unref();
+  setInterval(scheduled(ensureGmailWatch), ONE_DAY_MS).unref();
 
   // ── Nightly enrichment (Layer B) ──────────────────────────────────────────
-  // Runs once per IST day during the 02:00 IST hour. Checking every 15 min
-  // (instead of a single daily timer) survives restarts and clock drift; the
-  // pass itself is idempotent, so a duplicate trigger enriches nothing.
-  const ENRICH_HOUR_IST = 2;
-  let lastEnrichDay = "";
-  setInterval(() => {
-    const ist = new Date(Date.now() + 5.5 * 60 * 60 * 1000);
-    const day = ist.toISOString().slice(0, 10);
-    if (ist.getUTCHours() !== ENRICH_HOUR_IST || lastEnrichDay === day) return;
-    lastEnrichDay = day;
-    enrichmentJob
-      .runEnrichmentPass()
-      .then(() => subscriptionSync.reconcileSubscriptions())
-      .then((r) => {
-        if (r.linked > 0) console.log(`[subscriptions] reconcile linked ${r.linked} txn(s) across ${r.users} user(s)`);
+  // Runs once per user-local day during the 02:00 hour of each user's
+  // timezone. Checking every 15 min (instead of a single daily timer) survives
+  // restarts and clock drift; the pass itself is idempotent, so a duplicate
+  // trigger enriches nothing.
+  const ENRICH_LOCAL_HOUR = 2;
+  const lastEnrichDay = new Map<string, string>();
+  const nightlyLog = createLogger("nightly");
+  setInterval(scheduled(() =>
+    supabaseService
+      .listUserTimeZones()
+      .then(async (users) => {
+        const userIds = dueAtLocalHour(users, ENRICH_LOCAL_HOUR, lastEnrichDay);
+        if (userIds.length === 0) return;
+        await enrichmentJob.runEnrichmentPass({ userIds });
+        const r = await subscriptionSync.reconcileSubscriptions({ userIds });
+        if (r.linked > 0) nightlyLog.info("Subscription reconcile linked transactions", { linked: r.linked, users: r.users });
+        await subscriptionSync.notifyRenewalsDue({ userIds });
       })
       .catch((err: Error) => {
-        console.error("[enrichment] nightly pass failed:", err.message);
-      });
-  }, 15 * 60 * 1000).unref();
+        nightlyLog.error("Nightly pass failed", { err });
+      }),
+  ), 15 * 60 * 1000).unref();
+
+  // ── Bill reminders ─────────────────────────────────────────────────────────
+  // sendBillReminders gates on each user's local hour itself and records the
+  // reminders already sent per bill, so it just runs every 15 min.
+  const billsLog = createLogger("bills");
+  setInterval(scheduled(() =>
+    bills
+      .sendBillReminders()
+      .then((sent) => {
+        if (sent > 0) billsLog.info("Sent bill reminders", { sent });
+      })
+      .catch((err: Error) => {
+        billsLog.error("Reminder pass failed", { err });
+      }),
+  ), 15 * 60 * 1000).unref();
+
+  // ── LLM registry ───────────────────────────────────────────────────────────
+  // Picks up edits to the llm_config row without a restart. An invalid row is
+  // logged and the current chains kept.
+  setInterval(scheduled(llm.refreshLlmConfigFromDb), 5 * 60 * 1000).unref();
+
+  // ── Webhook retries ────────────────────────────────────────────────────────
+  // First attempts happen inline when the event fires; this picks up the
+  // failed ones whose backoff has elapsed.
+  const webhooksLog = createLogger("Webhooks");
+  setInterval(scheduled(() =>
+    webhooks.retryDueDeliveries().catch((err: Error) => {
+      webhooksLog.error("Retry pass failed", { err });
+    }),
+  ), 60 * 1000).unref();
 }
 
 main().catch((err) => {
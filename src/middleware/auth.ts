@@ -0,0 +1,79 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { authenticateApiKey, hasScope, type ApiKeyScope, type AuthContext } from "../services/apiKeys.js";
+import { setLogUser } from "../services/logger.js";
+import type { User } from "../types/index.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireScope(). */
+      caller?: AuthContext;
+    }
+  }
+}
+
+interface KeySources {
+  /** Also accept ?api_key= — for schedulers that can't set headers (the key then lands in request logs). */
+  query?: boolean;
+  /** Also accept the key in this body field. */
+  body?: string;
+}
+
+function presentedKey(req: Request, from: KeySources): string | null {
+  const header = req.headers["x-api-key"];
+  const candidates: unknown[] = [
+    Array.isArray(header) ? header[0] : header,
+    from.query ? req.query.api_key : undefined,
+    from.body ? req.body?.[from.body] : undefined,
+  ];
+  const key = candidates.find((c) => typeof c === "string" && c.length > 0);
+  return (key as string | undefined) ?? null;
+}
+
+function missingKeyError(from: KeySources): string {
+  if (from.query) return "Missing x-api-key header or api_key query param";
+  if (from.body) return `Missing x-api-key header or ${from.body} field`;
+  return "Missing x-api-key header";
+}
+
+/**
+ * Authenticate the request's API key and require `scope` ("admin" keys pass
+ * every check). 401 for a missing, unknown, revoked or expired key; 403 when
+ * the key is valid but not scoped for this route. On success the caller is
+ * on req.caller — read it with authUser(req) / authCaller(req).
+ */
+export function requireScope(scope: ApiKeyScope, from: KeySources = {}): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = presentedKey(req, from);
+      if (!key) {
+        res.status(401).json({ success: false, error: missingKeyError(from) });
+        return;
+      }
+      const auth = await authenticateApiKey(key);
+      if (!auth) {
+        res.status(401).json({ success: false, error: "Invalid API key" });
+        return;
+      }
+      if (!hasScope(auth.scopes, scope)) {
+        res.status(403).json({ success: false, error: `API key lacks the "${scope}" scope` });
+        return;
+      }
+      req.caller = auth;
+      setLogUser(auth.user.id);
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+/** The authenticated key and its user. Only valid behind requireScope(). */
+export function authCaller(req: Request): AuthContext {
+  if (!req.caller) throw new Error("authCaller() called on a route without requireScope()");
+  return req.caller;
+}
+
+export function authUser(req: Request): User {
+  return authCaller(req).user;
+}
@@ -0,0 +1,65 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { checkQuota, hitRateLimit, type QuotaDecision, type QuotaKind, type RateBucket } from "../services/quotas.js";
+import type { AuthContext } from "../services/apiKeys.js";
+import type { BudgetStatus } from "../services/aiBudget.js";
+import { authCaller, authUser } from "./auth.js";
+
+/** Rates are per API key; the legacy key counts per user. */
+export function rateSubject(caller: AuthContext): string {
+  return caller.keyId ?? `legacy:${caller.user.id}`;
+}
+
+export function tooManyRequests(res: Response, retryAfterSec: number, error: string) {
+  res.set("Retry-After", String(retryAfterSec));
+  res.status(429).json({ success: false, error, retry_after: retryAfterSec });
+}
+
+export function budgetExceededMessage(status: BudgetStatus): string {
+  const period = status.exceeded === "monthly" ? "Monthly" : "Daily";
+  return `${period} AI budget reached; AI calls resume when it resets`;
+}
+
+/** Refuse AI work while the user's budget is exceeded. True when it answered 429. */
+export function rejectOverBudget(res: Response, budget: BudgetStatus | null): boolean {
+  if (budget?.mode !== "deferred" || !budget.resumeAt) return false;
+  const retryAfter = Math.max(1, Math.ceil((budget.resumeAt.getTime() - Date.now()) / 1000));
+  tooManyRequests(res, retryAfter, budgetExceededMessage(budget));
+  return true;
+}
+
+export function quotaExceededMessage(d: Extract<QuotaDecision, { allowed: false }>): string {
+  return `Daily ${d.kind.replace("_", " ")} quota reached (${d.used}/${d.limit}); resets at local midnight`;
+}
+
+/** Per-key requests-per-minute limit. Goes after requireScope(). */
+export function rateLimit(bucket: RateBucket): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const decision = hitRateLimit(rateSubject(authCaller(req)), bucket);
+    res.set("X-RateLimit-Limit", String(decision.limit));
+    res.set("X-RateLimit-Remaining", String(decision.remaining));
+    if (!decision.allowed) {
+      tooManyRequests(res, decision.resetSec, `Rate limit exceeded: ${decision.limit} ${bucket} requests per minute`);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Refuse the request when today's `kind` quota can't take `amountOf(req)`
+ * more. Goes after requireScope(); the route records what it actually used.
+ */
+export function requireQuota(kind: QuotaKind, amountOf: (req: Request) => number = () => 1): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const decision = await checkQuota(authUser(req), kind, amountOf(req));
+      if (!decision.allowed) {
+        tooManyRequests(res, decision.retryAfterSec, quotaExceededMessage(decision));
+        return;
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
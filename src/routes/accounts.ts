@@ -0,0 +1,23 @@
+import { Router, type Request, type Response } from "express";
+import { authUser, requireScope } from "../middleware/auth.js";
+import { getLatestBalances } from "../services/balances.js";
+
+const router = Router();
+
+/**
+ * GET /api/accounts/balances
+ *
+ * Latest balance / available limit per (bank_name, account_last4), read off
+ * bank alerts, with credit-limit utilisation where the limit is known.
+ */
+router.get("/balances", requireScope("read"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  try {
+    res.json({ success: true, accounts: await getLatestBalances(user.id) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+export default router;
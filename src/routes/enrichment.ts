@@ -1,23 +1,11 @@
 import { Router, type Request, type Response } from "express";
-import { getUserByApiKey } from "../services/supabase.js";
+import { requireScope } from "../middleware/auth.js";
 import { runEnrichmentPass } from "../services/enrichmentJob.js";
 
 const router = Router();
 
 // Manual trigger for the nightly enrichment pass (testing / catch-up).
-router.post("/run", async (req: Request, res: Response) => {
-  const raw = req.headers["x-api-key"];
-  const apiKey = Array.isArray(raw) ? raw[0] : raw;
-  if (!apiKey) {
-    res.status(401).json({ success: false, error: "Missing x-api-key header" });
-    return;
-  }
-  const user = await getUserByApiKey(apiKey);
-  if (!user) {
-    res.status(401).json({ success: false, error: "Invalid API key" });
-    return;
-  }
-
+router.post("/run", requireScope("admin"), async (req: Request, res: Response) => {
   try {
     const result = await runEnrichmentPass({
       limit: typeof req.body?.limit === "number" ? req.body.limit : undefined,
@@ -0,0 +1,24 @@
+import { Router, type Request, type Response } from "express";
+import { runReadinessChecks } from "../services/readiness.js";
+
+const router = Router();
+
+/**
+ * GET /api/health/ready
+ *
+ * Readiness: Supabase, the Gmail watch lease and history cursor, the last
+ * successful sync_run per source and each AI model's latest call, reported
+ * separately. 200 when every check passes or is skipped, 503 otherwise.
+ * Unauthenticated so load balancers can probe it; it reports ages and
+ * statuses, no user data.
+ */
+router.get("/ready", async (_req: Request, res: Response) => {
+  try {
+    const report = await runReadinessChecks();
+    res.status(report.status === "ready" ? 200 : 503).json(report);
+  } catch (err) {
+    res.status(503).json({ status: "degraded", error: (err as Error).message });
+  }
+});
+
+export default router;
@@ -1,11 +1,17 @@
 import { Router, type Request, type Response } from "express";
 import { z } from "zod";
+import { authUser, requireScope } from "../middleware/auth.js";
 import {
-  getUserByApiKey,
   getCategories,
   getCategoryIdBySlug,
+  getUserMerchantMappings,
   supabase,
 } from "../services/supabase.js";
+import { buildRuleMatcher } from "../services/merchantRules.js";
+import { userTimeZone, zonedDateTime } from "../services/timezone.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("Axio Import");
 
 const router = Router();
 
@@ -89,22 +95,21 @@ function parseAmount(amountStr: string): number {
 }
 
 // ─── Parse Axio date+time → ISO datetime ────────────────────────────────────
-function parseDateTime(date: string, time: string): string {
+function parseDateTime(date: string, time: string, timeZone: string): string {
   // date: "2025-02-02", time: "09:49 AM"
   try {
     const [timePart, ampm] = time.trim().split(" ");
-    let [hours, minutes] = timePart.split(":").map(Number);
+    const [h, minutes] = timePart.split(":").map(Number);
+    let hours = h;
 
     if (ampm?.toUpperCase() === "PM" && hours !== 12) hours += 12;
     if (ampm?.toUpperCase() === "AM" && hours === 12) hours = 0;
+    if (!Number.isFinite(hours) || !Number.isFinite(minutes)) throw new Error("bad time");
 
-    const h = String(hours).padStart(2, "0");
-    const m = String(minutes).padStart(2, "0");
-
-    // Return as IST (UTC+5:30)
-    return `${date}T${h}:${m}:00+05:30`;
+    // Axio exports wall-clock times in the phone's zone: the user's timezone
+    return zonedDateTime(date, hours, minutes, timeZone);
   } catch {
-    return `${date}T00:00:00+05:30`;
+    return zonedDateTime(date, 0, 0, timeZone);
   }
 }
 
@@ -124,7 +129,8 @@ const AxioRowSchema = z.object({
 });
 
 const ImportRequestSchema = z.object({
-  api_key: z.string().min(1),
+  // Legacy: the key in the body. The x-api-key header works too.
+  api_key: z.string().min(1).optional(),
   rows: z.array(AxioRowSchema),
 });
 
@@ -133,8 +139,9 @@ const ImportRequestSchema = z.object({
  *
  * Import transactions from Axio CSV export
  */
-router.post("/axio", async (req: Request, res: Response) => {
+router.post("/axio", requireScope("ingest", { body: "api_key" }), async (req: Request, res: Response) => {
   const startTime = Date.now();
+  const user = authUser(req);
 
   const parseResult = ImportRequestSchema.safeParse(req.body);
   if (!parseResult.success) {
@@ -146,19 +153,14 @@ router.post("/axio", async (req: Request, res: Response) => {
     return;
   }
 
-  const { rows, api_key } = parseResult.data;
-
-  // Auth
-  const user = await getUserByApiKey(api_key);
-  if (!user) {
-    res.status(401).json({ success: false, error: "Invalid API key" });
-    return;
-  }
+  const { rows } = parseResult.data;
 
-  console.log(`[Axio Import] User ${user.id.substring(0, 8)}... - ${rows.length} rows`);
+  log.info(`User ${user.id.substring(0, 8)}... - ${rows.length} rows`);
 
   // Get categories
   const categories = await getCategories(user.id);
+  const timeZone = userTimeZone(user);
+  const matchRule = buildRuleMatcher(await getUserMerchantMappings(user.id), "[Axio Import]", timeZone);
 
   let inserted = 0;
   let skipped = 0;
@@ -181,12 +183,30 @@ router.post("/axio", async (req: Request, res: Response) => {
     const slug = axioCategoryToSlug(row.category);
     const categoryId = getCategoryIdBySlug(slug, categories);
 
-    const transacted_at = parseDateTime(row.date, row.time);
+    const transacted_at = parseDateTime(row.date, row.time, timeZone);
 
     // Parse is_expense / is_income from Axio CSV fields
     // Axio uses: "Yes" = true, "No" = false, "'-" = not applicable (dash)
-    const is_expense = row.expense.trim().toLowerCase() === "yes";
-    const is_income = row.income.trim().toLowerCase() === "yes";
+    let is_expense = row.expense.trim().toLowerCase() === "yes";
+    let is_income = row.income.trim().toLowerCase() === "yes";
+
+    // User merchant rules win over Axio's own merchant / category / flags
+    let merchant = row.place.trim() || null;
+    let category_id = categoryId;
+    const ruleHit = matchRule({
+      merchant,
+      amount,
+      direction,
+      bank_name,
+      account_last4,
+      transacted_at,
+    });
+    if (ruleHit) {
+      merchant = ruleHit.merchant;
+      if (ruleHit.category_id) category_id = ruleHit.category_id;
+      if (ruleHit.is_expense !== null) is_expense = ruleHit.is_expense;
+      if (ruleHit.is_income !== null) is_income = ruleHit.is_income;
+    }
 
     // Build notes from Axio tags + note
     const noteParts: string[] = [];
@@ -199,7 +219,7 @@ router.post("/axio", async (req: Request, res: Response) => {
       amount,
       direction,
       transacted_at,
-      merchant: row.place.trim() || null,
+      merchant,
       account_last4,
       bank_name,
       reference_id: null,
@@ -207,7 +227,7 @@ router.post("/axio", async (req: Request, res: Response) => {
       sms_id: null,
       sms_sender: null,
       source: "axio",
-      category_id: categoryId,
+      category_id,
       notes,
       original_amount: null,
       original_currency: null,
@@ -228,9 +248,7 @@ router.post("/axio", async (req: Request, res: Response) => {
   }
 
   const duration = Date.now() - startTime;
-  console.log(
-    `[Axio Import] Completed in ${duration}ms - inserted: ${inserted}, skipped: ${skipped}, errors: ${errors}`
-  );
+  log.info(`Completed in ${duration}ms - inserted: ${inserted}, skipped: ${skipped}, errors: ${errors}`);
 
   res.json({
     success: true,
@@ -1,21 +1,15 @@
 import { Router, type Request, type Response } from "express";
-import { getUserByApiKey } from "../services/supabase.js";
+import { authUser, requireScope } from "../middleware/auth.js";
+import { rateLimit, rejectOverBudget, requireQuota } from "../middleware/limits.js";
+import { recordUsage } from "../services/quotas.js";
+import { currentBudget, recordAiSpend } from "../services/aiBudget.js";
 import { generateMonthlySummary, MonthlyAggregatesSchema } from "../services/monthlySummary.js";
+import { usageKey } from "../services/llm.js";
 
 const router = Router();
 
-router.post("/monthly-summary", async (req: Request, res: Response) => {
-  const raw = req.headers["x-api-key"];
-  const apiKey = Array.isArray(raw) ? raw[0] : raw;
-  if (!apiKey) {
-    res.status(401).json({ success: false, error: "Missing x-api-key header" });
-    return;
-  }
-  const user = await getUserByApiKey(apiKey);
-  if (!user) {
-    res.status(401).json({ success: false, error: "Invalid API key" });
-    return;
-  }
+router.post("/monthly-summary", requireScope("review"), rateLimit("review"), requireQuota("ai_tokens"), async (req: Request, res: Response) => {
+  const user = authUser(req);
 
   const parsed = MonthlyAggregatesSchema.safeParse(req.body?.aggregates);
   if (!parsed.success) {
@@ -24,7 +18,12 @@ router.post("/monthly-summary", async (req: Request, res: Response) => {
   }
 
   try {
+    if (rejectOverBudget(res, await currentBudget(user))) return;
+    const startedAt = new Date();
     const result = await generateMonthlySummary(user.id, parsed.data);
+    const { input, output, reasoning } = result.usage;
+    void recordUsage(user, { ai_tokens: input + output + reasoning });
+    void recordAiSpend(user.id, "summary", { [usageKey(result)]: { input, output, reasoning } }, startedAt);
     res.json({ success: true, ...result });
   } catch (err) {
     res.status(500).json({ success: false, error: (err as Error).message });
@@ -0,0 +1,120 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authUser, requireScope } from "../middleware/auth.js";
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  revokeLegacyApiKey,
+  rotateApiKey,
+} from "../services/apiKeys.js";
+
+const router = Router();
+
+router.use(requireScope("admin"));
+
+const CreateKeySchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expires_at: z
+    .string()
+    .datetime()
+    .refine((t) => new Date(t).getTime() > Date.now(), "must be in the future")
+    .nullable()
+    .optional(),
+});
+
+const RotateKeySchema = z.object({
+  grace_hours: z.number().min(0).max(24 * 30).optional(),
+});
+
+const invalid = (res: Response, error: string, err: z.ZodError) =>
+  res.status(400).json({
+    success: false,
+    error,
+    details: err.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+  });
+
+/** GET /api/keys — every key, revoked and expired included. Never the key itself. */
+router.get("/", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, scopes: API_KEY_SCOPES, keys: await listApiKeys(user.id) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/**
+ * POST /api/keys  { label, scopes, expires_at? }
+ *
+ * The response carries the key — it is not stored and can't be shown again.
+ */
+router.post("/", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  const parsed = CreateKeySchema.safeParse(req.body);
+  if (!parsed.success) {
+    invalid(res, "Invalid key", parsed.error);
+    return;
+  }
+  try {
+    res.status(201).json({ success: true, ...(await createApiKey(user.id, parsed.data)) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/**
+ * POST /api/keys/:id/rotate  { grace_hours? }
+ *
+ * New key with the same label, scopes and expiry. The old one stops working
+ * after grace_hours, or at once when omitted.
+ */
+router.post("/:id/rotate", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  const parsed = RotateKeySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    invalid(res, "Invalid rotation", parsed.error);
+    return;
+  }
+  try {
+    const rotated = await rotateApiKey(user.id, String(req.params.id), parsed.data.grace_hours);
+    if (!rotated) {
+      res.status(404).json({ success: false, error: "Key not found, revoked or expired" });
+      return;
+    }
+    res.status(201).json({ success: true, ...rotated });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/**
+ * DELETE /api/keys/legacy — switch off the old profiles.api_key. Declared
+ * before /:id so "legacy" isn't taken for a key id.
+ */
+router.delete("/legacy", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    await revokeLegacyApiKey(user.id);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+router.delete("/:id", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    if (!(await revokeApiKey(user.id, String(req.params.id)))) {
+      res.status(404).json({ success: false, error: "Key not found or already revoked" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+export default router;
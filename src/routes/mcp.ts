@@ -2,14 +2,19 @@ import { Router, type Request, type Response } from "express";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { z } from "zod";
-import { getUserByApiKey } from "../services/supabase.js";
+import { quotaExceededMessage, rateSubject } from "../middleware/limits.js";
+import { authenticateApiKey, hasScope } from "../services/apiKeys.js";
+import { checkQuota, hitRateLimit, recordUsage } from "../services/quotas.js";
+import { createLogger, setLogUser } from "../services/logger.js";
 import {
   buildReviewPayload,
   storeReview,
-  currentIstMonth,
+  currentReviewMonth,
   ReviewSubmissionSchema,
   MONTH_RE,
 } from "../services/monthlyReview.js";
+import { userTimeZone } from "../services/timezone.js";
+import type { User } from "../types/index.js";
 
 /**
  * MCP wrapper for the monthly-review pipeline, for agent platforms that speak
@@ -26,7 +31,9 @@ const text = (value: unknown) => ({
   content: [{ type: "text" as const, text: JSON.stringify(value) }],
 });
 
-function buildServer(userId: string): McpServer {
+function buildServer(user: User): McpServer {
+  const userId = user.id;
+  const timeZone = userTimeZone(user);
   const server = new McpServer({ name: "mtwallet-review", version: "1.0.0" });
 
   server.registerTool(
@@ -44,11 +51,11 @@ function buildServer(userId: string): McpServer {
           .string()
           .regex(MONTH_RE)
           .optional()
-          .describe("YYYY-MM. Omit for the current month (IST)."),
+          .describe("YYYY-MM. Omit for the current month (in the user's timezone)."),
       },
     },
     async ({ month }) => {
-      const payload = await buildReviewPayload(userId, month ?? currentIstMonth());
+      const payload = await buildReviewPayload(userId, month ?? currentReviewMonth(timeZone), timeZone);
       return text(payload);
     },
   );
@@ -70,15 +77,15 @@ function buildServer(userId: string): McpServer {
           .string()
           .regex(MONTH_RE)
           .optional()
-          .describe("YYYY-MM. Omit for the current month (IST)."),
+          .describe("YYYY-MM. Omit for the current month (in the user's timezone)."),
       },
     },
     async (args) => {
       const submission = ReviewSubmissionSchema.parse({
         ...args,
-        month: args.month ?? currentIstMonth(),
+        month: args.month ?? currentReviewMonth(timeZone),
       });
-      const payload = await buildReviewPayload(userId, submission.month);
+      const payload = await buildReviewPayload(userId, submission.month, timeZone);
       const result = await storeReview(userId, payload, submission);
       if ("errors" in result) {
         return {
@@ -98,11 +105,13 @@ function buildServer(userId: string): McpServer {
 }
 
 const router = Router({ mergeParams: true });
+const log = createLogger("mcp");
 
 router.post("/", async (req: Request, res: Response) => {
   const token = (req.params as { token?: string }).token;
-  const user = token ? await getUserByApiKey(token) : null;
-  if (!user) {
+  // Not requireScope(): MCP clients expect a JSON-RPC error body.
+  const auth = token ? await authenticateApiKey(token) : null;
+  if (!auth || !hasScope(auth.scopes, "mcp")) {
     res.status(401).json({
       jsonrpc: "2.0",
       error: { code: -32001, message: "Invalid or missing token in MCP URL" },
@@ -110,8 +119,26 @@ router.post("/", async (req: Request, res: Response) => {
     });
     return;
   }
+  const user = auth.user;
+  setLogUser(user.id);
 
-  const server = buildServer(user.id);
+  const limited = (retryAfterSec: number, message: string) => {
+    res.set("Retry-After", String(retryAfterSec));
+    res.status(429).json({ jsonrpc: "2.0", error: { code: -32029, message }, id: null });
+  };
+  const rate = hitRateLimit(rateSubject(auth), "mcp");
+  if (!rate.allowed) {
+    limited(rate.resetSec, `Rate limit exceeded: ${rate.limit} MCP requests per minute`);
+    return;
+  }
+  const quota = await checkQuota(user, "mcp_calls");
+  if (!quota.allowed) {
+    limited(quota.retryAfterSec, quotaExceededMessage(quota));
+    return;
+  }
+  void recordUsage(user, { mcp_calls: 1 });
+
+  const server = buildServer(user);
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: undefined,
     enableJsonResponse: true,
@@ -125,7 +152,7 @@ router.post("/", async (req: Request, res: Response) => {
     await server.connect(transport);
     await transport.handleRequest(req, res, req.body);
   } catch (err) {
-    console.error("[mcp] request failed:", (err as Error).message);
+    log.error("Request failed", { err });
     if (!res.headersSent) {
       res.status(500).json({
         jsonrpc: "2.0",
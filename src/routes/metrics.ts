@@ -0,0 +1,30 @@
+import crypto from "crypto";
+import { Router, type Request, type Response } from "express";
+import { env } from "../config/env.js";
+import { renderMetrics } from "../services/metrics.js";
+
+const router = Router();
+
+function digest(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+/**
+ * GET /metrics
+ *
+ * Prometheus scrape target. Counters are process-wide, not per user. With
+ * METRICS_TOKEN set, scrapers must send `Authorization: Bearer <token>`;
+ * without it the endpoint is open (keep it on a private network).
+ */
+router.get("/", (req: Request, res: Response) => {
+  if (env.metricsToken) {
+    const presented = req.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+    if (!crypto.timingSafeEqual(digest(presented), digest(env.metricsToken))) {
+      res.status(401).json({ success: false, error: "Invalid metrics token" });
+      return;
+    }
+  }
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
+});
+
+export default router;
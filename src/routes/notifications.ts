@@ -0,0 +1,137 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { env } from "../config/env.js";
+import { authUser, requireScope } from "../middleware/auth.js";
+import { ChannelConfigSchema, channelUrlProblem } from "../services/notificationChannels.js";
+import {
+  NOTIFICATION_EVENTS,
+  createChannel,
+  deleteChannel,
+  listChannels,
+  listFailures,
+  testChannel,
+  updateChannel,
+} from "../services/notifier.js";
+
+const router = Router();
+
+const EventsSchema = z.array(z.enum(NOTIFICATION_EVENTS)).default([]);
+
+const CreateChannelSchema = z.intersection(ChannelConfigSchema, z.object({ events: EventsSchema }));
+
+const UpdateChannelSchema = z
+  .object({ events: EventsSchema.optional(), active: z.boolean().optional() })
+  .refine((p) => p.events !== undefined || p.active !== undefined, "Nothing to update");
+
+const invalid = (res: Response, error: string, err: z.ZodError) =>
+  res.status(400).json({
+    success: false,
+    error,
+    details: err.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+  });
+
+/** GET /api/notifications/vapid-public-key — for PushManager.subscribe(). */
+router.get("/vapid-public-key", (_req: Request, res: Response) => {
+  if (!env.vapidPublicKey) {
+    res.status(404).json({ success: false, error: "Web Push is not configured" });
+    return;
+  }
+  res.json({ success: true, publicKey: env.vapidPublicKey });
+});
+
+router.get("/channels", requireScope("read"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, events: NOTIFICATION_EVENTS, channels: await listChannels(user.id) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/**
+ * POST /api/notifications/channels  { kind, config, events? }
+ *
+ * kind: web_push (config = the browser's PushSubscription JSON), ntfy
+ * ({ url, token? }), gotify ({ url, token }), email ({ to }) or
+ * edge_function. events: which of NOTIFICATION_EVENTS to send here; empty
+ * or omitted means all. A push endpoint or server URL that resolves to a
+ * private address is refused with 400.
+ */
+router.post("/channels", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  const parsed = CreateChannelSchema.safeParse(req.body);
+  if (!parsed.success) {
+    invalid(res, "Invalid channel", parsed.error);
+    return;
+  }
+  const unsafe = await channelUrlProblem(parsed.data);
+  if (unsafe) {
+    res.status(400).json({ success: false, error: `Invalid channel URL: ${unsafe}` });
+    return;
+  }
+  try {
+    res.status(201).json({ success: true, channel: await createChannel(user.id, parsed.data) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/** PATCH /api/notifications/channels/:id  { events?, active? } */
+router.patch("/channels/:id", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  const parsed = UpdateChannelSchema.safeParse(req.body);
+  if (!parsed.success) {
+    invalid(res, "Invalid update", parsed.error);
+    return;
+  }
+  try {
+    const channel = await updateChannel(user.id, String(req.params.id), parsed.data);
+    if (!channel) {
+      res.status(404).json({ success: false, error: "Channel not found" });
+      return;
+    }
+    res.json({ success: true, channel });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+router.delete("/channels/:id", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    if (!(await deleteChannel(user.id, String(req.params.id)))) {
+      res.status(404).json({ success: false, error: "Channel not found" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/** POST /api/notifications/channels/:id/test — send a test notification now. */
+router.post("/channels/:id/test", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    const delivered = await testChannel(user.id, String(req.params.id));
+    if (delivered === null) {
+      res.status(404).json({ success: false, error: "Channel not found" });
+      return;
+    }
+    res.json({ success: true, delivered });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/** GET /api/notifications/failures — sends that never arrived, newest first. */
+router.get("/failures", requireScope("read"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, failures: await listFailures(user.id) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+export default router;
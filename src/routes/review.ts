@@ -1,34 +1,23 @@
 import { Router, type Request, type Response } from "express";
-import { getUserByApiKey } from "../services/supabase.js";
+import { authUser, requireScope } from "../middleware/auth.js";
+import { rateLimit } from "../middleware/limits.js";
 import {
   buildReviewPayload,
   storeReview,
-  currentIstMonth,
+  currentReviewMonth,
   ReviewSubmissionSchema,
   MONTH_RE,
 } from "../services/monthlyReview.js";
+import { userTimeZone } from "../services/timezone.js";
 
 const router = Router();
 
 // Key via header normally; ?api_key= fallback for schedulers that can't set
 // headers (the key then lands in request logs — acceptable for this app).
-async function authenticate(req: Request, res: Response): Promise<{ id: string } | null> {
-  const raw = req.headers["x-api-key"] ?? req.query.api_key;
-  const apiKey = Array.isArray(raw) ? raw[0] : raw;
-  if (!apiKey || typeof apiKey !== "string") {
-    res.status(401).json({ success: false, error: "Missing x-api-key header or api_key query param" });
-    return null;
-  }
-  const user = await getUserByApiKey(apiKey);
-  if (!user) {
-    res.status(401).json({ success: false, error: "Invalid API key" });
-    return null;
-  }
-  return user as { id: string };
-}
+const reviewGuards = [requireScope("review", { query: true }), rateLimit("review")];
 
-function monthParam(req: Request, res: Response): string | null {
-  const month = (req.method === "GET" ? req.query.month : req.body?.month) ?? currentIstMonth();
+function monthParam(req: Request, res: Response, timeZone: string): string | null {
+  const month = (req.method === "GET" ? req.query.month : req.body?.month) ?? currentReviewMonth(timeZone);
   if (typeof month !== "string" || !MONTH_RE.test(month)) {
     res.status(400).json({ success: false, error: "month must be YYYY-MM" });
     return null;
@@ -36,23 +25,22 @@ function monthParam(req: Request, res: Response): string | null {
   return month;
 }
 
-router.get("/payload", async (req: Request, res: Response) => {
-  const user = await authenticate(req, res);
-  if (!user) return;
-  const month = monthParam(req, res);
+router.get("/payload", ...reviewGuards, async (req: Request, res: Response) => {
+  const user = authUser(req);
+  const timeZone = userTimeZone(user);
+  const month = monthParam(req, res, timeZone);
   if (!month) return;
 
   try {
-    const payload = await buildReviewPayload(user.id, month);
+    const payload = await buildReviewPayload(user.id, month, timeZone);
     res.json({ success: true, payload });
   } catch (err) {
     res.status(500).json({ success: false, error: (err as Error).message });
   }
 });
 
-router.post("/groupings", async (req: Request, res: Response) => {
-  const user = await authenticate(req, res);
-  if (!user) return;
+router.post("/groupings", ...reviewGuards, async (req: Request, res: Response) => {
+  const user = authUser(req);
 
   const parsed = ReviewSubmissionSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -67,7 +55,7 @@ router.post("/groupings", async (req: Request, res: Response) => {
   try {
     // Reconcile against a FRESH payload so drift between GET and POST
     // (new txns, refund links) fails loudly instead of storing stale sums.
-    const payload = await buildReviewPayload(user.id, parsed.data.month);
+    const payload = await buildReviewPayload(user.id, parsed.data.month, userTimeZone(user));
     const result = await storeReview(user.id, payload, parsed.data);
     if ("errors" in result) {
       res.status(422).json({
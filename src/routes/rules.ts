@@ -0,0 +1,141 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authUser, requireScope } from "../middleware/auth.js";
+import {
+  getCategories,
+  getExtractedMerchants,
+  listTransactionsForRules,
+  updateTransactionsByIds,
+} from "../services/supabase.js";
+import { MerchantRuleDraftSchema, simulateRule, validateRule } from "../services/merchantRules.js";
+import { listSuggestions, resolveSuggestion } from "../services/merchantCorrections.js";
+import { userTimeZone } from "../services/timezone.js";
+import type { UserMerchantMapping } from "../types/index.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("Rules");
+
+const router = Router();
+
+// Responses list at most this many rows; counts always cover every match.
+const MAX_RETURNED_ROWS = 500;
+
+const SimulateRequestSchema = z.object({
+  rule: MerchantRuleDraftSchema,
+  apply: z.boolean().optional(),
+});
+
+/**
+ * POST /api/rules/simulate
+ *
+ * Dry-run a draft user_merchant_mappings rule over the user's stored
+ * transactions: which rows it matches and their merchant / category /
+ * is_expense / is_income before and after. Rows are matched on the merchant
+ * extraction produced, as ingest matches them, not on the stored one. With `apply: true` the changed
+ * rows are rewritten. The rule itself is not saved.
+ */
+router.post("/simulate", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  const parsed = SimulateRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid rule",
+      details: parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+    });
+    return;
+  }
+
+  const rule: UserMerchantMapping = { ...parsed.data.rule, id: "draft", user_id: user.id };
+  const invalid = validateRule(rule);
+  if (invalid) {
+    res.status(400).json({ success: false, error: `Invalid rule: ${invalid}` });
+    return;
+  }
+
+  try {
+    const [rows, categories, extracted] = await Promise.all([
+      listTransactionsForRules(user.id),
+      getCategories(user.id),
+      getExtractedMerchants(user.id),
+    ]);
+    if (rule.default_category_id && !categories.some((c) => c.id === rule.default_category_id)) {
+      res.status(400).json({ success: false, error: "Unknown default_category_id" });
+      return;
+    }
+
+    const matches = simulateRule(rule, rows, userTimeZone(user), extracted);
+    const changed = matches.filter((m) => m.changed);
+
+    let updated = 0;
+    if (parsed.data.apply && changed.length > 0) {
+      // Every changed row gets the same patch: only the fields the rule sets.
+      const patch: Parameters<typeof updateTransactionsByIds>[2] = {};
+      if (rule.mapped_merchant.trim()) patch.merchant = rule.mapped_merchant;
+      if (rule.default_category_id) patch.category_id = rule.default_category_id;
+      if (rule.default_is_expense !== null) patch.is_expense = rule.default_is_expense;
+      if (rule.default_is_income !== null) patch.is_income = rule.default_is_income;
+      updated = await updateTransactionsByIds(user.id, changed.map((m) => m.id), patch);
+      log.info(`User ${user.id.substring(0, 8)}... applied draft rule to ${updated} transactions`);
+    }
+
+    const slugById = new Map(categories.map((c) => [c.id, c.slug]));
+    const withSlug = <T extends { category_id: string | null }>(f: T) => ({
+      ...f,
+      category: f.category_id ? slugById.get(f.category_id) ?? null : null,
+    });
+
+    res.json({
+      success: true,
+      applied: Boolean(parsed.data.apply),
+      matched: matches.length,
+      changed: changed.length,
+      updated,
+      transactions: matches.slice(0, MAX_RETURNED_ROWS).map((m) => ({
+        ...m,
+        before: withSlug(m.before),
+        after: withSlug(m.after),
+      })),
+      truncated: matches.length > MAX_RETURNED_ROWS,
+    });
+  } catch (err) {
+    log.error("Simulation failed", { err });
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// ── Learned rule suggestions ────────────────────────────────────────────────
+//
+// Corrections made in the reclassify dialog that repeated often enough to
+// propose as a merchant rule (see services/merchantCorrections.ts).
+
+router.get("/suggestions", requireScope("read"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, suggestions: await listSuggestions(user.id) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+function resolveHandler(action: "accept" | "dismiss") {
+  return async (req: Request, res: Response) => {
+    const user = authUser(req);
+    try {
+      const result = await resolveSuggestion(user.id, String(req.params.id), action);
+      if (!result) {
+        res.status(404).json({ success: false, error: "Suggestion not found" });
+        return;
+      }
+      res.json({ success: true, ...result });
+    } catch (err) {
+      res.status(500).json({ success: false, error: (err as Error).message });
+    }
+  };
+}
+
+router.post("/suggestions/:id/accept", requireScope("admin"), resolveHandler("accept"));
+router.post("/suggestions/:id/dismiss", requireScope("admin"), resolveHandler("dismiss"));
+
+export default router;
@@ -0,0 +1,55 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authUser, requireScope } from "../middleware/auth.js";
+import { listUserSenders, setSenderOverride } from "../services/senderRegistry.js";
+
+const router = Router();
+
+/**
+ * GET /api/senders
+ *
+ * The user's sender registry: per sender, how often it was seen, how many
+ * transactions it produced, and its (learned or pinned) kind.
+ */
+router.get("/", requireScope("read"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, senders: await listUserSenders(user.id) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+const OverrideSchema = z.object({
+  kind: z.enum(["bank", "promo"]).nullable(),
+});
+
+/**
+ * PUT /api/senders/:sender  { kind: "bank" | "promo" | null }
+ *
+ * "bank" always sends the sender's messages to the AI, "promo" always skips
+ * them, null drops the override and goes back to the learned behaviour.
+ */
+router.put("/:sender", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  const parsed = OverrideSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: "kind must be \"bank\", \"promo\" or null" });
+    return;
+  }
+  const sender = String(req.params.sender ?? "").trim();
+  if (!sender) {
+    res.status(400).json({ success: false, error: "Missing sender" });
+    return;
+  }
+
+  try {
+    await setSenderOverride(user.id, sender, parsed.data.kind);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+export default router;
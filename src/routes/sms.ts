@@ -1,598 +1,82 @@
-import { Router, type Request, type Response } from "express";
-import crypto from "crypto";
-import { parseAndCategorize, type ModelUsage } from "../services/ai.js";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { authUser, requireScope } from "../middleware/auth.js";
+import { rateLimit, rejectOverBudget, requireQuota } from "../middleware/limits.js";
+import { authenticateApiKey } from "../services/apiKeys.js";
+import { recordUsage, totalTokens } from "../services/quotas.js";
+import { currentBudget, recordAiSpend } from "../services/aiBudget.js";
+import { isGmailFullyAuthed, verifyPubSubJWT } from "../services/gmail.js";
 import {
-  getUserByApiKey,
-  getCategories,
-  insertTransactions,
-  insertSyncRun,
-  getUserMerchantMappings,
-  getGmailWatchState,
-  updateGmailWatchState,
-  findTransactionByReferenceId,
-  findCrossChannelDuplicate,
-  getBankAccountAliases,
-} from "../services/supabase.js";
-import {
-  findInBatchCrossChannelDuplicate,
-  findInBatchReferenceIdDuplicate,
-  buildAliasResolver,
-  isAutomatedIngestSource,
-} from "../services/deduplication.js";
-import { withUserIngestLock } from "../services/ingest-lock.js";
-import { convertToINR, isForeignCurrency } from "../services/currency.js";
-import {
-  cleanEmailBody,
-  fetchNewMessagesSinceHistoryId,
-  getLabelIdByName,
-  isGmailFullyAuthed,
-  verifyPubSubJWT,
-} from "../services/gmail.js";
-import { nullifyStringy } from "../services/sanitize.js";
-import type { ParsedTransactionResult, SMSMessage, User } from "../types/index.js";
-import type { TransactionInsert } from "../schemas/transaction.js";
+  enqueueIngestJob,
+  enqueueIdempotentIngestJob,
+  findDuplicateIngestJob,
+  getIngestJobForUser,
+  type IngestJob,
+  ingestIdempotencyKey,
+} from "../services/ingestQueue.js";
+import { normalizeMessages, planIngest } from "../services/ingest.js";
+import { sanitizeErrorForStorage } from "../services/sanitize.js";
 import { env } from "../config/env.js";
+import { createLogger, setLogUser } from "../services/logger.js";
 
 const router = Router();
+const ingestLog = createLogger("Shortcut Ingest");
+const previewLog = createLogger("Shortcut Preview");
+const pubsubLog = createLogger("Pub/Sub");
 
-function sanitizeErrorForStorage(error: unknown): string {
-  const raw = error instanceof Error ? error.message : String(error);
-  return raw
-    .replace(/AIza[0-9A-Za-z\-_]{20,}/g, "[REDACTED_GOOGLE_KEY]")
-    .replace(/gsk_[A-Za-z0-9]{20,}/g, "[REDACTED_GROQ_KEY]")
-    .replace(/Bearer\s+[A-Za-z0-9\-\._~\+\/]+=*/gi, "Bearer [REDACTED_TOKEN]");
-}
+// One request's batch; a first sync of more should be split by the client.
+const MAX_MESSAGES_PER_REQUEST = 2000;
 
-/**
- * Record a failed sync run for any post-auth failure. Always awaits so the row
- * lands before the handler returns, and never throws (catches its own errors).
- */
-async function recordFailedSyncRun(params: {
-  userId: string;
-  startTime: number;
-  messages: SMSMessage[];
-  source: string;
-  error: unknown;
-  logPrefix: string;
-}): Promise<string> {
-  const errorMessage = sanitizeErrorForStorage(params.error);
-  const smsIds = params.messages.map((m) => m.id);
-  const rowidRange =
-    smsIds.length > 0
-      ? { from: Math.min(...smsIds), to: Math.max(...smsIds) }
-      : undefined;
+const batchSize = (req: Request) => (req.body.messages as unknown[]).length;
 
-  try {
-    await insertSyncRun({
-      userId: params.userId,
-      startedAt: new Date(params.startTime),
-      completedAt: new Date(),
-      durationMs: Date.now() - params.startTime,
-      status: "failed",
-      totalMessages: params.messages.length,
-      inserted: 0,
-      skipped: 0,
-      errors: params.messages.length,
-      messages: params.messages,
-      details: [],
-      errorMessage,
-      source: params.source,
-      rowidRange,
+function requireBatch(req: Request, res: Response, next: NextFunction) {
+  const { messages } = req.body ?? {};
+  if (!messages || !Array.isArray(messages) || messages.length === 0) {
+    res.status(400).json({ success: false, error: "Missing or empty messages array" });
+    return;
+  }
+  if (messages.length > MAX_MESSAGES_PER_REQUEST) {
+    res.status(413).json({
+      success: false,
+      error: `At most ${MAX_MESSAGES_PER_REQUEST} messages per request (got ${messages.length}); split the batch`,
     });
-  } catch (err) {
-    console.error(`${params.logPrefix} Failed to record failed sync run:`, err);
+    return;
   }
-
-  return errorMessage;
+  next();
 }
 
-/**
- * Trigger push notification via Supabase Edge Function
- */
-async function triggerPushNotification(syncRun: {
-  id?: string;
-  user_id: string;
-  status: string;
-  inserted: number;
-  skipped: number;
-  errors: number;
-  total_messages: number;
-  transactions?: { amount: number; direction: string; merchant: string | null }[];
-}) {
-  const shouldNotifyFailure = syncRun.status === "failed";
-  const hasInsertedTransactions = (syncRun.inserted ?? 0) > 0;
-  if (!hasInsertedTransactions && !shouldNotifyFailure) return;
+const batchGuards = [requireScope("ingest"), rateLimit("ingest"), requireBatch];
 
-  try {
-    const response = await fetch(
-      `${env.supabaseUrl}/functions/v1/send-push-notification`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${env.supabaseServiceRoleKey}`,
-        },
-        body: JSON.stringify({
-          type: "INSERT",
-          table: "sync_runs",
-          record: syncRun,
-        }),
-      }
-    );
+// Both batch endpoints spend AI tokens: refuse once today's budget is gone.
+const aiQuota = requireQuota("ai_tokens");
 
-    if (!response.ok) {
-      const text = await response.text().catch(() => "");
-      console.error(`[Push] Edge Function returned ${response.status}: ${text}`);
-    } else {
-      const result = await response.json().catch(() => null);
-      console.log(`[Push] Notification triggered:`, result);
-    }
-  } catch (err) {
-    console.error("[Push] Failed to trigger notification:", err);
-  }
+const idempotencyKeyOf = (req: Request) => ingestIdempotencyKey(req.get("Idempotency-Key"), req.body.messages);
+
+function sendDuplicate(res: Response, job: IngestJob) {
+  ingestLog.info(`Repeated batch — returning job ${job.id}`);
+  res.json({
+    success: true,
+    job_id: job.id,
+    sync_run_id: job.sync_run_id,
+    status: job.status,
+    duplicate: true,
+  });
 }
 
 /**
- * Background processor shared by /shortcut-ingest and /pubsub-ingest.
- * Takes raw messages (without ids), assigns deterministic hash ids, runs AI
- * parsing + merchant overrides + currency conversion, bulk-inserts, records a
- * sync_run, and triggers a push notification. Never throws — failures are
- * recorded as failed sync_runs and surfaced via push.
+ * Answer a retry of an already-accepted batch with its original job before
+ * the quota guards run: the batch was charged when it was first accepted, so
+ * a client near its quota must still get its job id back, not a 429.
  */
-async function processMessagesInBackground(
-  user: User,
-  rawMessages: {
-    sender: string;
-    body: string;
-    timestamp?: string;
-    /** Email subject — Pass 1 uses this instead of body when present. */
-    subject?: string;
-  }[],
-  source: "ios_shortcut" | "email",
-  startTime: number,
-  logPrefix: string,
-): Promise<void> {
-  return withUserIngestLock(user.id, () =>
-    processMessagesInBackgroundUnlocked(user, rawMessages, source, startTime, logPrefix),
-  );
-}
-
-async function processMessagesInBackgroundUnlocked(
-  user: User,
-  rawMessages: {
-    sender: string;
-    body: string;
-    timestamp?: string;
-    subject?: string;
-  }[],
-  source: "ios_shortcut" | "email",
-  startTime: number,
-  logPrefix: string,
-): Promise<void> {
-  let normalizedMessages: (SMSMessage & { timestamp: string })[] = [];
+async function replayDuplicateBatch(req: Request, res: Response, next: NextFunction) {
   try {
-    console.log(
-      `${logPrefix} User ${user.id.substring(0, 8)}... - ${rawMessages.length} messages`
-    );
-
-    // Normalize up-front so any downstream error can still record a sync_run with the batch
-    normalizedMessages = rawMessages.map((msg) => {
-      const senderStr = msg.sender || "Unknown";
-      const bodyStr = msg.body || "";
-      const timestampStr = msg.timestamp || "";
-      const hashHex = crypto
-        .createHash("sha256")
-        .update(`${senderStr}|${bodyStr}|${timestampStr}`)
-        .digest("hex")
-        .substring(0, 13);
-      const numericId = parseInt(hashHex, 16);
-      return {
-        id: numericId,
-        sender: senderStr,
-        body: bodyStr,
-        timestamp: msg.timestamp || new Date().toISOString(),
-        ...(msg.subject ? { subject: msg.subject } : {}),
-      };
-    });
-
-    // Get categories and map for O(1) lookups
-    const categories = await getCategories(user.id);
-    const categoryMap = new Map(categories.map(c => [c.slug.toLowerCase(), c.id]));
-    const categoryDefMap = new Map(categories.map(c => [c.id, c]));
-
-    if (categories.length === 0) {
-      console.warn(`${logPrefix} No categories found, transactions will have null category`);
-    }
-
-    // Get user merchant overrides (Phase 2 - Name map & default categorization/expense flags)
-    const userOverrides = await getUserMerchantMappings(user.id);
-
-    const aliasResolver = buildAliasResolver(await getBankAccountAliases(user.id));
-
-    // Group overrides by raw_merchant
-    const overridesMap = new Map<string, typeof userOverrides>();
-    for (const override of userOverrides) {
-      const key = override.raw_merchant.toLowerCase();
-      if (!overridesMap.has(key)) overridesMap.set(key, []);
-      overridesMap.get(key)!.push(override);
-    }
-
-    // Helper to evaluate if a rule matches
-    const evaluateRule = (rule: typeof userOverrides[0], amount: number, currentMerchant: string, transactedAt: string) => {
-      // 1. Check merchant name match based on match_type
-      const ruleVal = rule.raw_merchant.toLowerCase();
-      const currentVal = currentMerchant.toLowerCase();
-
-      let isNameMatch = false;
-      if (rule.match_type === 'contains') {
-        isNameMatch = currentVal.includes(ruleVal);
-      } else {
-        isNameMatch = currentVal === ruleVal;
-      }
-
-      if (!isNameMatch) return false;
-
-      // 2. Check amount conditions if specified
-      if (rule.amount_operator && rule.amount_threshold !== null) {
-        switch (rule.amount_operator) {
-          case '<': if (!(amount < rule.amount_threshold)) return false; break;
-          case '<=': if (!(amount <= rule.amount_threshold)) return false; break;
-          case '>': if (!(amount > rule.amount_threshold)) return false; break;
-          case '>=': if (!(amount >= rule.amount_threshold)) return false; break;
-          case '=': if (!(amount === rule.amount_threshold)) return false; break;
-        }
-      }
-
-      // 3. Check date conditions if specified
-      if (rule.date_operator && rule.date_threshold !== null && transactedAt) {
-        const txDate = new Date(transactedAt);
-        const dayOfMonth = txDate.getDate(); // 1-31
-
-        switch (rule.date_operator) {
-          case '<': if (!(dayOfMonth < rule.date_threshold)) return false; break;
-          case '<=': if (!(dayOfMonth <= rule.date_threshold)) return false; break;
-          case '>': if (!(dayOfMonth > rule.date_threshold)) return false; break;
-          case '>=': if (!(dayOfMonth >= rule.date_threshold)) return false; break;
-          case '=': if (!(dayOfMonth === rule.date_threshold)) return false; break;
-        }
-      }
-
-      // Passed all specified conditions
-      return true;
-    };
-
-    // Parse and categorize with AI
-    let parsed;
-    let aiModelUsed = "unknown";
-    let aiUsage: ModelUsage = {};
-    try {
-      const aiResult = await parseAndCategorize(normalizedMessages, categories);
-      parsed = aiResult.parsed;
-      aiModelUsed = aiResult.model;
-      aiUsage = aiResult.usage;
-    } catch (error) {
-      console.error(`${logPrefix} AI parsing failed:`, error);
-      await recordFailedSyncRun({
-        userId: user.id,
-        startTime,
-        messages: normalizedMessages,
-        source,
-        error,
-        logPrefix,
-      });
-      void triggerPushNotification({
-        user_id: user.id,
-        status: "failed",
-        inserted: 0,
-        skipped: 0,
-        errors: normalizedMessages.length,
-        total_messages: normalizedMessages.length,
-      });
+    const job = await findDuplicateIngestJob(authUser(req).id, idempotencyKeyOf(req));
+    if (job) {
+      sendDuplicate(res, job);
       return;
     }
-
-    // Build a lookup map from sms_id → parsed result
-    const parsedMap = new Map(parsed.map((p) => [p.sms_id, p]));
-
-    // Process each parsed result
-    const transactionsToInsert: TransactionInsert[] = [];
-    let inserted = 0;
-    let skipped = 0;
-    let errors = 0;
-    const details: ParsedTransactionResult[] = [];
-
-    for (const msg of normalizedMessages) {
-      const txn = parsedMap.get(msg.id);
-
-      // Handle case where AI didn't return result for this message
-      if (!txn) {
-        skipped++;
-        details.push({
-          sms_id: msg.id,
-          status: "skipped",
-          ai_model: aiModelUsed,
-          reason: "No AI result for this message",
-        });
-        continue;
-      }
-
-      // Skip non-transactions
-      if (!txn.is_transaction) {
-        skipped++;
-        details.push({
-          sms_id: msg.id,
-          status: "skipped",
-          ai_model: aiModelUsed,
-          reason: txn.skip_reason || "Not a transaction",
-        });
-        continue;
-      }
-
-      // Validate required fields for transactions
-      if (!txn.amount || !txn.direction) {
-        skipped++;
-        details.push({
-          sms_id: msg.id,
-          status: "skipped",
-          ai_model: aiModelUsed,
-          reason: "Missing amount or direction",
-        });
-        continue;
-      }
-
-      // Handle currency conversion
-      const currency = txn.currency || "INR";
-      let amountINR = txn.amount;
-      let originalAmount: number | null = null;
-      let originalCurrency: string | null = null;
-
-      if (isForeignCurrency(currency)) {
-        const conversion = await convertToINR(txn.amount, currency);
-        amountINR = conversion.amountINR;
-        originalAmount = txn.amount;
-        originalCurrency = currency.toUpperCase();
-        console.log(
-          `${logPrefix} Converted ${originalCurrency} ${originalAmount} → ₹${amountINR} (rate: ${conversion.rate})`
-        );
-      }
-
-      // Apply User Merchant Overrides
-      let finalMerchant = txn.merchant || null;
-      let finalCategoryId = txn.category_slug ? categoryMap.get(txn.category_slug.toLowerCase()) || null : null;
-
-      let overriddenIsExpense: boolean | null = null;
-      let overriddenIsIncome: boolean | null = null;
-      let mappingApplied = false;
-
-      if (finalMerchant) {
-        let matchedRule: typeof userOverrides[0] | null = null;
-
-        for (const rule of userOverrides) {
-          if (evaluateRule(rule, amountINR, finalMerchant, msg.timestamp)) {
-            matchedRule = rule;
-            break; // Stop at first matched rule
-          }
-        }
-
-        if (matchedRule) {
-          console.log(`${logPrefix} [Override] Re-mapped merchant "${finalMerchant}" → "${matchedRule.mapped_merchant}"`);
-          finalMerchant = matchedRule.mapped_merchant;
-          mappingApplied = true;
-
-          if (matchedRule.default_category_id) {
-            finalCategoryId = matchedRule.default_category_id;
-          }
-          if (matchedRule.default_is_expense !== undefined && matchedRule.default_is_expense !== null) {
-            overriddenIsExpense = matchedRule.default_is_expense;
-          }
-          if (matchedRule.default_is_income !== undefined && matchedRule.default_is_income !== null) {
-            overriddenIsIncome = matchedRule.default_is_income;
-          }
-        }
-      }
-
-      if (!mappingApplied && finalMerchant) {
-        finalMerchant = finalMerchant.toLowerCase().trim();
-      }
-
-      // Deterministic is_expense / is_income rules
-      let is_expense = txn.direction === "debit";
-      let is_income = txn.direction === "credit";
-
-      const finalCategoryDef = finalCategoryId ? categoryDefMap.get(finalCategoryId) : null;
-      const finalCategorySlug = finalCategoryDef?.slug || txn.category_slug;
-
-      if (finalCategorySlug) {
-        if (["investment", "self-transfer"].includes(finalCategorySlug)) {
-          is_expense = false;
-        }
-        if (["self-transfer"].includes(finalCategorySlug)) {
-          is_income = false;
-        }
-      }
-
-      // Apply strict User Overrides for expense/income if they exist
-      if (overriddenIsExpense !== null) is_expense = overriddenIsExpense;
-      if (overriddenIsIncome !== null) is_income = overriddenIsIncome;
-
-      // Prepare transaction for insert
-      const cleanedMerchant = nullifyStringy(finalMerchant);
-      const transactionData: TransactionInsert = {
-        user_id: user.id,
-        amount: amountINR,
-        direction: txn.direction,
-        transacted_at: msg.timestamp,
-        merchant: cleanedMerchant,
-        account_last4: nullifyStringy(txn.account_last4),
-        bank_name: nullifyStringy(txn.bank_name),
-        reference_id: nullifyStringy(txn.reference_id),
-        raw_sms: msg.body,
-        sms_id: msg.id,
-        sms_sender: msg.sender,
-        source,
-        category_id: finalCategoryId,
-        original_amount: originalAmount,
-        original_currency: originalCurrency,
-        is_expense,
-        is_income,
-        needs_review: user.enable_review_mode ?? true,
-      };
-
-      const parsedSummary = {
-        amount: txn.amount,
-        direction: txn.direction,
-        merchant: nullifyStringy(txn.merchant),
-        category: nullifyStringy(txn.category_slug),
-      };
-
-      // Layer 1: strong key (reference_id)
-      if (transactionData.reference_id) {
-        if (findInBatchReferenceIdDuplicate(transactionData.reference_id, transactionData.direction, transactionsToInsert)) {
-          skipped++;
-          details.push({
-            sms_id: msg.id,
-            status: "skipped",
-            ai_model: aiModelUsed,
-            reason: "Duplicate reference_id (same batch)",
-            transaction: parsedSummary,
-          });
-          continue;
-        }
-
-        const existingRef = await findTransactionByReferenceId(
-          user.id,
-          transactionData.reference_id,
-          transactionData.direction,
-        );
-        if (existingRef) {
-          skipped++;
-          details.push({
-            sms_id: msg.id,
-            status: "skipped",
-            ai_model: aiModelUsed,
-            reason: "Duplicate reference_id",
-            transaction: parsedSummary,
-          });
-          continue;
-        }
-      }
-
-      // Layer 2a: cross-channel soft fingerprint (phone ↔ email, 30 min).
-      // No last4/bank gate — the fingerprint also merges wallet rows (no last4) on
-      // matching merchant + bank, so gate only on the source being automated ingest.
-      if (isAutomatedIngestSource(transactionData.source)) {
-        if (findInBatchCrossChannelDuplicate(transactionData, transactionsToInsert, aliasResolver)) {
-          skipped++;
-          details.push({
-            sms_id: msg.id,
-            status: "skipped",
-            ai_model: aiModelUsed,
-            reason: "Cross-channel duplicate (same batch)",
-            transaction: parsedSummary,
-          });
-          continue;
-        }
-
-        const crossChannel = await findCrossChannelDuplicate(user.id, transactionData, aliasResolver);
-        if (crossChannel) {
-          skipped++;
-          details.push({
-            sms_id: msg.id,
-            status: "skipped",
-            ai_model: aiModelUsed,
-            reason: "Cross-channel duplicate (phone/email)",
-            transaction: parsedSummary,
-          });
-          continue;
-        }
-      }
-
-      transactionsToInsert.push(transactionData);
-
-      details.push({
-        sms_id: msg.id,
-        status: "inserted",
-        ai_model: aiModelUsed,
-        transaction: parsedSummary,
-      });
-    }
-
-    // Perform bulk insert
-    if (transactionsToInsert.length > 0) {
-      const bulkResult = await insertTransactions(transactionsToInsert);
-      inserted = bulkResult.inserted;
-      errors = bulkResult.errors;
-    }
-
-    const completedAt = new Date();
-    const duration = Date.now() - startTime;
-    console.log(
-      `${logPrefix} Completed in ${duration}ms - inserted: ${inserted}, skipped: ${skipped}, errors: ${errors}`
-    );
-
-    // Determine run status
-    const runStatus = errors > 0 && inserted === 0
-      ? "failed"
-      : errors > 0
-        ? "partial"
-        : "success";
-
-    // Calculate ROWID range
-    const smsIds = normalizedMessages.map((m) => m.id);
-    const rowidRange = smsIds.length > 0
-      ? { from: Math.min(...smsIds), to: Math.max(...smsIds) }
-      : undefined;
-
-    // Record sync run in database
-    await insertSyncRun({
-      userId: user.id,
-      startedAt: new Date(startTime),
-      completedAt,
-      durationMs: duration,
-      status: runStatus,
-      totalMessages: normalizedMessages.length,
-      inserted,
-      skipped,
-      errors,
-      messages: normalizedMessages,
-      details,
-      source,
-      rowidRange,
-      usage: aiUsage,
-    }).catch((err) => {
-      console.error(`${logPrefix} Failed to record sync run:`, err);
-    });
-
-    // Trigger push notification directly (bypass broken DB webhook)
-    triggerPushNotification({
-      user_id: user.id,
-      status: runStatus,
-      inserted,
-      skipped,
-      errors,
-      total_messages: normalizedMessages.length,
-      transactions: details
-        .filter(d => d.status === "inserted" && d.transaction)
-        .map(d => ({ amount: d.transaction!.amount, direction: d.transaction!.direction, merchant: d.transaction!.merchant })),
-    });
-  } catch (error) {
-    console.error(`${logPrefix} Background processing error:`, error);
-    await recordFailedSyncRun({
-      userId: user.id,
-      startTime,
-      messages: normalizedMessages,
-      source,
-      error,
-      logPrefix,
-    });
-    void triggerPushNotification({
-      user_id: user.id,
-      status: "failed",
-      inserted: 0,
-      skipped: 0,
-      errors: normalizedMessages.length,
-      total_messages: normalizedMessages.length,
-    });
+    next();
+  } catch (err) {
+    next(err);
   }
 }
 
@@ -601,70 +85,85 @@ async function processMessagesInBackgroundUnlocked(
  *
  * Simplified endpoint for iOS Shortcuts automation.
  * Expects API key in x-api-key header and simplified message format.
+ * Queues the batch and replies with its job id (poll GET /jobs/:jobId).
+ * Honors an Idempotency-Key header; without one, an identical batch within
+ * 24h is treated as a retry of the first.
  */
-router.post("/shortcut-ingest", async (req: Request, res: Response) => {
-  const startTime = Date.now();
-
-  // DEBUG LOGGING
-  console.log("\n==================================");
-  console.log("[Shortcut Ingest] INCOMING PAYLOAD");
-  console.log("[Shortcut Ingest] Headers:", JSON.stringify(req.headers, null, 2));
-  console.log("[Shortcut Ingest] Body:", JSON.stringify(req.body, null, 2));
-  console.log("==================================\n");
+router.post("/shortcut-ingest", ...batchGuards, replayDuplicateBatch, aiQuota, requireQuota("messages", batchSize), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  const { messages } = req.body;
+  ingestLog.info("Batch received", { messages: messages.length, idempotencyKey: Boolean(req.get("Idempotency-Key")) });
 
-  // Extract API key from header
-  const apiKey = req.headers["x-api-key"] as string;
-  if (!apiKey) {
-    res.status(401).json({
-      success: false,
-      error: "Missing x-api-key header",
+  // Persist before acknowledging: once the row exists the batch survives a
+  // deploy or crash, and the worker picks it up. A retried request (same
+  // Idempotency-Key, or identical batch) gets the original job back instead.
+  let queued;
+  try {
+    queued = await enqueueIdempotentIngestJob({
+      userId: user.id,
+      source: "ios_shortcut",
+      payload: { kind: "messages", messages },
+      idempotencyKey: idempotencyKeyOf(req),
     });
-    return;
-  }
-
-  // Validate API key and get user
-  const user = await getUserByApiKey(apiKey);
-  if (!user) {
-    res.status(401).json({
+  } catch (err) {
+    ingestLog.error("Failed to queue batch", { err });
+    res.status(500).json({
       success: false,
-      error: "Invalid API key",
+      error: "Failed to queue batch; retry",
     });
     return;
   }
 
-  // Validate request body structure
-  const { messages } = req.body;
-  if (!messages || !Array.isArray(messages) || messages.length === 0) {
-    res.status(400).json({
-      success: false,
-      error: "Missing or empty messages array",
-    });
+  const { job, duplicate } = queued;
+  if (duplicate) {
+    // A concurrent retry won the race past replayDuplicateBatch.
+    sendDuplicate(res, job);
     return;
   }
 
-  // Return success immediately to prevent Shortcut timeout
-  res.json({ success: true });
-
-  // Continue processing in background
-  void processMessagesInBackground(
-    user,
-    messages,
-    "ios_shortcut",
-    startTime,
-    "[Shortcut Ingest]",
-  );
+  void recordUsage(user, { messages: messages.length });
+  res.json({ success: true, job_id: job.id });
 });
 
+/**
+ * POST /api/sms/shortcut-ingest/preview
+ *
+ * Dry run of /shortcut-ingest for tuning merchant mappings and prompts. Runs
+ * the full plan synchronously — templates, AI, overrides, currency, both
+ * dedup layers — and returns what WOULD be inserted. Writes no transactions
+ * and sends no push. AI tokens are still spent, under the same AI budget
+ * rules as a real batch — refused outright while the budget is exceeded —
+ * and booked as a usage-only "preview" sync_run.
+ */
+router.post("/shortcut-ingest/preview", ...batchGuards, aiQuota, async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  const { messages } = req.body;
 
-// BigInt compare — Gmail historyIds can exceed Number.MAX_SAFE_INTEGER.
-function maxHistoryId(a: string, b: string | null): string {
-  if (!b) return a;
   try {
-    return BigInt(a) >= BigInt(b) ? a : b;
-  } catch {
-    return a;
+    const normalized = normalizeMessages(messages);
+    const budget = await currentBudget(user);
+    if (rejectOverBudget(res, budget)) return;
+    const startedAt = new Date();
+    const plan = await planIngest(user, normalized, "ios_shortcut", "[Shortcut Preview]", { budget: budget?.mode });
+    void recordUsage(user, { ai_tokens: totalTokens(plan.usage) });
+    void recordAiSpend(user.id, "preview", plan.usage, startedAt);
+    res.json({
+      success: true,
+      dry_run: true,
+      budget_mode: budget?.mode ?? "normal",
+      model: plan.model,
+      usage: plan.usage,
+      transactions: plan.transactions,
+      balances: plan.balances,
+      bills: plan.bills,
+      details: plan.details,
+    });
+  } catch (err) {
+    previewLog.error("Preview failed", { err });
+    res.status(502).json({ success: false, error: sanitizeErrorForStorage(err) });
   }
-}
+});
 
 /**
  * POST /api/sms/pubsub-ingest
@@ -682,126 +181,106 @@ function maxHistoryId(a: string, b: string | null): string {
  *
  * Flow:
  *   1. Verify JWT (if GCP_PUBSUB_PUSH_AUDIENCE is set).
- *   2. ACK 200 immediately so Pub/Sub doesn't retry on slow downstream work.
- *   3. In background: decode the payload, look up the target user, call
- *      gmail.users.history.list(startHistoryId = stored cursor), fetch each
- *      newly-labeled message, normalize to our message shape, and dispatch
- *      to processMessagesInBackground. Advance the cursor on success.
+ *   2. Decode the payload, look up the target user, and persist an ingest
+ *      job carrying the notification's historyId.
+ *   3. ACK 200 once the job row exists. If it can't be written, reply 500 so
+ *      Pub/Sub redelivers instead of the notification being lost.
+ *   4. The worker reads the stored cursor, fetches each newly-labeled
+ *      message, processes it, and advances the cursor (processGmailNotification).
  */
 router.post("/pubsub-ingest", async (req: Request, res: Response) => {
-  const startTime = Date.now();
-
   const authOk = await verifyPubSubJWT(req.headers.authorization);
   if (!authOk) {
     res.status(401).json({ success: false, error: "Invalid Pub/Sub auth" });
     return;
   }
 
-  // ACK first so Pub/Sub never times out (10s default) or retries on slow processing.
-  res.status(200).json({ success: true });
-
-  void (async () => {
-    try {
-      const message = req.body?.message;
-      if (!message?.data) {
-        console.error("[Pub/Sub] Missing message.data in payload");
-        return;
-      }
-
-      let decoded: { emailAddress?: string; historyId?: string | number };
-      try {
-        decoded = JSON.parse(Buffer.from(message.data, "base64").toString("utf-8"));
-      } catch (err) {
-        console.error("[Pub/Sub] Failed to base64-decode message.data:", err);
-        return;
-      }
-
-      const notifHistoryId = decoded.historyId ? String(decoded.historyId) : undefined;
-      console.log(
-        `[Pub/Sub] Notification: emailAddress=${decoded.emailAddress} historyId=${notifHistoryId}`
-      );
+  // Anything that can never succeed is ACKed (logged) — a non-2xx makes
+  // Pub/Sub redeliver the same doomed payload until it expires.
+  const message = req.body?.message;
+  if (!message?.data) {
+    pubsubLog.error("Missing message.data in payload");
+    res.status(200).json({ success: true });
+    return;
+  }
 
-      if (!isGmailFullyAuthed()) {
-        console.error("[Pub/Sub] Gmail not fully configured — set GOOGLE_REFRESH_TOKEN");
-        return;
-      }
-      if (!env.gmailTargetUserApiKey) {
-        console.error("[Pub/Sub] GMAIL_TARGET_USER_API_KEY not set");
-        return;
-      }
-      if (!notifHistoryId) {
-        console.error("[Pub/Sub] Notification missing historyId");
-        return;
-      }
+  let decoded: { emailAddress?: string; historyId?: string | number };
+  try {
+    decoded = JSON.parse(Buffer.from(message.data, "base64").toString("utf-8"));
+  } catch (err) {
+    pubsubLog.error("Failed to base64-decode message.data", { err });
+    res.status(200).json({ success: true });
+    return;
+  }
 
-      const user = await getUserByApiKey(env.gmailTargetUserApiKey);
-      if (!user) {
-        console.error("[Pub/Sub] No user found for GMAIL_TARGET_USER_API_KEY");
-        return;
-      }
+  const notifHistoryId = decoded.historyId ? String(decoded.historyId) : undefined;
+  pubsubLog.info("Notification received", { emailAddress: decoded.emailAddress, historyId: notifHistoryId });
 
-      // The lock must span read-cursor → fetch → process → advance so concurrent
-      // notifications don't both read the same stale cursor and double-process.
-      // Call the *Unlocked* processor inside — withUserIngestLock is non-reentrant
-      // and nesting it for the same user deadlocks.
-      await withUserIngestLock(user.id, async () => {
-        const state = await getGmailWatchState(user.id);
-        if (!state?.lastHistoryId) {
-          // No cursor yet — most likely watch() hasn't been called. Seed from
-          // the notification and wait for the next one. We lose this batch but
-          // the next notification will advance correctly.
-          console.warn(
-            `[Pub/Sub] No last_history_id baseline — seeding to ${notifHistoryId} and skipping this batch`
-          );
-          await updateGmailWatchState(user.id, { lastHistoryId: notifHistoryId });
-          return;
-        }
+  if (!isGmailFullyAuthed()) {
+    pubsubLog.error("Gmail not fully configured — set GOOGLE_REFRESH_TOKEN");
+    res.status(200).json({ success: true });
+    return;
+  }
+  if (!env.gmailTargetUserApiKey) {
+    pubsubLog.error("GMAIL_TARGET_USER_API_KEY not set");
+    res.status(200).json({ success: true });
+    return;
+  }
+  if (!notifHistoryId) {
+    pubsubLog.error("Notification missing historyId");
+    res.status(200).json({ success: true });
+    return;
+  }
 
-        const labelId = await getLabelIdByName(env.gmailLabelName);
+  const user = (await authenticateApiKey(env.gmailTargetUserApiKey))?.user;
+  if (!user) {
+    pubsubLog.error("No user found for GMAIL_TARGET_USER_API_KEY");
+    res.status(200).json({ success: true });
+    return;
+  }
+  setLogUser(user.id);
 
-        let result;
-        try {
-          result = await fetchNewMessagesSinceHistoryId(state.lastHistoryId, labelId);
-        } catch (err) {
-          // Reset the cursor only on 404 (cursor too old). On transient errors
-          // it must stay put — Pub/Sub was already ACKed so there's no
-          // redelivery; the next notification re-fetches the same range.
-          const status = (err as { response?: { status?: number }; code?: number | string }).response?.status
-            ?? (err as { code?: number | string }).code;
-          const msg = (err as Error).message || String(err);
-          if (status === 404 || status === "404") {
-            console.error(`[Pub/Sub] history cursor too old (${msg}) — resetting cursor to ${notifHistoryId}`);
-            await updateGmailWatchState(user.id, { lastHistoryId: notifHistoryId });
-          } else {
-            console.error(`[Pub/Sub] history.list failed transiently (${msg}) — keeping cursor for retry on next notification`);
-          }
-          return;
-        }
+  try {
+    const job = await enqueueIngestJob({
+      userId: user.id,
+      source: "email",
+      payload: { kind: "gmail_history", historyId: notifHistoryId },
+    });
+    res.status(200).json({ success: true, job_id: job.id });
+  } catch (err) {
+    pubsubLog.error("Failed to queue notification — asking Pub/Sub to redeliver", { err });
+    res.status(500).json({ success: false, error: "Failed to queue notification" });
+  }
+});
 
-        const fetched = result.messages;
-        console.log(`[Pub/Sub] Fetched ${fetched.length} new labeled message(s)`);
+/**
+ * GET /api/sms/jobs/:jobId
+ *
+ * Status of a queued ingest batch, so the Shortcut can poll the job id it got
+ * back from /shortcut-ingest. sync_run_id is set once the batch completes.
+ */
+router.get("/jobs/:jobId", requireScope("ingest"), async (req: Request, res: Response) => {
+  const user = authUser(req);
 
-        if (fetched.length > 0) {
-          // Clean + truncate once here. The result is both the AI's Pass 2 input
-          // AND what we store as raw_sms — single source of truth, smaller DB rows.
-          const raw = fetched.map((m) => ({
-            sender: m.sender,
-            subject: m.subject,
-            body: cleanEmailBody(m.body),
-            timestamp: m.timestamp,
-          }));
-          await processMessagesInBackgroundUnlocked(user, raw, "email", startTime, "[Pub/Sub Ingest]");
-        }
+  const job = await getIngestJobForUser(String(req.params.jobId ?? ""), user.id);
+  if (!job) {
+    res.status(404).json({ success: false, error: "Job not found" });
+    return;
+  }
 
-        // Advance to the newest historyId the fetch covered, not the notification's
-        // (which can be older), or newer messages get re-fetched on every notification.
-        const advanceTo = maxHistoryId(notifHistoryId, result.latestHistoryId);
-        await updateGmailWatchState(user.id, { lastHistoryId: advanceTo });
-      });
-    } catch (err) {
-      console.error("[Pub/Sub] Background processing error:", err);
-    }
-  })();
+  res.json({
+    success: true,
+    job: {
+      id: job.id,
+      status: job.status,
+      source: job.source,
+      attempts: job.attempts,
+      last_error: job.last_error,
+      sync_run_id: job.sync_run_id,
+      created_at: job.created_at,
+      completed_at: job.completed_at,
+    },
+  });
 });
 
 /**
@@ -1,36 +1,35 @@
 import { Router, type Request, type Response } from "express";
 import { z } from "zod";
+import { authUser, requireScope } from "../middleware/auth.js";
 import {
-  getUserByApiKey,
   getCategories,
   getSyncRunForUser,
   deleteTransactionBySmsId,
   insertTransaction,
   updateSyncRunDetail,
   addSyncRunUsage,
+  listReplayableSyncRuns,
+  getUserMerchantMappings,
+  setSyncRunDetailPreview,
 } from "../services/supabase.js";
+import { recordCorrection } from "../services/merchantCorrections.js";
+import { buildRuleMatcher } from "../services/merchantRules.js";
+import { userTimeZone } from "../services/timezone.js";
+import { enqueueIngestJob, findReplayJob } from "../services/ingestQueue.js";
+import type { IngestSource } from "../services/ingest.js";
 import { extractTransactionFields } from "../services/ai.js";
 import { nullifyStringy } from "../services/sanitize.js";
+import { recordUsage, totalTokens } from "../services/quotas.js";
+import { currentBudget } from "../services/aiBudget.js";
+import { rejectOverBudget } from "../middleware/limits.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("sync-runs");
 
 const router = Router();
 
 // ── helpers ─────────────────────────────────────────────────────────────────
 
-type AuthResult = {
-  user?: Awaited<ReturnType<typeof getUserByApiKey>>;
-  error?: string;
-  status?: number;
-};
-
-async function authenticate(req: Request): Promise<AuthResult> {
-  const raw = req.headers["x-api-key"];
-  const apiKey = Array.isArray(raw) ? raw[0] : raw;
-  if (!apiKey) return { error: "Missing x-api-key header", status: 401 };
-  const user = await getUserByApiKey(apiKey);
-  if (!user) return { error: "Invalid API key", status: 401 };
-  return { user };
-}
-
 function parseSmsId(raw: string): number | null {
   // sms_id is a JS-number-shaped hash (sub-13 hex digits). URL param is a string.
   if (!/^\d+$/.test(raw)) return null;
@@ -63,13 +62,9 @@ const ManualFieldsSchema = z.object({
 
 router.post(
   "/:runId/messages/:smsId/mark-transaction",
+  requireScope("admin"),
   async (req: Request, res: Response) => {
-    const auth = await authenticate(req);
-    if (auth.error) {
-      res.status(auth.status as number).json({ success: false, error: auth.error });
-      return;
-    }
-    const user = auth.user!;
+    const user = authUser(req);
 
     const smsIdParam = String(req.params.smsId ?? "");
     const runIdParam = String(req.params.runId ?? "");
@@ -95,27 +90,62 @@ router.post(
       return;
     }
 
-    // Step 1: no body -> AI extraction preview.
+    // Step 1: no body -> AI extraction preview. Over the AI budget the
+    // dialog can still commit fields typed in by hand (step 2).
     const hasBody = req.body && Object.keys(req.body).length > 0;
     if (!hasBody) {
+      const budget = await currentBudget(user);
+      if (rejectOverBudget(res, budget)) return;
       try {
         const categories = await getCategories(user.id);
         const { fields, model, usage } = await extractTransactionFields(
           { body: sms.body, sender: sms.sender },
-          categories
+          categories,
+          { economy: budget?.mode === "economy" },
         );
         addSyncRunUsage({ runId: runIdParam, userId: user.id, usage }).catch((err) =>
-          console.error("[sync-runs] Failed to log reclassify usage:", err)
+          log.error("Failed to log reclassify usage", { err })
         );
+        void recordUsage(user, { ai_tokens: totalTokens(usage) });
+
+        // Prefill with the user's merchant rules, same as ingest would.
+        const ruleHit = fields.amount
+          ? buildRuleMatcher(await getUserMerchantMappings(user.id), "[sync-runs]", userTimeZone(user))({
+              merchant: fields.merchant,
+              amount: fields.amount,
+              direction: fields.direction,
+              sender: sms.sender,
+              bank_name: fields.bank_name,
+              account_last4: fields.account_last4,
+              transacted_at: sms.timestamp,
+            })
+          : null;
+        const preview = { ...fields };
+        if (ruleHit) {
+          preview.merchant = ruleHit.merchant;
+          const ruleCategory = categories.find((c) => c.id === ruleHit.category_id);
+          if (ruleCategory) preview.category_slug = ruleCategory.slug;
+        } else {
+          // Kept so the commit step can learn from the user's correction.
+          // Rule-prefilled previews are skipped: a rule already covers them.
+          setSyncRunDetailPreview({
+            runId: run.id,
+            userId: user.id,
+            smsId,
+            preview: { merchant: fields.merchant, category: fields.category_slug },
+          }).catch((err) => log.error("Failed to store preview", { err }));
+        }
+
         res.json({
           success: true,
           committed: false,
-          preview: fields,
+          preview,
           ai_model: model,
+          rule_id: ruleHit?.rule.id ?? null,
         });
         return;
       } catch (err) {
-        console.error("[sync-runs] AI extract failed:", err);
+        log.error("AI extract failed", { err });
         // Don't fail hard — let the UI show an empty form.
         res.json({
           success: true,
@@ -185,6 +215,23 @@ router.post(
       return;
     }
 
+    // Learn from the correction before the detail (and its preview) is replaced.
+    const aiPreview = (run.details ?? []).find((d) => Number(d.sms_id) === smsId)?.preview;
+    let suggestion = null;
+    if (aiPreview) {
+      try {
+        suggestion = await recordCorrection({
+          user,
+          aiMerchant: aiPreview.merchant,
+          aiCategoryId: aiPreview.category ? categoryMap.get(aiPreview.category.toLowerCase()) ?? null : null,
+          finalMerchant: cleanedMerchant,
+          finalCategoryId: categoryId,
+        });
+      } catch (err) {
+        log.error("Failed to record merchant correction", { err });
+      }
+    }
+
     // Patch sync_run.details so the badge / counts reflect the new state.
     const categorySlugForDetail =
       (categoryId ? categoryDefMap.get(categoryId)?.slug : fields.category_slug) ?? null;
@@ -205,20 +252,16 @@ router.post(
       },
     });
 
-    res.json({ success: true, committed: true });
+    res.json({ success: true, committed: true, merchant_rule_suggestion: suggestion });
   }
 );
 
 // ── POST /api/sync-runs/:runId/messages/:smsId/mark-not-transaction ─────────
 router.post(
   "/:runId/messages/:smsId/mark-not-transaction",
+  requireScope("admin"),
   async (req: Request, res: Response) => {
-    const auth = await authenticate(req);
-    if (auth.error) {
-      res.status(auth.status as number).json({ success: false, error: auth.error });
-      return;
-    }
-    const user = auth.user!;
+    const user = authUser(req);
 
     const smsIdParam = String(req.params.smsId ?? "");
     const runIdParam = String(req.params.runId ?? "");
@@ -265,4 +308,119 @@ router.post(
   }
 );
 
+// ── Replay ───────────────────────────────────────────────────────────────────
+//
+// Push a failed / partial run's stored messages back through the normal
+// ingest job (parse → overrides → dedup → insert). The new sync_run carries
+// replay_of = original id, and anything the original already inserted is
+// skipped by sms_id before any AI call.
+
+const REPLAYABLE_SOURCES = new Set<string>(["ios_shortcut", "email"]);
+
+async function enqueueReplay(
+  userId: string,
+  run: NonNullable<Awaited<ReturnType<typeof getSyncRunForUser>>>,
+): Promise<string> {
+  const messages = (run.messages ?? []).map((m) => ({
+    id: Number(m.id),
+    sender: m.sender,
+    body: m.body,
+    timestamp: m.timestamp ?? undefined,
+    ...(m.subject ? { subject: m.subject } : {}),
+  }));
+  const job = await enqueueIngestJob({
+    userId,
+    source: run.source as IngestSource,
+    payload: { kind: "messages", messages, replayOf: run.id },
+  });
+  return job.id;
+}
+
+// ── POST /api/sync-runs/replay ──────────────────────────────────────────────
+// Bulk: every failed / partial ingest run that started in [from, to].
+const BulkReplaySchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  force: z.boolean().optional(),
+});
+
+router.post("/replay", requireScope("ingest"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  const parsed = BulkReplaySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ success: false, error: "Invalid replay range", details: parsed.error.errors });
+    return;
+  }
+  const { from, to, force } = parsed.data;
+
+  try {
+    const candidates = await listReplayableSyncRuns({ userId: user.id, from, to });
+    const queued: { run_id: string; job_id: string }[] = [];
+    const skipped: { run_id: string; reason: string }[] = [];
+
+    for (const candidate of candidates) {
+      if (!force && (await findReplayJob(user.id, candidate.id))) {
+        skipped.push({ run_id: candidate.id, reason: "Already replayed" });
+        continue;
+      }
+      const run = await getSyncRunForUser(candidate.id, user.id);
+      if (!run || (run.messages ?? []).length === 0) {
+        skipped.push({ run_id: candidate.id, reason: "No stored messages" });
+        continue;
+      }
+      queued.push({ run_id: run.id, job_id: await enqueueReplay(user.id, run) });
+    }
+
+    res.status(202).json({ success: true, queued, skipped });
+  } catch (err) {
+    log.error("Bulk replay failed", { err });
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+// ── POST /api/sync-runs/:runId/replay ───────────────────────────────────────
+router.post("/:runId/replay", requireScope("ingest"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  const run = await getSyncRunForUser(String(req.params.runId ?? ""), user.id);
+  if (!run) {
+    res.status(404).json({ success: false, error: "Sync run not found" });
+    return;
+  }
+  if (run.status !== "failed" && run.status !== "partial") {
+    res.status(409).json({ success: false, error: `Only failed or partial runs can be replayed (run is ${run.status})` });
+    return;
+  }
+  if (!run.source || !REPLAYABLE_SOURCES.has(run.source)) {
+    res.status(400).json({ success: false, error: `Runs from source "${run.source}" can't be replayed` });
+    return;
+  }
+  if ((run.messages ?? []).length === 0) {
+    res.status(400).json({ success: false, error: "Sync run has no stored messages" });
+    return;
+  }
+
+  try {
+    if (req.body?.force !== true) {
+      const existing = await findReplayJob(user.id, run.id);
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: "Run already replayed; pass force: true to replay again",
+          job_id: existing.id,
+          sync_run_id: existing.sync_run_id,
+        });
+        return;
+      }
+    }
+
+    const jobId = await enqueueReplay(user.id, run);
+    res.status(202).json({ success: true, job_id: jobId });
+  } catch (err) {
+    log.error("Replay failed", { err });
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
 export default router;
@@ -0,0 +1,70 @@
+import { Router, type Request, type Response } from "express";
+import { authUser, requireScope } from "../middleware/auth.js";
+import { SplitsInputSchema, clearSplits, getSplits, replaceSplits } from "../services/splits.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("Splits");
+
+const router = Router();
+
+// ── Splits ──────────────────────────────────────────────────────────────────
+//
+// A debit allocated across several categories (see services/splits.ts).
+
+router.get("/:id/splits", requireScope("read"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, splits: await getSplits(user.id, String(req.params.id)) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/**
+ * PUT /api/transactions/:id/splits  { splits: [{ category_id, amount, note? }] }
+ *
+ * Replaces the transaction's splits. Amounts must sum to the transaction
+ * amount to the paisa; at least two splits, debits only.
+ */
+router.put("/:id/splits", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  const parsed = SplitsInputSchema.safeParse(req.body?.splits);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid splits",
+      details: parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+    });
+    return;
+  }
+
+  try {
+    const result = await replaceSplits(user.id, String(req.params.id), parsed.data);
+    if (!result) {
+      res.status(404).json({ success: false, error: "Transaction not found" });
+      return;
+    }
+    if ("error" in result) {
+      res.status(400).json({ success: false, error: result.error });
+      return;
+    }
+    res.json({ success: true, splits: result.splits });
+  } catch (err) {
+    log.error("Update failed", { err });
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/** DELETE /api/transactions/:id/splits — back to a single category. */
+router.delete("/:id/splits", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    await clearSplits(user.id, String(req.params.id));
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,86 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authCaller, authUser, requireScope } from "../middleware/auth.js";
+import { rateSubject } from "../middleware/limits.js";
+import {
+  QUOTA_KINDS,
+  dailyQuotas,
+  getDailyUsage,
+  rateLimitStatus,
+  secondsUntilLocalMidnight,
+} from "../services/quotas.js";
+import { getBudgetStatus, setBudgetLimits } from "../services/aiBudget.js";
+import { userTimeZone } from "../services/timezone.js";
+
+const router = Router();
+
+const rupees = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * GET /api/usage
+ *
+ * Today's consumption against the daily quotas (user's local day), the
+ * calling key's requests in the current rate-limit minute, and AI spend
+ * against the daily and monthly rupee budgets.
+ */
+router.get("/", requireScope("read"), async (req: Request, res: Response) => {
+  const caller = authCaller(req);
+  try {
+    const [usage, budget] = await Promise.all([getDailyUsage(caller.user), getBudgetStatus(caller.user)]);
+    const limits = dailyQuotas();
+    res.json({
+      success: true,
+      day: usage.day,
+      resets_in_sec: secondsUntilLocalMidnight(userTimeZone(caller.user)),
+      quotas: QUOTA_KINDS.map((kind) => ({
+        kind,
+        used: usage[kind],
+        limit: limits[kind],
+        remaining: Math.max(0, limits[kind] - usage[kind]),
+      })),
+      rate_limits: rateLimitStatus(rateSubject(caller)),
+      ai_budget: {
+        mode: budget.mode,
+        daily: { spent_rupees: rupees(budget.day.spent), limit_rupees: budget.day.limit },
+        monthly: { spent_rupees: rupees(budget.month.spent), limit_rupees: budget.month.limit },
+        resumes_at: budget.resumeAt?.toISOString() ?? null,
+      },
+    });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+const BudgetSchema = z
+  .object({
+    daily_rupees: z.number().min(0).nullable().optional(),
+    monthly_rupees: z.number().min(0).nullable().optional(),
+  })
+  .refine((b) => b.daily_rupees !== undefined || b.monthly_rupees !== undefined, "nothing to update");
+
+/**
+ * PUT /api/usage/budget  { daily_rupees?, monthly_rupees? }
+ *
+ * The user's own AI budgets. null goes back to the server default; 0 means
+ * no limit.
+ */
+router.put("/budget", requireScope("admin"), async (req: Request, res: Response) => {
+  const user = authUser(req);
+  const parsed = BudgetSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid budget",
+      details: parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+    });
+    return;
+  }
+  try {
+    await setBudgetLimits(user.id, parsed.data);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authUser, requireScope } from "../middleware/auth.js";
+import {
+  WEBHOOK_EVENTS,
+  createEndpoint,
+  deleteEndpoint,
+  listDeliveries,
+  listEndpoints,
+  redeliver,
+} from "../services/webhooks.js";
+import { unsafeUrlReason } from "../services/outboundUrl.js";
+
+const router = Router();
+
+// Endpoint secrets and delivery payloads: the whole router is admin-only.
+router.use(requireScope("admin"));
+
+const EndpointSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((u) => /^https?:\/\//i.test(u), "must be an http(s) URL"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+});
+
+router.get("/", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, webhooks: await listEndpoints(user.id) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/**
+ * POST /api/webhooks  { url, events: ["transaction.inserted", ...] }
+ *
+ * Registers an endpoint. The response carries the signing secret — it is
+ * not shown again.
+ */
+router.post("/", async (req: Request, res: Response) => {
+  const user = authUser(req);
+
+  const parsed = EndpointSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid webhook",
+      details: parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`),
+    });
+    return;
+  }
+
+  const unsafe = await unsafeUrlReason(parsed.data.url);
+  if (unsafe) {
+    res.status(400).json({ success: false, error: `Invalid webhook URL: ${unsafe}` });
+    return;
+  }
+
+  try {
+    const webhook = await createEndpoint(user.id, parsed.data.url, [...new Set(parsed.data.events)]);
+    res.status(201).json({ success: true, webhook });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+router.delete("/:id", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    if (!(await deleteEndpoint(user.id, String(req.params.id)))) {
+      res.status(404).json({ success: false, error: "Webhook not found" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/** GET /api/webhooks/:id/deliveries — newest first, with attempt outcomes. */
+router.get("/:id/deliveries", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    res.json({ success: true, deliveries: await listDeliveries(user.id, String(req.params.id)) });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+/**
+ * POST /api/webhooks/deliveries/:id/redeliver
+ *
+ * Sends a past delivery's payload again as a new delivery, linked through
+ * redelivery_of, and returns it with the first attempt's outcome. 409 when
+ * the endpoint has been deactivated.
+ */
+router.post("/deliveries/:id/redeliver", async (req: Request, res: Response) => {
+  const user = authUser(req);
+  try {
+    const result = await redeliver(user.id, String(req.params.id));
+    if (!result) {
+      res.status(404).json({ success: false, error: "Delivery not found" });
+      return;
+    }
+    if ("error" in result) {
+      res.status(409).json({ success: false, error: result.error });
+      return;
+    }
+    res.json({ success: true, delivery: result.delivery });
+  } catch (err) {
+    res.status(500).json({ success: false, error: (err as Error).message });
+  }
+});
+
+export default router;
@@ -1,5 +1,18 @@
 import { z } from "zod";
 
+// Transaction fields the extractor rates and review can flag.
+export const REVIEW_FIELDS = ["amount", "direction", "merchant", "category"] as const;
+export const ReviewFieldSchema = z.enum(REVIEW_FIELDS);
+export type ReviewField = z.infer<typeof ReviewFieldSchema>;
+
+export const FieldConfidenceSchema = z.object({
+  amount: z.enum(["high", "medium", "low"]),
+  direction: z.enum(["high", "medium", "low"]),
+  merchant: z.enum(["high", "medium", "low"]),
+  category: z.enum(["high", "medium", "low"]),
+});
+export type FieldConfidence = z.infer<typeof FieldConfidenceSchema>;
+
 // Database transaction insert schema
 export const TransactionInsertSchema = z.object({
   user_id: z.string().uuid(),
@@ -20,6 +33,8 @@ export const TransactionInsertSchema = z.object({
   is_expense: z.boolean().optional(),
   is_income: z.boolean().optional(),
   needs_review: z.boolean().optional(),
+  /** Fields that sent the row to review (services/reviewRouting.ts); null when none. */
+  review_fields: z.array(ReviewFieldSchema).nullable().optional(),
   notes: z.string().nullable().optional(),
   group_id: z.string().uuid().nullable().optional(),
 });
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAndCategorize } from "./ai.js";
+import { LLM_TASKS, setLlmRegistry, type ChainEntry, type LlmModel, type LlmTask } from "./llm.js";
+
+function stubEntry(modelId: string, answer: () => unknown): ChainEntry {
+  const model: LlmModel = {
+    specificationVersion: "v2",
+    provider: "stub",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async () => ({
+      content: [{ type: "text", text: JSON.stringify(answer()) }],
+      finishReason: "stop",
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      warnings: [],
+    }),
+    doStream: async () => {
+      throw new Error("not used");
+    },
+  };
+  return { provider: "stub", model: modelId, languageModel: model, arrayEnvelope: false };
+}
+
+test("a failed extraction is reported as failed, not as a transaction without fields", async () => {
+  const classify = stubEntry("stub-classify", () => [{ sms_id: 1, is_transaction: true }]);
+  const extract = stubEntry("stub-extract", () => {
+    throw new Error("extractor down");
+  });
+  const chains = Object.fromEntries(
+    LLM_TASKS.map((t) => [t, [t === "classify" ? classify : extract]]),
+  ) as Record<LlmTask, ChainEntry[]>;
+  setLlmRegistry({ providers: {}, chains });
+
+  const result = await parseAndCategorize([{ id: 1, sender: "AD-HDFCBK", body: "Rs.250 debited", timestamp: null }], []);
+  assert.deepEqual(result.failedSmsIds, [1]);
+  assert.deepEqual(result.parsed, []);
+});
@@ -1,14 +1,33 @@
 import { generateObject, NoObjectGeneratedError } from "ai";
-import { google } from "@ai-sdk/google";
-import { groq } from "@ai-sdk/groq";
 import { z } from "zod";
 import type { SMSMessage, Category } from "../types/index.js";
+import { FieldConfidenceSchema, type FieldConfidence } from "../schemas/transaction.js";
+import { chunkByBudget, estimateTokens, mapConcurrent } from "./batching.js";
+import { createLogger } from "./logger.js";
+import { sanitizeErrorForStorage } from "./sanitize.js";
+import { aiFallbacks, aiPassDuration, aiTokens } from "./metrics.js";
+import { chainFor, configuredModels, usageKey, type ChainEntry, type LlmTask, type ModelRef } from "./llm.js";
+
+const log = createLogger("ai");
 
 // ── Schemas ─────────────────────────────────────────────────────────────────
 
+// Card statement / bill-due / EMI reminder fields. Every field nullable for
+// the same reason as ExtractedFieldsSchema below.
+const BillFieldsSchema = z.object({
+  bank_name: z.string().nullable().describe("Card issuer / lender, e.g. 'HDFC Bank', 'SBI Card'."),
+  account_last4: z.string().nullable().describe("Last 4 digits of the card / loan account."),
+  due_date: z
+    .string()
+    .nullable()
+    .describe("Payment due date as YYYY-MM-DD. Null if not stated."),
+  total_due: z.number().nullable().describe("Total amount due / statement balance. Null if not stated."),
+  minimum_due: z.number().nullable().describe("Minimum amount due. Null if not stated."),
+});
+
 // Public-facing parsed-transaction shape consumed by /ingest and
 // /shortcut-ingest. Produced by `parseAndCategorize`'s two-pass merge.
-const TransactionOutputSchema = z.object({
+export const TransactionOutputSchema = z.object({
   sms_id: z.number().describe("The SMS message ID from input"),
   is_transaction: z
     .boolean()
@@ -49,10 +68,13 @@ const TransactionOutputSchema = z.object({
     .nullable()
     .optional()
     .describe("Category slug from the allowed list"),
-  confidence: z
-    .enum(["high", "medium", "low"])
+  available_balance: z.number().nullable().optional().describe("Account balance after the transaction"),
+  available_limit: z.number().nullable().optional().describe("Credit card limit still available"),
+  credit_limit: z.number().nullable().optional().describe("Total credit card limit"),
+  confidence: FieldConfidenceSchema
+    .nullable()
     .optional()
-    .describe("Confidence in the parsing accuracy"),
+    .describe("Per-field confidence; template-tier rows rate what they parsed high"),
 
   // Skip reason (only when is_transaction is false)
   skip_reason: z
@@ -60,6 +82,9 @@ const TransactionOutputSchema = z.object({
     .nullable()
     .optional()
     .describe("Why this SMS is not a transaction"),
+
+  // Bill notice fields (is_transaction false, classified as a bill notice)
+  bill: BillFieldsSchema.nullable().optional(),
 });
 
 // Extraction-only schema (single-message), used by the /reclassify endpoint
@@ -100,6 +125,18 @@ const ExtractedFieldsSchema = z.object({
     .string()
     .nullable()
     .describe("Category slug from the allowed list provided in the prompt."),
+  available_balance: z
+    .number()
+    .nullable()
+    .describe("Account balance after this transaction ('Avl Bal', 'Available Balance', 'Bal'). Null if not stated."),
+  available_limit: z
+    .number()
+    .nullable()
+    .describe("Credit card limit still available ('Avl Limit', 'Available Credit Limit'). Null if not stated."),
+  credit_limit: z
+    .number()
+    .nullable()
+    .describe("Total credit card limit ('Credit Limit', 'Total Limit'). Null if not stated."),
 });
 
 // Two-pass ingest schemas. Pass 1 returns is_transaction per message (tiny
@@ -117,21 +154,47 @@ const ClassificationItemSchema = z.object({
     .nullable()
     .optional()
     .describe("Brief reason when is_transaction is false (e.g. 'OTP', 'Balance notification'). Null/omitted when is_transaction is true."),
+  is_bill_notice: z
+    .boolean()
+    .optional()
+    .describe("True for a card statement, bill-due or EMI / loan due reminder that states an amount due. Always false when is_transaction is true."),
 });
 const ClassificationsArraySchema = z.array(ClassificationItemSchema);
 
+const BatchBillItemSchema = BillFieldsSchema.extend({
+  sms_id: z.number().describe("The SMS message ID from input"),
+});
+const BatchBillArraySchema = z.array(BatchBillItemSchema);
+
 const BatchExtractedItemSchema = ExtractedFieldsSchema.extend({
   sms_id: z.number().describe("The SMS message ID from input"),
+  confidence: FieldConfidenceSchema.describe(
+    "Per field: high = stated verbatim, medium = read from clear wording, low = ambiguous or guessed.",
+  ),
 });
 const BatchExtractedArraySchema = z.array(BatchExtractedItemSchema);
 
+// Category-only pass for rows whose other fields are already known (the
+// template tier), so the model never sees more than merchant and direction.
+const CategoryItemSchema = z.object({
+  sms_id: z.number().describe("The id from input"),
+  category_slug: z.string().nullable().describe("Category slug from the allowed list; null if nothing fits."),
+  confidence: FieldConfidenceSchema.shape.category.describe(
+    "high = the merchant clearly implies the category, medium = a likely guess, low = unclear.",
+  ),
+});
+const CategoryArraySchema = z.array(CategoryItemSchema);
+
 // ── Exported types ─────────────────────────────────────────────────────────
 
 export type ParsedTransaction = z.infer<typeof TransactionOutputSchema>;
 export type ExtractedFields = z.infer<typeof ExtractedFieldsSchema>;
+export type BillFields = z.infer<typeof BillFieldsSchema>;
 
 /**
- * Per-model token usage, keyed by model id (e.g. "gemini-2.5-flash-lite").
+ * Per-model token usage, keyed "provider:model" (e.g.
+ * "google:gemini-2.5-flash-lite"; runs before per-provider pricing used the
+ * bare model id).
  * Multiple calls to the same model accumulate into the same bucket so a
  * sync_run that hits classifier + extractor (different models) shows two
  * entries, while one that falls back to the same model twice shows one.
@@ -141,47 +204,97 @@ export type ModelUsage = Record<
   { input: number; output: number; reasoning: number }
 >;
 
+/** Add `from` into `into` (no metrics; both were counted when billed). */
+export function mergeUsage(into: ModelUsage, from: ModelUsage): ModelUsage {
+  for (const [model, u] of Object.entries(from)) {
+    const bucket = into[model] ?? { input: 0, output: 0, reasoning: 0 };
+    bucket.input += u.input;
+    bucket.output += u.output;
+    bucket.reasoning += u.reasoning;
+    into[model] = bucket;
+  }
+  return into;
+}
+
 export interface ParseAndCategorizeResult {
   parsed: ParsedTransaction[];
   model: string;
   usage: ModelUsage;
+  /**
+   * Messages whose classifier or extractor chunk failed on every model.
+   * They have no entry in `parsed`; the rest of the batch is unaffected.
+   */
+  failedSmsIds: number[];
 }
 
 // ── Constants ──────────────────────────────────────────────────────────────
 
-// Extractor model: needs to reason about structured field extraction.
-const PRIMARY_PROVIDER = "google";
-const PRIMARY_MODEL = "gemini-2.5-flash";
-const FALLBACK_PROVIDER = "groq";
-// Must be on Groq's structured-outputs (json_schema) list — llama-3.3 is not,
-// and @ai-sdk/groq v2 no longer falls back to prompt-injected JSON mode.
-const FALLBACK_MODEL = "openai/gpt-oss-120b";
+// Models come from the provider registry (services/llm.ts): each pass names
+// a task and walks that task's fallback chain. The classify task runs on
+// every message — 90%+ of incoming SMS are non-transactional, so it
+// shoulders most of the per-batch work and gets the cheapest tier.
+
+export interface AiCallOptions {
+  /**
+   * Near the user's AI budget (services/aiBudget.ts): extract on the
+   * extract_economy chain (a cheaper model) instead of extract.
+   */
+  economy?: boolean;
+}
 
-// Classifier model: tiny task (yes/no + skip reason). Use the cheapest
-// reliable Google tier; falls back to the same Groq model as extraction.
-// 90%+ of incoming SMS are non-transactional, so this pass shoulders most of
-// the per-batch work.
-const CLASSIFIER_MODEL = "gemini-2.5-flash-lite";
+function extractTaskFor(opts: AiCallOptions): LlmTask {
+  return opts.economy ? "extract_economy" : "extract";
+}
 
 const MAX_ATTEMPTS = 2;
 const BASE_DELAY_MS = 500;
 const MAX_DELAY_MS = 8000;
 
-// ── Low-level helpers ──────────────────────────────────────────────────────
+// Large batches are split into chunks per pass, each with its own
+// walk down the fallback chain. Classifier output is a few tokens per message,
+// so its chunks can be much larger than the extractor's.
+const CLASSIFY_CHUNK_MESSAGES = 200;
+const EXTRACT_CHUNK_MESSAGES = 50;
+const CHUNK_INPUT_TOKENS = 30_000;
+const CHUNK_CONCURRENCY = 3;
+
+// ── Model health ───────────────────────────────────────────────────────────
 
-function getModel(provider: "google" | "groq", modelId: string) {
-  return provider === "google" ? google(modelId) : groq(modelId);
+export interface ModelHealth {
+  model: string;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// Outcome of every model call since the process started, for the readiness check.
+const modelHealthById = new Map<string, ModelHealth>();
+
+function recordModelOutcome(model: string, error?: unknown) {
+  const h = modelHealthById.get(model) ?? { model, lastSuccessAt: null, lastFailureAt: null, lastError: null };
+  if (error === undefined) {
+    h.lastSuccessAt = new Date();
+  } else {
+    h.lastFailureAt = new Date();
+    h.lastError = sanitizeErrorForStorage(error);
+  }
+  modelHealthById.set(model, h);
 }
 
-function sanitizeErrorMessage(error: unknown): string {
-  const msg = error instanceof Error ? error.message : "Unknown error";
-  return msg
-    .replace(/AIza[0-9A-Za-z\-_]{20,}/g, "[REDACTED_GOOGLE_KEY]")
-    .replace(/gsk_[A-Za-z0-9]{20,}/g, "[REDACTED_GROQ_KEY]");
+/** Last success / failure per model; configured models are listed even before their first call. */
+export function modelHealth(): ModelHealth[] {
+  for (const model of configuredModels()) {
+    if (!modelHealthById.has(model)) {
+      modelHealthById.set(model, { model, lastSuccessAt: null, lastFailureAt: null, lastError: null });
+    }
+  }
+  return [...modelHealthById.values()].map((h) => ({ ...h }));
+}
+
+// ── Low-level helpers ──────────────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
@@ -239,13 +352,22 @@ function tryRecoverArrayFromError<T extends z.ZodTypeAny>(
 type TokenCounts = { input: number; output: number; reasoning: number };
 type CallResult<T> = { data: T } & TokenCounts;
 
-/** Accumulate per-model token usage into an aggregator map (mutates in place). */
-function addUsage(into: ModelUsage, model: string, counts: TokenCounts) {
-  const bucket = into[model] ?? { input: 0, output: 0, reasoning: 0 };
+/**
+ * Accumulate per-model token usage into an aggregator map (mutates in place).
+ * Every billed call passes through here exactly once, so it also feeds the
+ * token counters.
+ */
+function addUsage(into: ModelUsage, ref: ModelRef, counts: TokenCounts) {
+  const key = usageKey(ref);
+  const model = ref.model;
+  const bucket = into[key] ?? { input: 0, output: 0, reasoning: 0 };
   bucket.input += counts.input;
   bucket.output += counts.output;
   bucket.reasoning += counts.reasoning;
-  into[model] = bucket;
+  into[key] = bucket;
+  aiTokens.inc({ model, type: "input" }, counts.input);
+  aiTokens.inc({ model, type: "output" }, counts.output);
+  aiTokens.inc({ model, type: "reasoning" }, counts.reasoning);
 }
 
 /**
@@ -266,13 +388,13 @@ function usageCounts(usage: {
 }
 
 async function callModelWithRetry<T extends z.ZodTypeAny>(
-  provider: "google" | "groq",
-  modelId: string,
+  entry: ChainEntry,
   systemPrompt: string,
   userPrompt: string,
   schema: z.ZodArray<T>,
   usage: ModelUsage,
 ): Promise<CallResult<z.infer<z.ZodArray<T>>>> {
+  const modelId = entry.model;
   let lastError: unknown;
   // Tokens billed by attempts that failed schema validation and were retried.
   const wasted: TokenCounts = { input: 0, output: 0, reasoning: 0 };
@@ -284,27 +406,26 @@ async function callModelWithRetry<T extends z.ZodTypeAny>(
 
   for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
     try {
-      console.log(
-        `[ai] Calling ${modelId} attempt ${attempt}/${MAX_ATTEMPTS} (provider=${provider})`
-      );
+      log.info(`Calling ${modelId} attempt ${attempt}/${MAX_ATTEMPTS} (provider=${entry.provider})`);
 
       const common = {
-        model: getModel(provider, modelId),
+        model: entry.languageModel,
         system: systemPrompt,
         prompt: userPrompt,
         temperature: 0,
         maxRetries: 0, // retries handled here so we control backoff + logging
       } as const;
-      // Groq's json_schema mode rejects root-level arrays; output:'array'
-      // wraps in an object envelope the SDK unwraps. Google keeps the plain
-      // array schema (proven shape in production).
+      // Some json_schema modes (Groq, most OpenAI-compatible servers) reject
+      // root-level arrays; output:'array' wraps in an object envelope the SDK
+      // unwraps. Google keeps the plain array schema (proven shape in production).
       const result =
-        provider === "groq"
+        entry.arrayEnvelope
           ? await generateObject({ ...common, output: "array", schema: schema.element })
           : await generateObject({ ...common, schema });
       if (attempt > 1) {
-        console.log(`[ai] ${modelId} succeeded on attempt ${attempt}/${MAX_ATTEMPTS}`);
+        log.info(`${modelId} succeeded on attempt ${attempt}/${MAX_ATTEMPTS}`);
       }
+      recordModelOutcome(modelId);
       return {
         data: result.object as z.infer<z.ZodArray<T>>,
         ...withWasted(usageCounts(result.usage)),
@@ -315,7 +436,8 @@ async function callModelWithRetry<T extends z.ZodTypeAny>(
         // NoObjectGeneratedError carries the real usage of the failed call;
         // these tokens ARE billed, so log them instead of the old 0.
         const usage = NoObjectGeneratedError.isInstance(error) ? error.usage : undefined;
-        console.warn(`[ai] ${modelId} recovered structured output from provider error envelope`);
+        log.warn(`${modelId} recovered structured output from provider error envelope`);
+        recordModelOutcome(modelId);
         return { data: recovered, ...withWasted(usageCounts(usage)) };
       }
       if (NoObjectGeneratedError.isInstance(error)) {
@@ -325,10 +447,9 @@ async function callModelWithRetry<T extends z.ZodTypeAny>(
         wasted.reasoning += u.reasoning;
       }
       lastError = error;
-      const message = sanitizeErrorMessage(error);
-      console.warn(
-        `[ai] ${modelId} attempt ${attempt}/${MAX_ATTEMPTS} failed: ${message}`
-      );
+      recordModelOutcome(modelId, error);
+      const message = sanitizeErrorForStorage(error);
+      log.warn(`${modelId} attempt ${attempt}/${MAX_ATTEMPTS} failed: ${message}`);
       if (attempt < MAX_ATTEMPTS) {
         const expDelay = BASE_DELAY_MS * 2 ** (attempt - 1);
         const jitter = Math.random() * 250;
@@ -340,10 +461,94 @@ async function callModelWithRetry<T extends z.ZodTypeAny>(
 
   // All attempts failed and the caller will fall back to another model; the
   // failed attempts' tokens were still billed, so record them before bailing.
-  addUsage(usage, modelId, wasted);
+  addUsage(usage, entry, wasted);
   throw lastError;
 }
 
+/**
+ * Walk `task`'s fallback chain, giving each model its own retries. Usage is
+ * accumulated for every model tried; throws the last model's error when the
+ * whole chain failed. `label` names the caller in logs, `pass` in metrics.
+ */
+async function callChainWithRetry<T extends z.ZodTypeAny>(
+  task: LlmTask,
+  label: string,
+  pass: string,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: z.ZodArray<T>,
+  usage: ModelUsage,
+): Promise<{ data: z.infer<z.ZodArray<T>>; model: string }> {
+  const chain = chainFor(task);
+  for (const [i, entry] of chain.entries()) {
+    try {
+      const result = await callModelWithRetry(entry, systemPrompt, userPrompt, schema, usage);
+      addUsage(usage, entry, result);
+      return { data: result.data, model: entry.model };
+    } catch (err) {
+      const next = chain[i + 1];
+      if (!next) throw err;
+      log.warn(`${label} ${entry.model} exhausted retries (${sanitizeErrorForStorage(err)}); falling back to ${next.model}`);
+      aiFallbacks.inc({ pass });
+    }
+  }
+  throw new Error(`No models configured for ${task}`);
+}
+
+// ── Chunking ────────────────────────────────────────────────────────────────
+
+const messageTokens = (m: SMSMessage) =>
+  estimateTokens(m.body || "") + estimateTokens(m.sender || "") + estimateTokens(m.subject || "") + 10;
+
+interface ChunkedRun<R> {
+  results: R[];
+  /** Messages from chunks that failed on every model. */
+  failed: SMSMessage[];
+  errors: unknown[];
+}
+
+/** "Pass 2b" → "pass2b", for metric labels. */
+const passLabel = (pass: string) => pass.toLowerCase().replace(/\s+/g, "");
+
+/**
+ * Run one pass over `messages` in chunks, CHUNK_CONCURRENCY at a time. A
+ * failed chunk is reported with its messages; the other chunks still count.
+ */
+async function runInChunks<R>(
+  pass: string,
+  messages: SMSMessage[],
+  maxMessages: number,
+  run: (chunk: SMSMessage[]) => Promise<R>,
+): Promise<ChunkedRun<R>> {
+  const chunks = chunkByBudget(messages, maxMessages, CHUNK_INPUT_TOKENS, messageTokens);
+  if (chunks.length > 1) {
+    log.info(`${pass}: ${messages.length} messages in ${chunks.length} chunks`);
+  }
+  const stopTimer = aiPassDuration.startTimer({ pass: passLabel(pass) });
+  const settled = await mapConcurrent(chunks, CHUNK_CONCURRENCY, run);
+  stopTimer();
+  const out: ChunkedRun<R> = { results: [], failed: [], errors: [] };
+  settled.forEach((s, i) => {
+    if (s.status === "fulfilled") {
+      out.results.push(s.value);
+      return;
+    }
+    out.failed.push(...chunks[i]);
+    out.errors.push(s.reason);
+    log.error(`${pass} chunk ${i + 1}/${chunks.length} (${chunks[i].length} messages) failed on every model`, {
+      error: sanitizeErrorForStorage(s.reason),
+    });
+  });
+  return out;
+}
+
+/** The model that handled the most chunks — what a sync_run reports. */
+function dominantModel(models: string[], fallback: string): string {
+  const counts = new Map<string, number>();
+  for (const m of models) counts.set(m, (counts.get(m) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? fallback;
+}
+
 // ── Pass 1: classify ───────────────────────────────────────────────────────
 
 const CLASSIFY_SYSTEM_PROMPT = `You classify Indian banking SMS as financial transactions.
@@ -352,6 +557,8 @@ YES: past-tense verb describing money moving — debited, credited, spent, recei
 
 NO: OTP / verification, payment authorization, standalone balance / statement, promo, pending / upcoming / scheduled — even if an amount, merchant, or card is mentioned.
 
+BILL NOTICE: card statement generated, payment due / overdue, EMI or loan due reminder stating an amount due → is_transaction false, is_bill_notice true. Everything else: is_bill_notice false.
+
 Output one object per input, same order. Copy sms_id EXACTLY.`;
 
 const EMAIL_CLASSIFY_SYSTEM_PROMPT = `You classify emails as financial transactions. Each input has sender, subject, body_preview.
@@ -364,6 +571,8 @@ For vague subjects (e.g. "Transaction Alert", "Notification", "Card Update"), us
 
 NO: OTP / verification, statement / balance update, promo / cashback (without an actual payment), pending / scheduled / EMI reminder, login / KYC alert, marketing.
 
+BILL NOTICE: card statement, payment due / overdue, EMI or loan due reminder stating an amount due → is_transaction false, is_bill_notice true. Everything else: is_bill_notice false.
+
 Output one object per input, same order. Copy sms_id EXACTLY.`;
 
 // First N chars of body fed to email Pass 1 to disambiguate vague subjects.
@@ -395,32 +604,16 @@ async function classifyBatch(
 
   const userPrompt = `INPUT MESSAGES:\n\`\`\`json\n${JSON.stringify(messagesForPrompt)}\n\`\`\``;
 
-  try {
-    const result = await callModelWithRetry(
-      PRIMARY_PROVIDER,
-      CLASSIFIER_MODEL,
-      systemPrompt,
-      userPrompt,
-      ClassificationsArraySchema,
-      usage,
-    );
-    addUsage(usage, CLASSIFIER_MODEL, result);
-    return { classifications: result.data, model: CLASSIFIER_MODEL };
-  } catch (primaryErr) {
-    console.warn(
-      `[ai] classifier ${CLASSIFIER_MODEL} exhausted retries (${sanitizeErrorMessage(primaryErr)}); falling back to ${FALLBACK_MODEL}`,
-    );
-    const result = await callModelWithRetry(
-      FALLBACK_PROVIDER,
-      FALLBACK_MODEL,
-      systemPrompt,
-      userPrompt,
-      ClassificationsArraySchema,
-      usage,
-    );
-    addUsage(usage, FALLBACK_MODEL, result);
-    return { classifications: result.data, model: FALLBACK_MODEL };
-  }
+  const { data, model } = await callChainWithRetry(
+    "classify",
+    "Classifier",
+    "pass1",
+    systemPrompt,
+    userPrompt,
+    ClassificationsArraySchema,
+    usage,
+  );
+  return { classifications: data, model };
 }
 
 // ── Pass 2: extract (only for messages classified as transactions) ─────────
@@ -431,10 +624,12 @@ function buildExtractBatchPrompt(categories: Category[]): string {
 
 Return null for any field not clearly stated. Don't guess or infer.
 
-amount trap: "Available Balance" / "Avl Limit" are balance, NOT the transaction amount.
+amount trap: "Available Balance" / "Avl Limit" are balance, NOT the transaction amount — they go in available_balance / available_limit.
 
 category_slug: best fit from [${categoryList}]. Use "other" only when nothing else fits.
 
+confidence: rate amount, direction, merchant and category separately. Use "low" whenever you were unsure — low-rated fields get a human check, so an honest "low" is better than a wrong "high".
+
 Output one object per input, same order. Copy sms_id EXACTLY.`;
 }
 
@@ -442,6 +637,7 @@ async function extractBatch(
   messages: SMSMessage[],
   categories: Category[],
   usage: ModelUsage,
+  task: LlmTask,
 ): Promise<{ extracts: z.infer<typeof BatchExtractedArraySchema>; model: string }> {
   const systemPrompt = buildExtractBatchPrompt(categories);
   const messagesForPrompt = messages.map((m) => ({
@@ -451,32 +647,107 @@ async function extractBatch(
   }));
   const userPrompt = `INPUT MESSAGES:\n\`\`\`json\n${JSON.stringify(messagesForPrompt)}\n\`\`\``;
 
-  try {
-    const result = await callModelWithRetry(
-      PRIMARY_PROVIDER,
-      PRIMARY_MODEL,
-      systemPrompt,
-      userPrompt,
-      BatchExtractedArraySchema,
-      usage,
-    );
-    addUsage(usage, PRIMARY_MODEL, result);
-    return { extracts: result.data, model: PRIMARY_MODEL };
-  } catch (primaryErr) {
-    console.warn(
-      `[ai] extractor ${PRIMARY_MODEL} exhausted retries (${sanitizeErrorMessage(primaryErr)}); falling back to ${FALLBACK_MODEL}`,
-    );
-    const result = await callModelWithRetry(
-      FALLBACK_PROVIDER,
-      FALLBACK_MODEL,
-      systemPrompt,
-      userPrompt,
-      BatchExtractedArraySchema,
-      usage,
+  const { data, model } = await callChainWithRetry(
+    task,
+    "Extractor",
+    "pass2",
+    systemPrompt,
+    userPrompt,
+    BatchExtractedArraySchema,
+    usage,
+  );
+  return { extracts: data, model };
+}
+
+// ── Pass 2b: bill notices (only for messages classified as bill notices) ─────
+
+const EXTRACT_BILL_SYSTEM_PROMPT = `Extract bill fields from Indian card statement / payment-due / EMI reminder messages. Each input is already confirmed a bill notice.
+
+Return null for any field not clearly stated. Don't guess or infer.
+
+due_date: YYYY-MM-DD. Messages write dates like "05-Mar-25", "05/03/2025" or "March 5"; the year is the message's year unless stated. Each input carries received_at to anchor it.
+
+Output one object per input, same order. Copy sms_id EXACTLY.`;
+
+async function extractBillBatch(
+  messages: SMSMessage[],
+  usage: ModelUsage,
+  task: LlmTask,
+): Promise<z.infer<typeof BatchBillArraySchema>> {
+  const messagesForPrompt = messages.map((m) => ({
+    sms_id: m.id,
+    body: m.body,
+    sender: m.sender,
+    received_at: m.timestamp,
+  }));
+  const userPrompt = `INPUT MESSAGES:\n\`\`\`json\n${JSON.stringify(messagesForPrompt)}\n\`\`\``;
+
+  const { data } = await callChainWithRetry(
+    task,
+    "Bill extractor",
+    "pass2b",
+    EXTRACT_BILL_SYSTEM_PROMPT,
+    userPrompt,
+    BatchBillArraySchema,
+    usage,
+  );
+  return data;
+}
+
+// ── Category-only pass (template-tier rows) ────────────────────────────────
+
+export interface CategorizeInput {
+  sms_id: number;
+  merchant: string | null;
+  direction: "credit" | "debit";
+  amount: number;
+}
+
+export interface CategoryPick {
+  slug: string | null;
+  confidence: FieldConfidence["category"];
+}
+
+/**
+ * Pick a category for transactions whose other fields are already parsed.
+ * Runs on the classify chain: the input is a few tokens per row, far cheaper
+ * than re-extracting the whole message. Throws when the chain failed; slugs
+ * outside `categories` come back as null with low confidence.
+ */
+export async function categorizeTransactions(
+  items: CategorizeInput[],
+  categories: Category[],
+): Promise<{ picks: Map<number, CategoryPick>; usage: ModelUsage }> {
+  const usage: ModelUsage = {};
+  if (items.length === 0 || categories.length === 0) return { picks: new Map(), usage };
+
+  const allowed = new Set(categories.map((c) => c.slug.toLowerCase()));
+  const systemPrompt = `Pick a spending category for each Indian bank transaction from its merchant, direction and amount.
+
+category_slug: best fit from [${categories.map((c) => c.slug).join(", ")}]. Use "other" only when nothing else fits.
+confidence: "low" when the merchant name doesn't tell you what was bought — low-rated rows get a human check.
+
+Output one object per input, same order. Copy sms_id EXACTLY.`;
+  const userPrompt = `INPUT TRANSACTIONS:\n\`\`\`json\n${JSON.stringify(items)}\n\`\`\``;
+
+  const { data } = await callChainWithRetry(
+    "classify",
+    "Categorizer",
+    "categorize",
+    systemPrompt,
+    userPrompt,
+    CategoryArraySchema,
+    usage,
+  );
+  const picks = new Map<number, CategoryPick>();
+  for (const c of data) {
+    const slug = c.category_slug?.toLowerCase() ?? null;
+    picks.set(
+      Number(c.sms_id),
+      slug && allowed.has(slug) ? { slug, confidence: c.confidence } : { slug: null, confidence: "low" },
     );
-    addUsage(usage, FALLBACK_MODEL, result);
-    return { extracts: result.data, model: FALLBACK_MODEL };
   }
+  return { picks, usage };
 }
 
 // ── Reclassify entry point (single SMS, called from /sync-runs/.../mark-transaction) ─────
@@ -489,15 +760,17 @@ async function extractBatch(
  */
 export async function extractTransactionFields(
   message: { body: string; sender: string },
-  categories: Category[]
+  categories: Category[],
+  opts: AiCallOptions = {},
 ): Promise<{ fields: ExtractedFields; model: string; usage: ModelUsage }> {
+  const chain = chainFor(extractTaskFor(opts));
   const categoryList = categories.map((c) => c.slug).join(", ");
 
   const systemPrompt = `Extract transaction fields from a banking SMS. Already confirmed a transaction — don't re-classify, don't refuse.
 
 Return null for any field not clearly stated. Don't guess or infer.
 
-amount trap: "Available Balance" / "Avl Limit" are balance, NOT the transaction amount.
+amount trap: "Available Balance" / "Avl Limit" are balance, NOT the transaction amount — they go in available_balance / available_limit.
 
 category_slug: best fit from [${categoryList}]. Use "other" only when nothing else fits.`;
 
@@ -507,47 +780,47 @@ SMS body:
 ${message.body}
 """`;
 
-  // Shared across primary + fallback so a failed primary's billed tokens
+  // Shared across the chain so a failed model's billed tokens
   // (NoObjectGeneratedError still carries usage) aren't dropped.
   const usage: ModelUsage = {};
-  const callOnce = async (provider: "google" | "groq", modelId: string) => {
+  const callOnce = async (entry: ChainEntry) => {
     try {
       const result = await generateObject({
-        model: getModel(provider, modelId),
+        model: entry.languageModel,
         schema: ExtractedFieldsSchema,
         system: systemPrompt,
         prompt: userPrompt,
         temperature: 0,
         maxRetries: 0,
       });
-      addUsage(usage, modelId, usageCounts(result.usage));
+      addUsage(usage, entry, usageCounts(result.usage));
+      recordModelOutcome(entry.model);
       return result.object;
     } catch (error) {
       if (NoObjectGeneratedError.isInstance(error)) {
-        addUsage(usage, modelId, usageCounts(error.usage));
+        addUsage(usage, entry, usageCounts(error.usage));
       }
+      recordModelOutcome(entry.model, error);
       throw error;
     }
   };
 
-  try {
-    const fields = await callOnce(PRIMARY_PROVIDER, PRIMARY_MODEL);
-    return { fields, model: PRIMARY_MODEL, usage };
-  } catch (primaryErr) {
-    console.warn(
-      `[ai] extractTransactionFields primary ${PRIMARY_MODEL} failed (${sanitizeErrorMessage(primaryErr)}); falling back to ${FALLBACK_MODEL}`
-    );
+  const errors: Record<string, string> = {};
+  for (const [i, entry] of chain.entries()) {
     try {
-      const fields = await callOnce(FALLBACK_PROVIDER, FALLBACK_MODEL);
-      return { fields, model: FALLBACK_MODEL, usage };
-    } catch (fallbackErr) {
-      console.error("[ai] extractTransactionFields both providers failed", {
-        primary: sanitizeErrorMessage(primaryErr),
-        fallback: sanitizeErrorMessage(fallbackErr),
-      });
-      throw new Error("Failed to extract transaction fields with AI.");
+      const fields = await callOnce(entry);
+      return { fields, model: entry.model, usage };
+    } catch (err) {
+      errors[entry.model] = sanitizeErrorForStorage(err);
+      const next = chain[i + 1];
+      if (next) {
+        log.warn(`ExtractTransactionFields ${entry.model} failed (${errors[entry.model]}); falling back to ${next.model}`);
+        aiFallbacks.inc({ pass: "reclassify" });
+      }
     }
   }
+  log.error("extractTransactionFields every model failed", { errors });
+  throw new Error("Failed to extract transaction fields with AI.");
 }
 
 // ── Ingest entry point (batched two-pass) ──────────────────────────────────
@@ -560,64 +833,84 @@ ${message.body}
  * Most ingest batches are 90%+ non-transactional, so pass 2 is small or
  * skipped entirely — net token spend goes down vs. the old single-pass design.
  *
- * Public return shape is unchanged (ParsedTransaction[]) so /ingest and
- * /shortcut-ingest don't need updates. The `model` string reports the
- * extractor model (or classifier model when pass 2 was skipped).
+ * Each pass splits large batches into chunks (by message count and
+ * estimated input tokens) that run CHUNK_CONCURRENCY at a time, each with
+ * its own walk down the task's fallback chain. A chunk failing on every
+ * model only costs its own messages; the batch fails outright only when no classifier
+ * chunk succeeded.
+ *
+ * The `model` string reports the extractor model (or classifier model when
+ * pass 2 was skipped) that handled most chunks.
  */
 export async function parseAndCategorize(
   messages: SMSMessage[],
-  categories: Category[]
+  categories: Category[],
+  opts: AiCallOptions = {},
 ): Promise<ParseAndCategorizeResult> {
+  const extractTask = extractTaskFor(opts);
+  const extractModel = chainFor(extractTask)[0].model;
   if (messages.length === 0) {
-    return { parsed: [], model: PRIMARY_MODEL, usage: {} };
+    return { parsed: [], model: extractModel, usage: {}, failedSmsIds: [] };
   }
 
+  // Shared by every chunk of every pass; addUsage accumulates per model.
   const usage: ModelUsage = {};
 
   // ── Pass 1: classify everything ──────────────────────────────────────────
-  const { classifications, model: classifierModel } = await classifyBatch(messages, usage);
+  const pass1 = await runInChunks("Pass 1", messages, CLASSIFY_CHUNK_MESSAGES, (chunk) =>
+    classifyBatch(chunk, usage),
+  );
+  // Nothing classified at all: fail the batch as before, so the ingest
+  // queue retries it whole.
+  if (pass1.results.length === 0) throw pass1.errors[0];
+  const classifierModel = dominantModel(pass1.results.map((r) => r.model), chainFor("classify")[0].model);
+  const failedSmsIds = new Set(pass1.failed.map((m) => Number(m.id)));
 
   // Build a sms_id → classification map keyed by Number for safety. The
   // model occasionally omits messages or duplicates ids; we tolerate both
   // (missing entries get flagged during merge below).
   const classByIds = new Map<number, z.infer<typeof ClassificationItemSchema>>();
-  for (const c of classifications) classByIds.set(Number(c.sms_id), c);
+  for (const r of pass1.results) for (const c of r.classifications) classByIds.set(Number(c.sms_id), c);
 
   const survivors = messages.filter(
     (m) => classByIds.get(Number(m.id))?.is_transaction === true,
   );
-  console.log(
-    `[ai] Pass 1 done on ${classifierModel}: ${survivors.length}/${messages.length} classified as transactions`,
-  );
+  log.info(`Pass 1 done on ${classifierModel}: ${survivors.length}/${messages.length - failedSmsIds.size} classified as transactions`);
 
   // ── Pass 2: extract fields, but only for survivors ───────────────────────
   const extractsById = new Map<number, z.infer<typeof BatchExtractedItemSchema>>();
   let extractorModel = classifierModel; // reported back when pass 2 is skipped
-  let pass2Failed = false;
 
   if (survivors.length > 0) {
-    try {
-      const { extracts, model } = await extractBatch(survivors, categories, usage);
-      extractorModel = model;
-      for (const e of extracts) extractsById.set(Number(e.sms_id), e);
-      console.log(
-        `[ai] Pass 2 done on ${model}: ${extracts.length}/${survivors.length} extracted`,
-      );
-    } catch (err) {
-      // Pass 2 totally failed — log and proceed. Each survivor will be marked
-      // as a transaction in the merge but without fields, so the existing
-      // ingest loop will skip them with "Missing amount or direction" reason.
-      // User can recover via the reclassify dialog.
-      pass2Failed = true;
-      console.error(
-        `[ai] Pass 2 (extraction) failed for entire batch of ${survivors.length}; survivors will be marked needs-review:`,
-        sanitizeErrorMessage(err),
-      );
-    }
+    const pass2 = await runInChunks("Pass 2", survivors, EXTRACT_CHUNK_MESSAGES, (chunk) =>
+      extractBatch(chunk, categories, usage, extractTask),
+    );
+    for (const r of pass2.results) for (const e of r.extracts) extractsById.set(Number(e.sms_id), e);
+    // A failed extraction is an error like a failed classification, so the
+    // run ends partial and a replay retries it.
+    for (const m of pass2.failed) failedSmsIds.add(Number(m.id));
+    if (pass2.results.length > 0) extractorModel = dominantModel(pass2.results.map((r) => r.model), extractModel);
+    log.info(`Pass 2 done on ${extractorModel}: ${extractsById.size}/${survivors.length} extracted`);
   }
 
-  // ── Merge: produce one ParsedTransaction per input message ───────────────
-  const parsed: ParsedTransaction[] = messages.map((m) => {
+  // ── Pass 2b: bill fields for bill notices ─────────────────────────────────
+  // Best effort: a failure here only loses the reminder, never a transaction.
+  const billNotices = messages.filter((m) => {
+    const c = classByIds.get(Number(m.id));
+    return c?.is_transaction === false && c.is_bill_notice === true;
+  });
+  const billsById = new Map<number, z.infer<typeof BatchBillItemSchema>>();
+  if (billNotices.length > 0) {
+    const pass2b = await runInChunks("Pass 2b", billNotices, EXTRACT_CHUNK_MESSAGES, (chunk) =>
+      extractBillBatch(chunk, usage, extractTask),
+    );
+    for (const bills of pass2b.results) for (const b of bills) billsById.set(Number(b.sms_id), b);
+    log.info(`Pass 2b done: ${billsById.size}/${billNotices.length} bill notices extracted`);
+  }
+
+  // ── Merge: one ParsedTransaction per classified input message ────────────
+  const classified = messages.filter((m) => !failedSmsIds.has(Number(m.id)));
+  const parsed: ParsedTransaction[] = classified.map((m) => {
     const c = classByIds.get(Number(m.id));
     if (!c) {
       return {
@@ -628,6 +921,11 @@ export async function parseAndCategorize(
     }
 
     if (!c.is_transaction) {
+      const bill = c.is_bill_notice ? billsById.get(Number(m.id)) : undefined;
+      if (bill) {
+        const { sms_id: _smsId, ...fields } = bill;
+        return { sms_id: m.id, is_transaction: false, skip_reason: "Bill notice", bill: fields };
+      }
       return {
         sms_id: m.id,
         is_transaction: false,
@@ -638,16 +936,10 @@ export async function parseAndCategorize(
     // Classifier said it IS a transaction.
     const ex = extractsById.get(Number(m.id));
     if (!ex) {
-      // Either pass 2 failed entirely or the extractor dropped this message.
-      // Surface it as a transaction with no fields so the ingest loop's
-      // "Missing amount or direction" branch flags it as skipped.
-      return {
-        sms_id: m.id,
-        is_transaction: true,
-        skip_reason: pass2Failed
-          ? "Extraction failed; reclassify manually"
-          : "Extractor dropped this message",
-      };
+      // The extractor dropped this message. Surface it as a transaction with
+      // no fields so the ingest loop's "Missing amount or direction" branch
+      // flags it as skipped.
+      return { sms_id: m.id, is_transaction: true, skip_reason: "Extractor dropped this message" };
     }
 
     return {
@@ -661,8 +953,12 @@ export async function parseAndCategorize(
       bank_name: ex.bank_name,
       reference_id: ex.reference_id,
       category_slug: ex.category_slug,
+      available_balance: ex.available_balance,
+      available_limit: ex.available_limit,
+      credit_limit: ex.credit_limit,
+      confidence: ex.confidence,
     };
   });
 
-  return { parsed, model: extractorModel, usage };
+  return { parsed, model: extractorModel, usage, failedSmsIds: [...failedSmsIds] };
 }
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { budgetLimits, budgetMode, budgetPeriods } from "./aiBudget.js";
+import { costRupees, usageRupees } from "./pricing.js";
+import { LlmConfigSchema, resolveLlmConfig, setLlmRegistry } from "./llm.js";
+
+test("budget mode goes economy near a limit and deferred past it, monthly first", () => {
+  const under = { spent: 5, limit: 25 };
+  const near = { spent: 21, limit: 25 };
+  const over = { spent: 25, limit: 25 };
+  const unlimited = { spent: 1000, limit: null };
+  assert.deepEqual(budgetMode(under, { spent: 50, limit: 300 }, 0.8), { mode: "normal", exceeded: null });
+  assert.deepEqual(budgetMode(near, { spent: 50, limit: 300 }, 0.8), { mode: "economy", exceeded: null });
+  assert.deepEqual(budgetMode(under, { spent: 250, limit: 300 }, 0.8), { mode: "economy", exceeded: null });
+  assert.deepEqual(budgetMode(over, { spent: 50, limit: 300 }, 0.8), { mode: "deferred", exceeded: "daily" });
+  assert.deepEqual(budgetMode(over, { spent: 300, limit: 300 }, 0.8), { mode: "deferred", exceeded: "monthly" });
+  assert.deepEqual(budgetMode(unlimited, unlimited, 0.8), { mode: "normal", exceeded: null });
+});
+
+test("profile budgets override the defaults; 0 means no limit", () => {
+  assert.deepEqual(budgetLimits({ id: "u", ai_budget_daily_rupees: 10, ai_budget_monthly_rupees: 0 }), {
+    daily: 10,
+    monthly: null,
+  });
+  const defaults = budgetLimits({ id: "u" });
+  assert.ok(defaults.daily === null || defaults.daily > 0);
+});
+
+test("budget periods follow the user's local calendar", () => {
+  // 2026-03-31 20:00 UTC is already April 1st in Kolkata (UTC+5:30).
+  const p = budgetPeriods("Asia/Kolkata", new Date("2026-03-31T20:00:00Z"));
+  assert.equal(p.dayStart.toISOString(), "2026-03-31T18:30:00.000Z");
+  assert.equal(p.monthStart.toISOString(), "2026-03-31T18:30:00.000Z");
+  assert.equal(p.nextDay.toISOString(), "2026-04-01T18:30:00.000Z");
+  assert.equal(p.nextMonth.toISOString(), "2026-04-30T18:30:00.000Z");
+});
+
+test("sync_run usage is priced per model, unknown models at the dearest rates", () => {
+  const flash = { input: 1_000_000, output: 100_000, reasoning: 100_000 };
+  assert.equal(costRupees("gemini-2.5-flash", flash), (0.3 + 0.2 * 2.5) * 95.2);
+  assert.equal(costRupees("some-new-model", flash), costRupees("gemini-2.5-flash", flash));
+  assert.equal(
+    usageRupees({ "gemini-2.5-flash-lite": flash, "some-new-model": flash }),
+    costRupees("gemini-2.5-flash-lite", flash) + costRupees("gemini-2.5-flash", flash),
+  );
+  assert.equal(usageRupees(null), 0);
+});
+
+test("usage is priced by provider: free and per-provider rates win over the model list", () => {
+  const providers = {
+    ollama: { type: "openai-compatible", baseURL: "http://localhost:11434/v1", free: true },
+    together: { type: "openai-compatible", baseURL: "https://api.together.xyz/v1", pricePerM: { input: 1, output: 1 } },
+  };
+  setLlmRegistry(resolveLlmConfig([LlmConfigSchema.parse({ providers })], { GOOGLE_GENERATIVE_AI_API_KEY: "k" }));
+  const flash = { input: 1_000_000, output: 100_000, reasoning: 100_000 };
+  assert.equal(costRupees("google:gemini-2.5-flash", flash), costRupees("gemini-2.5-flash", flash));
+  assert.equal(costRupees("ollama:qwen2.5:7b", flash), 0);
+  assert.equal(costRupees("together:gemini-2.5-flash", flash), (1 + 0.2) * 95.2);
+  assert.equal(costRupees("ollama-eu:qwen2.5:7b", flash), costRupees("gemini-2.5-flash", flash));
+});
@@ -0,0 +1,173 @@
+import { env } from "../config/env.js";
+import { supabase, insertSyncRun } from "./supabase.js";
+import { usageRupees } from "./pricing.js";
+import { localDate, userTimeZone, zonedDateTime } from "./timezone.js";
+import { triggerBudgetPush } from "./push.js";
+import type { ModelUsage } from "./ai.js";
+import type { User } from "../types/index.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("ai-budget");
+
+/**
+ * Per-user AI spend budgets (daily and monthly, in rupees, per the user's
+ * local calendar). Spend is the priced usage on the user's sync_runs: ingest
+ * and reclassify add to their run, enrichment writes one run per user, and
+ * calls with no run of their own (ingest previews, monthly summaries) go
+ * through recordAiSpend.
+ *
+ *  - normal:   under AI_BUDGET_NEAR_RATIO of both budgets.
+ *  - economy:  near a budget — extraction runs on the cheaper classifier model.
+ *  - deferred: over a budget — messages that need AI wait in the ingest
+ *              queue until the budget resets; the user gets one push per period.
+ */
+
+export type BudgetMode = "normal" | "economy" | "deferred";
+export type BudgetPeriod = "daily" | "monthly";
+
+export interface BudgetUsage {
+  spent: number;
+  /** null = no limit. */
+  limit: number | null;
+}
+
+export interface BudgetStatus {
+  mode: BudgetMode;
+  day: BudgetUsage;
+  month: BudgetUsage;
+  /** The budget that is exceeded (monthly wins when both are). */
+  exceeded: BudgetPeriod | null;
+  /** When deferred work may run again: the exceeded period's reset. */
+  resumeAt: Date | null;
+}
+
+export function budgetLimits(user: User): Record<BudgetPeriod, number | null> {
+  const daily = user.ai_budget_daily_rupees ?? env.aiBudgetDailyRupees;
+  const monthly = user.ai_budget_monthly_rupees ?? env.aiBudgetMonthlyRupees;
+  return { daily: daily > 0 ? daily : null, monthly: monthly > 0 ? monthly : null };
+}
+
+/** Pure mode decision, exported for tests. */
+export function budgetMode(
+  day: BudgetUsage,
+  month: BudgetUsage,
+  nearRatio: number = env.aiBudgetNearRatio,
+): { mode: BudgetMode; exceeded: BudgetPeriod | null } {
+  const over = (b: BudgetUsage) => b.limit !== null && b.spent >= b.limit;
+  const near = (b: BudgetUsage) => b.limit !== null && b.spent >= b.limit * nearRatio;
+  if (over(month)) return { mode: "deferred", exceeded: "monthly" };
+  if (over(day)) return { mode: "deferred", exceeded: "daily" };
+  if (near(day) || near(month)) return { mode: "economy", exceeded: null };
+  return { mode: "normal", exceeded: null };
+}
+
+/** Start of the user's local day and month containing `now`, and of the next ones. */
+export function budgetPeriods(timeZone: string, now: Date) {
+  const today = localDate(now, timeZone);
+  const [y, m, d] = today.split("-").map(Number);
+  const iso = (date: Date) => date.toISOString().slice(0, 10);
+  const at = (date: string) => new Date(zonedDateTime(date, 0, 0, timeZone));
+  return {
+    dayStart: at(today),
+    monthStart: at(`${today.slice(0, 7)}-01`),
+    nextDay: at(iso(new Date(Date.UTC(y, m - 1, d + 1)))),
+    nextMonth: at(iso(new Date(Date.UTC(y, m, 1)))),
+  };
+}
+
+export async function getBudgetStatus(user: User, now: Date = new Date()): Promise<BudgetStatus> {
+  const limits = budgetLimits(user);
+  const periods = budgetPeriods(userTimeZone(user), now);
+
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .select("started_at, usage")
+    .eq("user_id", user.id)
+    .gte("started_at", periods.monthStart.toISOString())
+    .not("usage", "is", null);
+  if (error) throw new Error(`Failed to read AI spend: ${error.message}`);
+
+  let daySpent = 0;
+  let monthSpent = 0;
+  for (const run of data ?? []) {
+    const rupees = usageRupees(run.usage);
+    monthSpent += rupees;
+    if (new Date(run.started_at) >= periods.dayStart) daySpent += rupees;
+  }
+
+  const day = { spent: daySpent, limit: limits.daily };
+  const month = { spent: monthSpent, limit: limits.monthly };
+  const { mode, exceeded } = budgetMode(day, month);
+  const resumeAt = exceeded === "monthly" ? periods.nextMonth : exceeded === "daily" ? periods.nextDay : null;
+  return { mode, day, month, exceeded, resumeAt };
+}
+
+/** Like getBudgetStatus, but a failed spend read means "normal": budgets must not stop ingest. */
+export async function currentBudget(user: User): Promise<BudgetStatus | null> {
+  try {
+    return await getBudgetStatus(user);
+  } catch (err) {
+    log.error("Spend read failed; running without a budget", { err });
+    return null;
+  }
+}
+
+/**
+ * Book AI spend that has no sync_run of its own as a usage-only run, so the
+ * budget counts it. A failed insert is logged by insertSyncRun, not thrown.
+ */
+export async function recordAiSpend(userId: string, source: string, usage: ModelUsage, startedAt: Date): Promise<void> {
+  if (Object.keys(usage).length === 0) return;
+  const completedAt = new Date();
+  await insertSyncRun({
+    userId,
+    startedAt,
+    completedAt,
+    durationMs: completedAt.getTime() - startedAt.getTime(),
+    status: "success",
+    totalMessages: 0,
+    inserted: 0,
+    skipped: 0,
+    errors: 0,
+    messages: [],
+    details: [],
+    source,
+    usage,
+  });
+}
+
+// One push per user per exceeded period; a restart may repeat it once.
+const notified = new Set<string>();
+
+/** Tell the user their AI work is on hold, once per exceeded period. Never throws. */
+export async function notifyBudgetExceeded(user: User, status: BudgetStatus, deferred: number): Promise<void> {
+  if (!status.exceeded || !status.resumeAt) return;
+  const key = `${user.id}:${status.exceeded}:${status.resumeAt.toISOString()}`;
+  if (notified.has(key)) return;
+  notified.add(key);
+  const usage = status.exceeded === "monthly" ? status.month : status.day;
+  try {
+    await triggerBudgetPush({
+      user_id: user.id,
+      period: status.exceeded,
+      spent: usage.spent,
+      limit: usage.limit ?? 0,
+      deferred,
+      resume_on: localDate(status.resumeAt, userTimeZone(user)),
+    });
+  } catch (err) {
+    log.error("Budget push failed", { err });
+  }
+}
+
+/** Set the user's own budgets; null restores the env default, 0 removes the limit. */
+export async function setBudgetLimits(
+  userId: string,
+  patch: { daily_rupees?: number | null; monthly_rupees?: number | null },
+): Promise<void> {
+  const update: Record<string, number | null> = {};
+  if (patch.daily_rupees !== undefined) update.ai_budget_daily_rupees = patch.daily_rupees;
+  if (patch.monthly_rupees !== undefined) update.ai_budget_monthly_rupees = patch.monthly_rupees;
+  const { error } = await supabase.from("profiles").update(update).eq("user_id", userId);
+  if (error) throw new Error(`Failed to update AI budget: ${error.message}`);
+}
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateApiKey, hashApiKey, hasScope, isKeyUsable } from "./apiKeys.js";
+
+test("keys are prefixed, unique, and hashed deterministically", () => {
+  const a = generateApiKey();
+  const b = generateApiKey();
+  assert.match(a, /^mtw_[A-Za-z0-9_-]{32}$/);
+  assert.notEqual(a, b);
+  assert.equal(hashApiKey(a), hashApiKey(a));
+  assert.notEqual(hashApiKey(a), hashApiKey(b));
+  assert.ok(!hashApiKey(a).includes(a.slice(4)));
+});
+
+test("admin implies every scope; others grant only themselves", () => {
+  assert.ok(hasScope(["admin"], "mcp"));
+  assert.ok(hasScope(["ingest", "read"], "read"));
+  assert.ok(!hasScope(["ingest"], "review"));
+  assert.ok(!hasScope([], "read"));
+});
+
+test("revoked and expired keys are unusable", () => {
+  const now = Date.parse("2026-03-01T00:00:00Z");
+  assert.ok(isKeyUsable({ revoked_at: null, expires_at: null }, now));
+  assert.ok(isKeyUsable({ revoked_at: null, expires_at: "2026-03-02T00:00:00Z" }, now));
+  assert.ok(!isKeyUsable({ revoked_at: null, expires_at: "2026-02-28T23:59:59Z" }, now));
+  assert.ok(!isKeyUsable({ revoked_at: "2026-02-01T00:00:00Z", expires_at: null }, now));
+});
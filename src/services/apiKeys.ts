@@ -0,0 +1,183 @@
+import crypto from "crypto";
+import { supabase, getUserByApiKey, getUserById } from "./supabase.js";
+import type { User } from "../types/index.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("api-keys");
+
+/**
+ * Per-user API keys. Each key has a label, scopes, an optional expiry and
+ * can be revoked or rotated on its own, so the Shortcut, the MCP URL, the
+ * review scheduler and the web app no longer have to share one secret. Only
+ * the SHA-256 of a key is stored; the plaintext is shown once, at creation.
+ *
+ * The old single profiles.api_key keeps working with every scope until the
+ * user revokes it, so existing clients don't break on deploy.
+ */
+
+export const API_KEY_SCOPES = ["ingest", "review", "mcp", "read", "admin"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKey {
+  id: string;
+  label: string;
+  /** First characters of the key, to tell keys apart in a list. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface AuthContext {
+  user: User;
+  /** null for the legacy profiles.api_key. */
+  keyId: string | null;
+  scopes: ApiKeyScope[];
+}
+
+const COLUMNS = "id, label, prefix, scopes, expires_at, last_used_at, revoked_at, created_at";
+const KEY_PREFIX = "mtw_";
+// last_used_at is a hint, not an audit log: skip the write when fresher than this.
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export function generateApiKey(): string {
+  return `${KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/** "admin" implies every other scope. */
+export function hasScope(scopes: readonly ApiKeyScope[], needed: ApiKeyScope): boolean {
+  return scopes.includes("admin") || scopes.includes(needed);
+}
+
+export function isKeyUsable(key: Pick<ApiKey, "revoked_at" | "expires_at">, now: number = Date.now()): boolean {
+  if (key.revoked_at) return false;
+  return !key.expires_at || new Date(key.expires_at).getTime() > now;
+}
+
+/** Resolve a presented key to its user and scopes, or null. */
+export async function authenticateApiKey(rawKey: string): Promise<AuthContext | null> {
+  const key = rawKey.trim();
+  if (!key) return null;
+
+  if (!key.startsWith(KEY_PREFIX)) {
+    const user = await getUserByApiKey(key);
+    return user ? { user, keyId: null, scopes: ["admin"] } : null;
+  }
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select(`${COLUMNS}, user_id`)
+    .eq("key_hash", hashApiKey(key))
+    .maybeSingle();
+  if (error) {
+    log.error("Failed to look up API key", { error: error.message });
+    return null;
+  }
+  if (!data || !isKeyUsable(data)) return null;
+
+  const user = await getUserById(data.user_id);
+  if (!user) return null;
+
+  const lastUsed = data.last_used_at ? new Date(data.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+    void supabase
+      .from("api_keys")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", data.id)
+      .then(({ error: touchErr }) => {
+        if (touchErr) log.error("Failed to touch API key", { error: touchErr.message });
+      });
+  }
+  return { user, keyId: data.id, scopes: data.scopes as ApiKeyScope[] };
+}
+
+// ── Management (routes/keys.ts) ─────────────────────────────────────────────
+
+export interface NewApiKey {
+  /** The plaintext key. Not stored; shown only in this response. */
+  key: string;
+  api_key: ApiKey;
+}
+
+export async function createApiKey(
+  userId: string,
+  input: { label: string; scopes: ApiKeyScope[]; expires_at?: string | null },
+): Promise<NewApiKey> {
+  const key = generateApiKey();
+  const { data, error } = await supabase
+    .from("api_keys")
+    .insert({
+      user_id: userId,
+      label: input.label,
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      key_hash: hashApiKey(key),
+      scopes: [...new Set(input.scopes)],
+      expires_at: input.expires_at ?? null,
+    })
+    .select(COLUMNS)
+    .single();
+  if (error) throw new Error(`Failed to create API key: ${error.message}`);
+  return { key, api_key: data as ApiKey };
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select(COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(`Failed to list API keys: ${error.message}`);
+  return (data ?? []) as ApiKey[];
+}
+
+/** Returns false when the key isn't the user's or is already revoked. */
+export async function revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("id", keyId)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) throw new Error(`Failed to revoke API key: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Issue a replacement with the same label, scopes and expiry. The old key
+ * stops working after `graceHours` (immediately when 0), giving clients
+ * time to switch. Returns null for an unknown or unusable key.
+ */
+export async function rotateApiKey(userId: string, keyId: string, graceHours = 0): Promise<NewApiKey | null> {
+  const { data: old, error } = await supabase
+    .from("api_keys")
+    .select(COLUMNS)
+    .eq("user_id", userId)
+    .eq("id", keyId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load API key: ${error.message}`);
+  if (!old || !isKeyUsable(old)) return null;
+
+  const replacement = await createApiKey(userId, { label: old.label, scopes: old.scopes, expires_at: old.expires_at });
+
+  const retireAt = new Date(Date.now() + graceHours * 3600_000).toISOString();
+  const patch =
+    graceHours > 0
+      ? { expires_at: old.expires_at && old.expires_at < retireAt ? old.expires_at : retireAt }
+      : { revoked_at: new Date().toISOString() };
+  const { error: retireErr } = await supabase.from("api_keys").update(patch).eq("id", keyId);
+  if (retireErr) throw new Error(`Failed to retire rotated API key: ${retireErr.message}`);
+  return replacement;
+}
+
+/** Switch off the legacy profiles.api_key once every client has a scoped key. */
+export async function revokeLegacyApiKey(userId: string): Promise<void> {
+  const { error } = await supabase.from("profiles").update({ api_key: null }).eq("user_id", userId);
+  if (error) throw new Error(`Failed to revoke legacy API key: ${error.message}`);
+}
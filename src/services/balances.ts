@@ -0,0 +1,57 @@
+import { listBalanceSnapshots } from "./supabase.js";
+
+/**
+ * Latest known balance per account, folded from account_balance_snapshots.
+ * Bank alerts rarely carry every figure at once — a card spend shows the
+ * available limit, the statement SMS the total limit — so each field is the
+ * newest reading that had it, and utilisation combines the two.
+ */
+
+// Accounts silent for longer than this drop off the list.
+const LOOKBACK_DAYS = 180;
+
+export interface AccountBalance {
+  bank_name: string | null;
+  account_last4: string | null;
+  available_balance: number | null;
+  available_limit: number | null;
+  credit_limit: number | null;
+  /** Share of the credit limit in use (0–1), when both limits are known. */
+  utilisation: number | null;
+  /** When the newest reading for this account was taken. */
+  observed_at: string;
+}
+
+export async function getLatestBalances(userId: string): Promise<AccountBalance[]> {
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const snapshots = await listBalanceSnapshots(userId, since);
+
+  // Snapshots arrive newest first, so the first non-null per field wins.
+  const accounts = new Map<string, AccountBalance>();
+  for (const snap of snapshots) {
+    const key = `${(snap.bank_name ?? "").toLowerCase()}|${snap.account_last4 ?? ""}`;
+    let acc = accounts.get(key);
+    if (!acc) {
+      acc = {
+        bank_name: snap.bank_name,
+        account_last4: snap.account_last4,
+        available_balance: null,
+        available_limit: null,
+        credit_limit: null,
+        utilisation: null,
+        observed_at: snap.observed_at,
+      };
+      accounts.set(key, acc);
+    }
+    acc.available_balance ??= snap.available_balance;
+    acc.available_limit ??= snap.available_limit;
+    acc.credit_limit ??= snap.credit_limit;
+  }
+
+  return [...accounts.values()].map((acc) => {
+    const { available_limit: avail, credit_limit: limit } = acc;
+    if (avail === null || limit === null || limit <= 0) return acc;
+    const used = Math.min(Math.max((limit - avail) / limit, 0), 1);
+    return { ...acc, utilisation: Math.round(used * 1000) / 1000 };
+  });
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkByBudget, mapConcurrent } from "./batching.js";
+
+test("chunks respect both the item cap and the token budget", () => {
+  const items = [5, 5, 5, 5, 5, 5, 5];
+  assert.deepEqual(
+    chunkByBudget(items, 3, 1000, (n) => n).map((c) => c.length),
+    [3, 3, 1],
+  );
+  assert.deepEqual(
+    chunkByBudget([40, 40, 40, 10, 10], 10, 90, (n) => n),
+    [[40, 40], [40, 10, 10]],
+  );
+  // An oversized item is sent alone, never dropped.
+  assert.deepEqual(chunkByBudget([10, 500, 10], 10, 100, (n) => n), [[10], [500], [10]]);
+  assert.deepEqual(chunkByBudget([], 10, 100, (n: number) => n), []);
+});
+
+test("mapConcurrent bounds in-flight calls and isolates failures", async () => {
+  let inFlight = 0;
+  let peak = 0;
+  const results = await mapConcurrent([1, 2, 3, 4, 5, 6], 2, async (n) => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await new Promise((r) => setTimeout(r, 5));
+    inFlight--;
+    if (n === 3) throw new Error("chunk 3 failed");
+    return n * 10;
+  });
+  assert.equal(peak, 2);
+  assert.deepEqual(
+    results.map((r) => (r.status === "fulfilled" ? r.value : (r.reason as Error).message)),
+    [10, 20, "chunk 3 failed", 40, 50, 60],
+  );
+});
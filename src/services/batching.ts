@@ -0,0 +1,63 @@
+/**
+ * Helpers for splitting large AI batches. A first-time sync can carry
+ * thousands of messages; one prompt for all of them overruns the model's
+ * output limit and the tail of the batch comes back without verdicts.
+ */
+
+/** Rough token count for budgeting prompts: ~4 characters per token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split `items` into consecutive chunks of at most `maxItems` items and at
+ * most `maxTokens` estimated tokens. An item over the token budget on its
+ * own still gets a chunk of its own rather than being dropped.
+ */
+export function chunkByBudget<T>(
+  items: T[],
+  maxItems: number,
+  maxTokens: number,
+  tokensOf: (item: T) => number,
+): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let tokens = 0;
+  for (const item of items) {
+    const cost = tokensOf(item);
+    if (current.length > 0 && (current.length >= maxItems || tokens + cost > maxTokens)) {
+      chunks.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(item);
+    tokens += cost;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight. Results keep
+ * input order; a rejection is captured per item instead of aborting the rest.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      try {
+        results[i] = { status: "fulfilled", value: await fn(items[i], i) };
+      } catch (reason) {
+        results[i] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findBillForPayment, type Bill } from "./bills.js";
+
+const bill = (id: string, overrides: Partial<Bill> = {}): Bill => ({
+  id,
+  user_id: "u1",
+  bank_name: "HDFC Bank",
+  account_last4: "1234",
+  due_date: "2025-03-20",
+  total_due: 12000,
+  minimum_due: 600,
+  notice_at: "2025-03-01T10:00:00+05:30",
+  source: "ios_shortcut",
+  sms_id: 1,
+  status: "unpaid",
+  paid_at: null,
+  paid_amount: null,
+  reminders_sent: null,
+  ...overrides,
+});
+
+const payment = {
+  amount: 12000,
+  direction: "credit" as const,
+  bank_name: "HDFC Bank",
+  account_last4: "1234",
+  transacted_at: "2025-03-15T09:00:00+05:30",
+};
+
+test("a credit to the same card settles the oldest open bill", () => {
+  const bills = [bill("apr", { due_date: "2025-04-20" }), bill("mar")];
+  assert.equal(findBillForPayment(bills, payment)?.id, "mar");
+});
+
+test("debits, other cards, sub-minimum and out-of-window payments don't match", () => {
+  const bills = [bill("mar")];
+  assert.equal(findBillForPayment(bills, { ...payment, direction: "debit" }), null);
+  assert.equal(findBillForPayment(bills, { ...payment, account_last4: "9999" }), null);
+  assert.equal(findBillForPayment(bills, { ...payment, bank_name: "ICICI Bank" }), null);
+  assert.equal(findBillForPayment(bills, { ...payment, amount: 100 }), null);
+  assert.equal(findBillForPayment(bills, { ...payment, transacted_at: "2025-02-20T09:00:00+05:30" }), null);
+  assert.equal(findBillForPayment([bill("paid", { status: "paid" })], payment), null);
+});
+
+test("without a minimum due, a small refund leaves the bill open", () => {
+  const bills = [bill("mar", { minimum_due: null })];
+  const refund = { ...payment, amount: 20, raw_sms: "Rs 20.00 credited to HDFC Bank Card 1234 as cashback" };
+  assert.equal(findBillForPayment(bills, refund), null);
+  assert.equal(findBillForPayment(bills, { ...payment, amount: 11999.5 })?.id, "mar");
+
+  const partial = {
+    ...payment,
+    amount: 5000,
+    raw_sms: "Payment of Rs 5,000.00 received towards your HDFC Bank Credit Card 1234. Thank you.",
+  };
+  assert.equal(findBillForPayment(bills, partial)?.id, "mar");
+  const unknownDue = [bill("mar", { minimum_due: null, total_due: null })];
+  assert.equal(findBillForPayment(unknownDue, refund), null);
+  assert.equal(findBillForPayment(unknownDue, partial)?.id, "mar");
+});
@@ -0,0 +1,186 @@
+import { supabase, listUserTimeZones } from "./supabase.js";
+import { bankNamesCompatible, normalizeBankName } from "./deduplication.js";
+import { triggerBillReminderPush } from "./push.js";
+import { localDate, localParts, userTimeZone } from "./timezone.js";
+import type { TransactionInsert } from "../schemas/transaction.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("bills");
+
+/**
+ * Bills from card statement / payment-due / EMI reminder messages. Ingest
+ * stores one row per (bank, last4, due date) — the statement SMS, its email
+ * twin and the "due in 3 days" nudge all collapse onto it — and a later
+ * credit to the same card marks it paid. A periodic pass pushes reminders
+ * REMINDER_DAYS before the due date for bills still unpaid, from
+ * REMINDER_HOUR in each user's timezone.
+ */
+
+export interface BillInsert {
+  user_id: string;
+  bank_name: string | null;
+  account_last4: string | null;
+  /** YYYY-MM-DD */
+  due_date: string;
+  total_due: number | null;
+  minimum_due: number | null;
+  /** When the notice arrived. */
+  notice_at: string;
+  source: string;
+  sms_id: number;
+}
+
+export interface Bill extends BillInsert {
+  id: string;
+  status: "unpaid" | "paid";
+  paid_at: string | null;
+  paid_amount: number | null;
+  reminders_sent: number[] | null;
+}
+
+const BILL_COLUMNS =
+  "id, user_id, bank_name, account_last4, due_date, total_due, minimum_due, notice_at, source, sms_id, status, paid_at, paid_amount, reminders_sent";
+
+/** Days before the due date (0 = on the day) a reminder goes out. */
+const REMINDER_DAYS = [3, 1, 0];
+/** Local hour from which the day's reminder may be sent. */
+const REMINDER_HOUR = 9;
+
+// Payments landing this long after the due date still settle the bill.
+const LATE_PAYMENT_GRACE_DAYS = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function billKey(bill: Pick<BillInsert, "bank_name" | "account_last4" | "due_date">): string {
+  return `${normalizeBankName(bill.bank_name) ?? ""}|${(bill.account_last4 ?? "").trim()}|${bill.due_date}`;
+}
+
+/**
+ * Store bill notices. The first notice for a bill wins; repeats are ignored
+ * via the (user_id, bill_key) unique index.
+ */
+export async function upsertBills(bills: BillInsert[]): Promise<void> {
+  if (bills.length === 0) return;
+  const rows = bills.map((b) => ({ ...b, bill_key: billKey(b), status: "unpaid" }));
+  const { error } = await supabase
+    .from("bills")
+    .upsert(rows, { onConflict: "user_id,bill_key", ignoreDuplicates: true });
+  if (error) throw new Error(`Failed to store bills: ${error.message}`);
+}
+
+// "Payment of Rs 12,000 received towards your card", "Thank you for your payment".
+const PAYMENT_WORDING = /\b(?:re)?payment\b.{0,60}?\b(?:received|credited|successful|towards)\b|\bthank you for (?:your |the )?payment\b/i;
+
+/**
+ * Is `amount` enough to settle `bill`? At least the minimum due; without
+ * one, at least the total due — or, when the notice stated neither, or the
+ * credit falls short of the total, the SMS must say it is a card payment.
+ * Otherwise any refund or cashback to the card would close the bill.
+ */
+function paysBill(bill: Bill, amount: number, rawSms: string | undefined): boolean {
+  // Small rounding slack: people pay 4,999 on a 4,999.50 minimum.
+  if (bill.minimum_due !== null) return amount >= bill.minimum_due - 1;
+  if (bill.total_due !== null && amount >= bill.total_due - 1) return true;
+  return PAYMENT_WORDING.test(rawSms ?? "");
+}
+
+/**
+ * The unpaid bill a transaction pays, if any: a credit to the same card
+ * (last4 required, bank when both sides have one) that pays it (paysBill),
+ * between the notice and the grace period after the due date. The oldest
+ * matching bill is settled first.
+ */
+export function findBillForPayment(
+  bills: Bill[],
+  txn: Pick<TransactionInsert, "amount" | "direction" | "bank_name" | "account_last4" | "transacted_at"> &
+    Partial<Pick<TransactionInsert, "raw_sms">>,
+): Bill | null {
+  if (txn.direction !== "credit" || !txn.account_last4) return null;
+  const paidAt = new Date(txn.transacted_at).getTime();
+  const txnBank = normalizeBankName(txn.bank_name);
+
+  const candidates = bills.filter((b) => {
+    if (b.status !== "unpaid" || b.account_last4 !== txn.account_last4) return false;
+    const billBank = normalizeBankName(b.bank_name);
+    if (billBank && txnBank && !bankNamesCompatible(billBank, txnBank)) return false;
+    if (!paysBill(b, txn.amount, txn.raw_sms)) return false;
+    const noticeAt = new Date(b.notice_at).getTime() - DAY_MS;
+    // Due-date end in any timezone is within a day of UTC midnight; the
+    // grace period dwarfs that.
+    const deadline = new Date(`${b.due_date}T00:00:00Z`).getTime() + (LATE_PAYMENT_GRACE_DAYS + 1) * DAY_MS;
+    return paidAt >= noticeAt && paidAt <= deadline;
+  });
+  candidates.sort((a, b) => a.due_date.localeCompare(b.due_date));
+  return candidates[0] ?? null;
+}
+
+/** Mark bills settled by freshly ingested transactions. Returns how many. */
+export async function markBillsPaid(userId: string, transactions: TransactionInsert[]): Promise<number> {
+  const credits = transactions.filter((t) => t.direction === "credit" && t.account_last4);
+  if (credits.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("bills")
+    .select(BILL_COLUMNS)
+    .eq("user_id", userId)
+    .eq("status", "unpaid");
+  if (error) throw new Error(`Failed to load unpaid bills: ${error.message}`);
+  const open = (data ?? []) as Bill[];
+
+  let paid = 0;
+  for (const txn of credits) {
+    const bill = findBillForPayment(open, txn);
+    if (!bill) continue;
+    const { error: updateErr } = await supabase
+      .from("bills")
+      .update({ status: "paid", paid_at: txn.transacted_at, paid_amount: txn.amount, paid_sms_id: txn.sms_id })
+      .eq("id", bill.id);
+    if (updateErr) throw new Error(`Failed to mark bill paid: ${updateErr.message}`);
+    bill.status = "paid";
+    paid++;
+  }
+  return paid;
+}
+
+/**
+ * Push a reminder for every unpaid bill due in REMINDER_DAYS, once the
+ * user's local clock passes REMINDER_HOUR. Each offset is recorded in
+ * reminders_sent, so running this every few minutes is safe.
+ */
+export async function sendBillReminders(): Promise<number> {
+  const now = new Date();
+  // Widest possible window across timezones; filtered per user below.
+  const from = new Date(now.getTime() - DAY_MS).toISOString().slice(0, 10);
+  const to = new Date(now.getTime() + (Math.max(...REMINDER_DAYS) + 1) * DAY_MS).toISOString().slice(0, 10);
+
+  const { data, error } = await supabase
+    .from("bills")
+    .select(BILL_COLUMNS)
+    .eq("status", "unpaid")
+    .gte("due_date", from)
+    .lte("due_date", to);
+  if (error) throw new Error(`Failed to load due bills: ${error.message}`);
+  if (!data || data.length === 0) return 0;
+
+  const zones = new Map((await listUserTimeZones()).map((u) => [u.id, userTimeZone(u)]));
+
+  let sent = 0;
+  for (const bill of data as Bill[]) {
+    const timeZone = zones.get(bill.user_id) ?? userTimeZone(null);
+    if (localParts(now, timeZone).hour < REMINDER_HOUR) continue;
+    const today = localDate(now, timeZone);
+    const daysLeft = Math.round(
+      (new Date(`${bill.due_date}T00:00:00Z`).getTime() - new Date(`${today}T00:00:00Z`).getTime()) / DAY_MS
+    );
+    const already = bill.reminders_sent ?? [];
+    if (!REMINDER_DAYS.includes(daysLeft) || already.includes(daysLeft)) continue;
+
+    await triggerBillReminderPush({ ...bill, days_left: daysLeft });
+    const { error: updateErr } = await supabase
+      .from("bills")
+      .update({ reminders_sent: [...already, daysLeft] })
+      .eq("id", bill.id);
+    if (updateErr) log.error(`Failed to record reminder for ${bill.id}`, { error: updateErr.message });
+    sent++;
+  }
+  return sent;
+}
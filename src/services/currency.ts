@@ -3,6 +3,10 @@
  * Fetches real-time exchange rates and converts foreign currencies to INR
  */
 
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Currency");
+
 interface ExchangeRates {
   [currency: string]: number; // Rate to convert 1 unit of currency to INR
 }
@@ -52,12 +56,10 @@ async function fetchExchangeRates(): Promise<ExchangeRates> {
       }
     }
 
-    console.log(
-      `[Currency] Fetched rates - USD: ${rates.USD?.toFixed(2)}, EUR: ${rates.EUR?.toFixed(2)}`
-    );
+    log.info(`Fetched rates - USD: ${rates.USD?.toFixed(2)}, EUR: ${rates.EUR?.toFixed(2)}`);
     return rates;
   } catch (error) {
-    console.warn("[Currency] Failed to fetch rates, using fallback:", error);
+    log.warn("Failed to fetch rates, using fallback", { err: error });
     return FALLBACK_RATES;
   }
 }
@@ -94,9 +96,7 @@ export async function convertToINR(
   const rate = rates[currencyUpper] || FALLBACK_RATES[currencyUpper];
 
   if (!rate) {
-    console.warn(
-      `[Currency] Unknown currency: ${currency}, using 1:1 conversion`
-    );
+    log.warn(`Unknown currency: ${currency}, using 1:1 conversion`);
     return { amountINR: amount, rate: 1 };
   }
 
@@ -1,13 +1,9 @@
-import { google } from "@ai-sdk/google";
-import { groq } from "@ai-sdk/groq";
 import { generateObject } from "ai";
 import { z } from "zod";
+import { chainFor, type ChainEntry } from "./llm.js";
+import { createLogger } from "./logger.js";
 
-const ENRICH_MODEL = "gemini-2.5-flash";
-
-function resolveModel(id: string) {
-  return id.includes("/") ? groq(id) : google(id);
-}
+const log = createLogger("enrichment");
 
 export interface EnrichInput {
   id: string;
@@ -82,26 +78,40 @@ export async function enrichTransactions(
   inputs: EnrichInput[],
   categorySlugs: string[],
   vocabularyByCategory: Record<string, string[]> = {},
-  model: string = ENRICH_MODEL
-): Promise<{ results: EnrichmentResult[]; input: number; output: number; reasoning: number }> {
-  if (inputs.length === 0) return { results: [], input: 0, output: 0, reasoning: 0 };
+  chain: ChainEntry[] = chainFor("enrich")
+): Promise<{ results: EnrichmentResult[]; provider: string; model: string; input: number; output: number; reasoning: number }> {
+  if (inputs.length === 0) {
+    return { results: [], provider: chain[0].provider, model: chain[0].model, input: 0, output: 0, reasoning: 0 };
+  }
 
   const system = buildEnrichmentPrompt(categorySlugs, vocabularyByCategory);
   const prompt = `INPUT:\n\`\`\`json\n${JSON.stringify(inputs)}\n\`\`\``;
 
-  const res = await generateObject({
-    model: resolveModel(model),
-    system,
-    prompt,
-    schema: EnrichmentResultSchema,
-    temperature: 0,
-    maxRetries: 0, // never retry against a spend cap / 429 — one attempt, fail fast
-  });
-
-  return {
-    results: res.object.results,
-    input: res.usage?.inputTokens ?? 0,
-    output: res.usage?.outputTokens ?? 0,
-    reasoning: res.usage?.reasoningTokens ?? 0,
-  };
+  // One attempt per model: never retry against a spend cap / 429, just move
+  // down the chain (the default chain has a single model — fail fast).
+  for (const [i, entry] of chain.entries()) {
+    try {
+      const res = await generateObject({
+        model: entry.languageModel,
+        system,
+        prompt,
+        schema: EnrichmentResultSchema,
+        temperature: 0,
+        maxRetries: 0,
+      });
+      return {
+        results: res.object.results,
+        provider: entry.provider,
+        model: entry.model,
+        input: res.usage?.inputTokens ?? 0,
+        output: res.usage?.outputTokens ?? 0,
+        reasoning: res.usage?.reasoningTokens ?? 0,
+      };
+    } catch (err) {
+      const next = chain[i + 1];
+      if (!next) throw err;
+      log.warn(`Enrichment on ${entry.model} failed (${(err as Error).message}); falling back to ${next.model}`);
+    }
+  }
+  throw new Error("No models configured for enrich");
 }
@@ -2,26 +2,17 @@ import { createHash } from "node:crypto";
 import { supabase, insertSyncRun } from "./supabase.js";
 import { enrichTransactions, type EnrichInput } from "./enrichment.js";
 import type { ModelUsage } from "./ai.js";
+import { createLogger } from "./logger.js";
+import { enrichmentPassDuration, enrichmentSpend } from "./metrics.js";
+import { costRupees } from "./pricing.js";
+import { chainFor, modelEntry, usageKey } from "./llm.js";
 
-const INR_PER_USD = 95.2;
-export const PRICES_PER_M: Record<string, { input: number; output: number }> = {
-  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
-  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
-};
+const log = createLogger("enrichment");
 
 export function noteHash(note: string): string {
   return createHash("sha256").update(note.trim()).digest("hex");
 }
 
-export function costRupees(
-  model: string,
-  usage: { input: number; output: number; reasoning: number },
-): number {
-  const p = PRICES_PER_M[model];
-  if (!p) return 0;
-  return ((usage.input * p.input + (usage.output + usage.reasoning) * p.output) / 1_000_000) * INR_PER_USD;
-}
-
 export type PendingTxn = {
   id: string;
   user_id: string;
@@ -35,12 +26,14 @@ export type PendingTxn = {
  * Noted transactions that need enrichment: no txn_enrichment row yet, or the
  * note changed since it was enriched (note_hash mismatch).
  */
-export async function selectPendingEnrichment(limit: number): Promise<PendingTxn[]> {
-  const { data, error } = await supabase
+export async function selectPendingEnrichment(limit: number, userIds?: string[]): Promise<PendingTxn[]> {
+  let query = supabase
     .from("transactions")
     .select("id, user_id, notes, merchant, amount, transacted_at, categories(slug), txn_enrichment(note_hash)")
     .not("notes", "is", null)
-    .neq("notes", "")
+    .neq("notes", "");
+  if (userIds) query = query.in("user_id", userIds);
+  const { data, error } = await query
     .order("transacted_at", { ascending: false })
     .limit(5000);
   if (error) throw new Error(`enrichment selection failed: ${error.message}`);
@@ -94,25 +87,29 @@ let passRunning = false;
 export async function runEnrichmentPass(opts?: {
   limit?: number;
   batchSize?: number;
+  /** "provider:model" to use instead of the enrich chain. */
   model?: string;
   maxRupees?: number;
+  /** Only these users' transactions (the per-user nightly schedule). */
+  userIds?: string[];
 }): Promise<EnrichmentPassResult> {
   const limit = opts?.limit ?? 200;
   const batchSize = opts?.batchSize ?? 30;
-  const model = opts?.model ?? "gemini-2.5-flash";
+  const chain = opts?.model ? [modelEntry(opts.model)] : chainFor("enrich");
   const maxRupees = opts?.maxRupees ?? 5;
 
   if (passRunning) throw new Error("enrichment pass already running");
   passRunning = true;
+  const stopTimer = enrichmentPassDuration.startTimer();
   const startedAt = new Date();
-  const usage: ModelUsage = { [model]: { input: 0, output: 0, reasoning: 0 } };
+  const usage: ModelUsage = {};
   let enriched = 0;
   let batches = 0;
   let rupees = 0;
   let stoppedBySpend = false;
 
   try {
-    const pending = await selectPendingEnrichment(limit);
+    const pending = await selectPendingEnrichment(limit, opts?.userIds);
     if (pending.length === 0) {
       return { pending: 0, enriched: 0, batches: 0, usage, rupees: 0, stoppedBySpend: false };
     }
@@ -121,73 +118,95 @@ export async function runEnrichmentPass(opts?: {
     if (catErr) throw new Error(`categories load failed: ${catErr.message}`);
     const allSlugs = [...new Set((catRows ?? []).map((c) => c.slug as string))];
 
-    for (let i = 0; i < pending.length; i += batchSize) {
-      if (rupees >= maxRupees) {
-        stoppedBySpend = true;
-        console.warn(`[enrichment] spend ceiling ₹${maxRupees} hit after ${enriched} txns`);
-        break;
-      }
-      const batch = pending.slice(i, i + batchSize);
-      const vocab = await loadVocabulary([...new Set(batch.map((b) => b.category))]);
-      const inputs: EnrichInput[] = batch.map((b) => ({
-        id: b.id,
-        note: b.notes,
-        merchant: b.merchant,
-        amount: b.amount,
-        current_category: b.category,
-      }));
-
-      const res = await enrichTransactions(inputs, allSlugs, vocab, model);
-      usage[model].input += res.input;
-      usage[model].output += res.output;
-      usage[model].reasoning += res.reasoning;
-      rupees += costRupees(model, res);
-      batches++;
-
-      const byId = new Map(batch.map((b) => [b.id, b]));
-      const rows = res.results
-        .filter((r) => byId.has(r.id))
-        .map((r) => ({
-          transaction_id: r.id,
-          user_id: byId.get(r.id)!.user_id,
-          item_label: r.item_label,
-          lending: r.lending,
-          category_suggestion: r.category_suggestion,
-          service_identity: r.service_identity ?? null,
-          note_hash: noteHash(byId.get(r.id)!.notes),
-          model,
-          enriched_at: new Date().toISOString(),
+    // Batches stay within one user so each user's spend lands on their own
+    // sync_run, where their AI budget reads it.
+    const byUser = new Map<string, PendingTxn[]>();
+    for (const t of pending) (byUser.get(t.user_id) ?? byUser.set(t.user_id, []).get(t.user_id)!).push(t);
+
+    for (const [userId, txns] of byUser) {
+      if (stoppedBySpend) break;
+      const userUsage: ModelUsage = {};
+      let userEnriched = 0;
+      for (let i = 0; i < txns.length; i += batchSize) {
+        if (rupees >= maxRupees) {
+          stoppedBySpend = true;
+          log.warn(`Spend ceiling ₹${maxRupees} hit after ${enriched} txns`);
+          break;
+        }
+        const batch = txns.slice(i, i + batchSize);
+        const vocab = await loadVocabulary([...new Set(batch.map((b) => b.category))]);
+        const inputs: EnrichInput[] = batch.map((b) => ({
+          id: b.id,
+          note: b.notes,
+          merchant: b.merchant,
+          amount: b.amount,
+          current_category: b.category,
         }));
-      const { error } = await supabase.from("txn_enrichment").upsert(rows);
-      if (error) throw new Error(`enrichment upsert failed: ${error.message}`);
-      enriched += rows.length;
-    }
 
-    // Surface the run (and its true token cost, thinking included) in the
-    // existing sync-runs UI instead of a parallel bookkeeping table.
-    const completedAt = new Date();
-    await insertSyncRun({
-      userId: pending[0].user_id,
-      startedAt,
-      completedAt,
-      durationMs: completedAt.getTime() - startedAt.getTime(),
-      status: "success",
-      totalMessages: pending.length,
-      inserted: enriched,
-      skipped: pending.length - enriched,
-      errors: 0,
-      messages: [],
-      details: [],
-      source: "enrichment",
-      usage,
-    });
+        const res = await enrichTransactions(inputs, allSlugs, vocab, chain);
+        const { model } = res;
+        const key = usageKey(res);
+        for (const into of [usage, userUsage]) {
+          const u = (into[key] ??= { input: 0, output: 0, reasoning: 0 });
+          u.input += res.input;
+          u.output += res.output;
+          u.reasoning += res.reasoning;
+        }
+        const batchRupees = costRupees(key, res);
+        rupees += batchRupees;
+        enrichmentSpend.inc({ model }, batchRupees);
+        batches++;
+
+        const byId = new Map(batch.map((b) => [b.id, b]));
+        const rows = res.results
+          .filter((r) => byId.has(r.id))
+          .map((r) => ({
+            transaction_id: r.id,
+            user_id: userId,
+            item_label: r.item_label,
+            lending: r.lending,
+            category_suggestion: r.category_suggestion,
+            service_identity: r.service_identity ?? null,
+            note_hash: noteHash(byId.get(r.id)!.notes),
+            model,
+            enriched_at: new Date().toISOString(),
+          }));
+        const { error } = await supabase.from("txn_enrichment").upsert(rows);
+        if (error) throw new Error(`enrichment upsert failed: ${error.message}`);
+        enriched += rows.length;
+        userEnriched += rows.length;
+      }
+      if (Object.keys(userUsage).length === 0) continue;
+
+      // Surface the run (and its true token cost, thinking included) in the
+      // existing sync-runs UI instead of a parallel bookkeeping table.
+      const completedAt = new Date();
+      await insertSyncRun({
+        userId,
+        startedAt,
+        completedAt,
+        durationMs: completedAt.getTime() - startedAt.getTime(),
+        status: "success",
+        totalMessages: txns.length,
+        inserted: userEnriched,
+        skipped: txns.length - userEnriched,
+        errors: 0,
+        messages: [],
+        details: [],
+        source: "enrichment",
+        usage: userUsage,
+      });
+    }
 
-    console.log(
-      `[enrichment] pass done: ${enriched}/${pending.length} txns in ${batches} batches, ` +
-        `tokens in=${usage[model].input} out=${usage[model].output} think=${usage[model].reasoning}, ₹${rupees.toFixed(3)}`,
+    const tokens = Object.entries(usage)
+      .map(([model, u]) => `${model} in=${u.input} out=${u.output} think=${u.reasoning}`)
+      .join("; ");
+    log.info(
+      `Pass done: ${enriched}/${pending.length} txns in ${batches} batches, tokens ${tokens || "none"}, ₹${rupees.toFixed(3)}`,
     );
     return { pending: pending.length, enriched, batches, usage, rupees, stoppedBySpend };
   } finally {
     passRunning = false;
+    stopTimer();
   }
 }
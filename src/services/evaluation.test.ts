@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAndCategorize, type ParsedTransaction } from "./ai.js";
+import { LLM_TASKS, setLlmRegistry, type ChainEntry, type LlmModel, type LlmTask } from "./llm.js";
+import {
+  compareToBaseline,
+  emptyRecording,
+  recordChains,
+  replayChains,
+  scoreRun,
+  type EvalCase,
+} from "./evaluation.js";
+
+const cases: EvalCase[] = [
+  {
+    id: "a",
+    sender: "AD-HDFCBK",
+    body: "Rs.250 debited to VPA swiggy@icici",
+    timestamp: null,
+    expected: { is_transaction: true, amount: 250, direction: "debit", merchant: "Swiggy", category_slug: "food" },
+  },
+  { id: "b", sender: "AD-HDFCBK", body: "OTP 123456 for txn", timestamp: null, expected: { is_transaction: false } },
+  {
+    id: "c",
+    sender: "AD-HDFCBK",
+    body: "Rs.90 credited by NEFT",
+    timestamp: null,
+    expected: { is_transaction: true, amount: 90, direction: "credit" },
+  },
+];
+
+test("scores pass 1 outcomes and per-field accuracy, and flags regressions", () => {
+  const good = new Map<number, ParsedTransaction>([
+    [0, { sms_id: 0, is_transaction: true, amount: 250, direction: "debit", merchant: "swiggy@icici", category_slug: "food" }],
+    [1, { sms_id: 1, is_transaction: false }],
+    [2, { sms_id: 2, is_transaction: true, amount: 90, direction: "credit" }],
+  ]);
+  const baseline = scoreRun(cases, good, {}, 0);
+  assert.deepEqual(
+    { precision: baseline.pass1.precision, recall: baseline.pass1.recall },
+    { precision: 1, recall: 1 },
+  );
+  assert.deepEqual(baseline.fields.merchant, { scored: 1, correct: 1, accuracy: 1 });
+  assert.equal(baseline.fields.amount.scored, 2);
+
+  const worse = new Map(good);
+  worse.set(0, { ...good.get(0)!, amount: 2500 });
+  worse.delete(2); // chunk failed
+  const report = scoreRun(cases, worse, {}, 0);
+  assert.equal(report.pass1.failed, 1);
+  assert.equal(report.pass1.recall, 0.5);
+  const regressions = compareToBaseline(report, baseline);
+  assert.deepEqual(regressions.metrics, ["pass 1 recall 100.0% → 50.0%", "amount accuracy 100.0% → 0.0%"]);
+  assert.deepEqual(regressions.cases, ["a: amount now wrong", "c: pass 1 tp → failed"]);
+});
+
+test("recorded responses replay without calling the model", async () => {
+  let calls = 0;
+  const stub: LlmModel = {
+    specificationVersion: "v2",
+    provider: "stub",
+    modelId: "stub-1",
+    supportedUrls: {},
+    doGenerate: async () => {
+      calls++;
+      const verdicts = [{ sms_id: 1, is_transaction: false, skip_reason: "OTP" }];
+      return {
+        content: [{ type: "text", text: JSON.stringify(verdicts) }],
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        warnings: [],
+      };
+    },
+    doStream: async () => {
+      throw new Error("not used");
+    },
+  };
+  const entry: ChainEntry = { provider: "stub", model: "stub-1", languageModel: stub, arrayEnvelope: false };
+  const chains = Object.fromEntries(LLM_TASKS.map((t) => [t, [entry]])) as Record<LlmTask, ChainEntry[]>;
+  const messages = [{ id: 1, sender: cases[1].sender, body: cases[1].body, timestamp: null }];
+
+  const recording = emptyRecording();
+  setLlmRegistry({ providers: {}, chains: recordChains(chains, recording) });
+  const live = await parseAndCategorize(messages, []);
+  assert.equal(calls, 1);
+  assert.equal(Object.keys(recording.responses).length, 1);
+
+  setLlmRegistry({ providers: {}, chains: replayChains(JSON.parse(JSON.stringify(recording))) });
+  const replayed = await parseAndCategorize(messages, []);
+  assert.equal(calls, 1);
+  assert.deepEqual(replayed.parsed, live.parsed);
+  assert.deepEqual(replayed.usage, { "stub:stub-1": { input: 10, output: 5, reasoning: 0 } });
+});
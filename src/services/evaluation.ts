@@ -0,0 +1,287 @@
+import { createHash } from "node:crypto";
+import { wrapLanguageModel } from "ai";
+import type { ModelUsage, ParsedTransaction } from "./ai.js";
+import { LLM_TASKS, type ChainEntry, type LlmModel, type LlmTask } from "./llm.js";
+import { REVIEW_FIELDS, type ReviewField } from "../schemas/transaction.js";
+
+/**
+ * Offline evaluation of the two-pass AI flow (scripts/eval.ts). A corpus of
+ * labeled messages is run through parseAndCategorize, live or against
+ * recorded model responses, and scored: precision / recall for Pass 1,
+ * per-field accuracy for Pass 2, and token cost. A saved report serves as
+ * the baseline the next prompt change is compared against.
+ */
+
+// ── Corpus ──────────────────────────────────────────────────────────────────
+
+export interface EvalExpected {
+  is_transaction: boolean;
+  /** Fields left undefined are not scored; null means "the message has none". */
+  amount?: number | null;
+  direction?: "credit" | "debit" | null;
+  merchant?: string | null;
+  category_slug?: string | null;
+}
+
+export interface EvalCase {
+  /** Stable id, e.g. "<sync_run id>:<sms_id>". */
+  id: string;
+  sender: string;
+  body: string;
+  subject?: string;
+  timestamp: string | null;
+  expected: EvalExpected;
+}
+
+export interface EvalCorpus {
+  version: 1;
+  /** Category slugs offered to the extractor. */
+  categories: string[];
+  cases: EvalCase[];
+}
+
+// ── Scoring ─────────────────────────────────────────────────────────────────
+
+export type Pass1Outcome = "tp" | "fp" | "tn" | "fn" | "failed";
+
+export interface CaseResult {
+  id: string;
+  pass1: Pass1Outcome;
+  /** Per scored field, whether the extraction matched. Only for true positives. */
+  fields: Partial<Record<ReviewField, boolean>>;
+}
+
+export interface FieldScore {
+  scored: number;
+  correct: number;
+  accuracy: number;
+}
+
+export interface EvalReport {
+  cases: number;
+  pass1: { precision: number; recall: number; tp: number; fp: number; tn: number; fn: number; failed: number };
+  fields: Record<ReviewField, FieldScore>;
+  usage: ModelUsage;
+  rupees: number;
+  results: CaseResult[];
+}
+
+const ratio = (n: number, d: number) => (d === 0 ? 1 : n / d);
+
+const normalizeMerchant = (m: string) => m.toLowerCase().replace(/[^a-z0-9@]/g, "");
+
+/** Does the extracted value count as the expected one? */
+export function fieldMatches(field: ReviewField, expected: EvalExpected, actual: ParsedTransaction): boolean {
+  switch (field) {
+    case "amount":
+      return expected.amount == null
+        ? actual.amount == null
+        : actual.amount != null && Math.abs(actual.amount - expected.amount) < 0.005;
+    case "direction":
+      return (expected.direction ?? null) === (actual.direction ?? null);
+    case "merchant": {
+      // Users' merchant rules rename after extraction, so containment counts:
+      // "swiggy" matches "swiggy instamart".
+      const e = expected.merchant ? normalizeMerchant(expected.merchant) : "";
+      const a = actual.merchant ? normalizeMerchant(actual.merchant) : "";
+      if (!e || !a) return e === a;
+      return e === a || e.includes(a) || a.includes(e);
+    }
+    case "category":
+      return (expected.category_slug?.toLowerCase() ?? null) === (actual.category_slug?.toLowerCase() ?? null);
+  }
+}
+
+const EXPECTED_KEY: Record<ReviewField, keyof EvalExpected> = {
+  amount: "amount",
+  direction: "direction",
+  merchant: "merchant",
+  category: "category_slug",
+};
+
+/**
+ * Score one run. `parsed` maps case index → result; a missing index means
+ * its chunk failed on every model.
+ */
+export function scoreRun(
+  cases: EvalCase[],
+  parsed: Map<number, ParsedTransaction>,
+  usage: ModelUsage,
+  rupees: number,
+): EvalReport {
+  const counts = { tp: 0, fp: 0, tn: 0, fn: 0, failed: 0 };
+  const fields = Object.fromEntries(REVIEW_FIELDS.map((f) => [f, { scored: 0, correct: 0, accuracy: 1 }])) as Record<
+    ReviewField,
+    FieldScore
+  >;
+  let positives = 0;
+
+  const results = cases.map((c, i): CaseResult => {
+    if (c.expected.is_transaction) positives++;
+    const actual = parsed.get(i);
+    const outcome: Pass1Outcome = !actual
+      ? "failed"
+      : actual.is_transaction
+        ? c.expected.is_transaction ? "tp" : "fp"
+        : c.expected.is_transaction ? "fn" : "tn";
+    counts[outcome]++;
+
+    const result: CaseResult = { id: c.id, pass1: outcome, fields: {} };
+    if (outcome !== "tp") return result;
+    for (const field of REVIEW_FIELDS) {
+      if (c.expected[EXPECTED_KEY[field]] === undefined) continue;
+      const ok = fieldMatches(field, c.expected, actual!);
+      result.fields[field] = ok;
+      fields[field].scored++;
+      if (ok) fields[field].correct++;
+    }
+    return result;
+  });
+
+  for (const f of REVIEW_FIELDS) fields[f].accuracy = ratio(fields[f].correct, fields[f].scored);
+  return {
+    cases: cases.length,
+    pass1: {
+      precision: ratio(counts.tp, counts.tp + counts.fp),
+      recall: ratio(counts.tp, positives),
+      ...counts,
+    },
+    fields,
+    usage,
+    rupees,
+    results,
+  };
+}
+
+export interface Regressions {
+  /** Aggregate metrics that dropped by more than the tolerance. */
+  metrics: string[];
+  /** Cases the baseline got right and this run gets wrong. */
+  cases: string[];
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+export function compareToBaseline(report: EvalReport, baseline: EvalReport, tolerance = 0.01): Regressions {
+  const metrics: string[] = [];
+  const check = (name: string, now: number, before: number) => {
+    if (now < before - tolerance) metrics.push(`${name} ${pct(before)} → ${pct(now)}`);
+  };
+  check("pass 1 precision", report.pass1.precision, baseline.pass1.precision);
+  check("pass 1 recall", report.pass1.recall, baseline.pass1.recall);
+  for (const f of REVIEW_FIELDS) {
+    if (baseline.fields[f]?.scored > 0) check(`${f} accuracy`, report.fields[f].accuracy, baseline.fields[f].accuracy);
+  }
+
+  const cases: string[] = [];
+  const before = new Map(baseline.results.map((r) => [r.id, r]));
+  for (const r of report.results) {
+    const b = before.get(r.id);
+    if (!b) continue;
+    const wasRight = b.pass1 === "tp" || b.pass1 === "tn";
+    if (wasRight && r.pass1 !== b.pass1) {
+      cases.push(`${r.id}: pass 1 ${b.pass1} → ${r.pass1}`);
+      continue;
+    }
+    const broke = REVIEW_FIELDS.filter((f) => b.fields[f] === true && r.fields[f] === false);
+    if (broke.length > 0) cases.push(`${r.id}: ${broke.join(", ")} now wrong`);
+  }
+  return { metrics, cases };
+}
+
+export function formatReport(report: EvalReport): string {
+  const p = report.pass1;
+  const lines = [
+    `Cases: ${report.cases}`,
+    `Pass 1: precision ${pct(p.precision)}, recall ${pct(p.recall)} (tp ${p.tp}, fp ${p.fp}, tn ${p.tn}, fn ${p.fn}, failed ${p.failed})`,
+    "Pass 2 field accuracy:",
+    ...REVIEW_FIELDS.map((f) => {
+      const s = report.fields[f];
+      return `  ${f.padEnd(10)} ${pct(s.accuracy).padStart(6)} (${s.correct}/${s.scored})`;
+    }),
+    "Tokens:",
+    ...Object.entries(report.usage).map(
+      ([model, u]) => `  ${model}: in=${u.input} out=${u.output} think=${u.reasoning}`,
+    ),
+    `Cost: ₹${report.rupees.toFixed(3)}`,
+  ];
+  return lines.join("\n");
+}
+
+// ── Recorded responses ──────────────────────────────────────────────────────
+
+type CallOptions = Parameters<LlmModel["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<LlmModel["doGenerate"]>>;
+type RecordedResponse = Pick<GenerateResult, "content" | "finishReason" | "usage" | "warnings">;
+
+/**
+ * Model responses captured during a live run, keyed by model and prompt, so
+ * the same corpus can be re-scored offline (and in CI) without API calls.
+ * Any change to the prompts or the corpus misses the recording — re-record.
+ */
+export interface Recording {
+  version: 1;
+  chains: Partial<Record<LlmTask, Pick<ChainEntry, "provider" | "model" | "arrayEnvelope">[]>>;
+  responses: Record<string, RecordedResponse>;
+}
+
+export function emptyRecording(): Recording {
+  return { version: 1, chains: {}, responses: {} };
+}
+
+export function responseKey(modelId: string, params: CallOptions): string {
+  const material = JSON.stringify({ modelId, prompt: params.prompt, responseFormat: params.responseFormat });
+  return createHash("sha256").update(material).digest("hex");
+}
+
+/** Wrap every chain entry so its responses are saved into `recording`. */
+export function recordChains(
+  chains: Record<LlmTask, ChainEntry[]>,
+  recording: Recording,
+): Record<LlmTask, ChainEntry[]> {
+  const wrapped = {} as Record<LlmTask, ChainEntry[]>;
+  for (const task of LLM_TASKS) {
+    recording.chains[task] = chains[task].map(({ provider, model, arrayEnvelope }) => ({ provider, model, arrayEnvelope }));
+    wrapped[task] = chains[task].map((entry) => ({
+      ...entry,
+      languageModel: wrapLanguageModel({
+        model: entry.languageModel,
+        middleware: {
+          wrapGenerate: async ({ doGenerate, params }) => {
+            const result = await doGenerate();
+            const { content, finishReason, usage, warnings } = result;
+            recording.responses[responseKey(entry.model, params)] = { content, finishReason, usage, warnings };
+            return result;
+          },
+        },
+      }),
+    }));
+  }
+  return wrapped;
+}
+
+/** Chains that answer from `recording` only; a prompt it lacks fails the call. */
+export function replayChains(recording: Recording): Record<LlmTask, ChainEntry[]> {
+  const replayModel = (provider: string, modelId: string): LlmModel => ({
+    specificationVersion: "v2",
+    provider,
+    modelId,
+    supportedUrls: {},
+    doGenerate: async (params) => {
+      const hit = recording.responses[responseKey(modelId, params)];
+      if (!hit) throw new Error(`No recorded response for ${modelId}; re-record with --record`);
+      return structuredClone(hit);
+    },
+    doStream: async () => {
+      throw new Error("Recorded models do not stream");
+    },
+  });
+
+  const chains = {} as Record<LlmTask, ChainEntry[]>;
+  for (const task of LLM_TASKS) {
+    const entries = recording.chains[task];
+    if (!entries?.length) throw new Error(`Recording has no ${task} chain; re-record with --record`);
+    chains[task] = entries.map((e) => ({ ...e, languageModel: replayModel(e.provider, e.model) }));
+  }
+  return chains;
+}
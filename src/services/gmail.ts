@@ -3,6 +3,9 @@ import type { OAuth2Client } from "google-auth-library";
 import { OAuth2Client as PubsubVerifier } from "google-auth-library";
 import { env } from "../config/env.js";
 import { getGmailWatchState, updateGmailWatchState } from "./supabase.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Gmail");
 
 // Module-level caches. Both are safe to memoize for the process lifetime —
 // OAuth client is bound to env credentials, label ID is stable for the mailbox.
@@ -81,7 +84,7 @@ function base64UrlDecode(data: string): string {
 // Strips zero-width/combining marks, normalizes Unicode spaces to ASCII space.
 function stripInvisibleAndNormalizeSpaces(text: string): string {
   return text
-    .replace(/[\u00AD\u034F\u200B-\u200F\u2060\uFEFF]/g, "")
+    .replace(/[\u00AD\u200B-\u200F\u2060\uFEFF]|\u034F/g, "")
     .replace(/[\u00A0\u2000-\u200A\u202F\u205F\u3000]/g, " ");
 }
 
@@ -166,7 +169,7 @@ function extractPlainTextBody(payload: gmail_v1.Schema$MessagePart | null | unde
  */
 export async function verifyPubSubJWT(authHeader: string | undefined): Promise<boolean> {
   if (!env.gcpPubsubPushAudience) {
-    console.warn("[Gmail] GCP_PUBSUB_PUSH_AUDIENCE unset — skipping JWT verification (insecure)");
+    log.warn("GCP_PUBSUB_PUSH_AUDIENCE unset — skipping JWT verification (insecure)");
     return true;
   }
   if (!authHeader?.startsWith("Bearer ")) return false;
@@ -175,7 +178,7 @@ export async function verifyPubSubJWT(authHeader: string | undefined): Promise<b
     await pubsubVerifier.verifyIdToken({ idToken: token, audience: env.gcpPubsubPushAudience });
     return true;
   } catch (err) {
-    console.error("[Gmail] Pub/Sub JWT verification failed:", (err as Error).message);
+    log.error("Pub/Sub JWT verification failed", { err });
     return false;
   }
 }
@@ -269,7 +272,7 @@ export async function fetchNewMessagesSinceHistoryId(
       // The history record can include messages whose label was later removed.
       // Re-check current label membership before processing.
       if (!msg.labelIds?.includes(labelId)) {
-        console.log(`[Gmail] Skipping ${id} — label no longer present on message`);
+        log.info(`Skipping ${id} — label no longer present on message`);
         continue;
       }
 
@@ -285,7 +288,7 @@ export async function fetchNewMessagesSinceHistoryId(
 
       out.push({ gmailMessageId: id, sender: fromHeader, subject: subjectHeader, body, timestamp });
     } catch (err) {
-      console.error(`[Gmail] Failed to fetch/parse message ${id} — skipping:`, (err as Error).message);
+      log.error(`Failed to fetch/parse message ${id} — skipping`, { err });
     }
   }
 
@@ -1,14 +1,20 @@
+import { ingestLockDepth } from "./metrics.js";
+
 /**
  * Serialize ingest per user so parallel SMS + email batches don't race past
  * cross-channel dedup checks before either row is committed.
  */
 const userLocks = new Map<string, Promise<unknown>>();
 
+ingestLockDepth.set({}, 0);
+
 export function withUserIngestLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
   const prev = userLocks.get(userId) ?? Promise.resolve();
   const run = prev.catch(() => undefined).then(fn);
   userLocks.set(userId, run);
+  ingestLockDepth.inc();
   return run.finally(() => {
+    ingestLockDepth.dec();
     if (userLocks.get(userId) === run) {
       userLocks.delete(userId);
     }
@@ -0,0 +1,952 @@
+import crypto from "crypto";
+import { mergeUsage, parseAndCategorize, type ModelUsage } from "./ai.js";
+import {
+  getCategories,
+  insertTransactions,
+  insertSyncRun,
+  getUserMerchantMappings,
+  getGmailWatchState,
+  updateGmailWatchState,
+  findTransactionByReferenceId,
+  findCrossChannelDuplicate,
+  getBankAccountAliases,
+  getMerchantCategoryHistory,
+  findExistingSmsIds,
+  insertBalanceSnapshots,
+  type BalanceSnapshotInsert,
+} from "./supabase.js";
+import {
+  findInBatchCrossChannelDuplicate,
+  findInBatchReferenceIdDuplicate,
+  buildAliasResolver,
+  isAutomatedIngestSource,
+} from "./deduplication.js";
+import { withUserIngestLock } from "./ingest-lock.js";
+import { convertToINR, isForeignCurrency } from "./currency.js";
+import { cleanEmailBody, fetchNewMessagesSinceHistoryId, getLabelIdByName } from "./gmail.js";
+import { nullifyStringy, sanitizeErrorForStorage } from "./sanitize.js";
+import { categorizeTemplateHits, parseWithTemplates } from "./smsTemplates.js";
+import { buildRuleMatcher } from "./merchantRules.js";
+import { userTimeZone } from "./timezone.js";
+import { triggerPushNotification } from "./push.js";
+import { recordUsage, totalTokens } from "./quotas.js";
+import { emitWebhookEvent, emitWebhookEvents } from "./webhooks.js";
+import { markBillsPaid, upsertBills, type BillInsert } from "./bills.js";
+import {
+  buildSenderFilter,
+  getSenderRegistry,
+  recordSenderObservations,
+  senderKey,
+  type SenderObservation,
+} from "./senderRegistry.js";
+import type { ParsedTransactionResult, SMSMessage, User } from "../types/index.js";
+import { REVIEW_FIELDS, type ReviewField, type TransactionInsert } from "../schemas/transaction.js";
+import { env } from "../config/env.js";
+import { createLogger } from "./logger.js";
+import { currentBudget, notifyBudgetExceeded, type BudgetMode } from "./aiBudget.js";
+import { reviewIssues } from "./reviewRouting.js";
+import { dedupHits, gmailHistoryLag, ingestResults, messagesIngested } from "./metrics.js";
+
+export type IngestSource = "ios_shortcut" | "email";
+
+export interface RawIngestMessage {
+  /**
+   * Pre-assigned sms_id. Only set on replays of a stored sync_run, whose
+   * messages were already normalized — re-hashing would mint new ids when
+   * the original timestamp had been defaulted to "now".
+   */
+  id?: number;
+  sender: string;
+  body: string;
+  timestamp?: string;
+  /** Email subject — Pass 1 uses this instead of body when present. */
+  subject?: string;
+}
+
+export interface ProcessOptions {
+  /** Propagate failures instead of recording a failed sync_run (queue retries). */
+  rethrow?: boolean;
+  /** Id of the sync_run being replayed; the new run links back to it. */
+  replayOf?: string;
+}
+
+export type NormalizedMessage = SMSMessage & { timestamp: string };
+
+export interface IngestPlan {
+  /** Rows that survived parsing and both dedup layers. */
+  transactions: TransactionInsert[];
+  /** Balance / limit readings from the inserted rows' alerts. */
+  balances: BalanceSnapshotInsert[];
+  /** Bill notices (statements, due reminders) with a parsed due date. */
+  bills: BillInsert[];
+  /** Per-sender seen / transaction counts for the sender registry. */
+  senderStats: SenderObservation[];
+  /** One entry per message; status "inserted" means "would be inserted". */
+  details: ParsedTransactionResult[];
+  skipped: number;
+  /** Messages lost to an AI chunk that failed on both models. */
+  errors: number;
+  /** Messages that needed AI while the user was over budget; not parsed. */
+  deferred: NormalizedMessage[];
+  model: string;
+  usage: ModelUsage;
+}
+
+export interface IngestOutcome {
+  status: "success" | "partial" | "failed";
+  syncRunId: string | null;
+  /** Over the AI budget: messages for the queue to run again at `until`. */
+  deferred?: { messages: RawIngestMessage[]; until: Date };
+}
+
+const AI_BUDGET_DEFERRED = "Deferred: AI budget exceeded";
+
+/**
+ * Record a failed sync run for any post-auth failure. Always awaits so the row
+ * lands before the handler returns, and never throws (catches its own errors).
+ */
+export async function recordFailedSyncRun(params: {
+  userId: string;
+  startTime: number;
+  messages: SMSMessage[];
+  source: string;
+  error: unknown;
+  logPrefix: string;
+  replayOf?: string;
+}): Promise<{ syncRunId: string | null; errorMessage: string }> {
+  const log = createLogger(params.logPrefix);
+  const errorMessage = sanitizeErrorForStorage(params.error);
+  const smsIds = params.messages.map((m) => m.id);
+  const rowidRange =
+    smsIds.length > 0
+      ? { from: Math.min(...smsIds), to: Math.max(...smsIds) }
+      : undefined;
+
+  let syncRunId: string | null = null;
+  try {
+    const run = await insertSyncRun({
+      userId: params.userId,
+      startedAt: new Date(params.startTime),
+      completedAt: new Date(),
+      durationMs: Date.now() - params.startTime,
+      status: "failed",
+      totalMessages: params.messages.length,
+      inserted: 0,
+      skipped: 0,
+      errors: params.messages.length,
+      messages: params.messages,
+      details: [],
+      errorMessage,
+      source: params.source,
+      rowidRange,
+      replayOf: params.replayOf,
+    });
+    syncRunId = run.id;
+  } catch (err) {
+    log.error("Failed to record failed sync run", { err });
+  }
+
+  return { syncRunId, errorMessage };
+}
+
+/**
+ * Assign deterministic hash ids (sha256 of sender|body|timestamp) and default
+ * missing fields. Replayed messages keep the id they were stored with.
+ */
+export function normalizeMessages(rawMessages: RawIngestMessage[]): NormalizedMessage[] {
+  return rawMessages.map((msg) => {
+    const senderStr = msg.sender || "Unknown";
+    const bodyStr = msg.body || "";
+    const timestampStr = msg.timestamp || "";
+    const hashHex = crypto
+      .createHash("sha256")
+      .update(`${senderStr}|${bodyStr}|${timestampStr}`)
+      .digest("hex")
+      .substring(0, 13);
+    const numericId = parseInt(hashHex, 16);
+    return {
+      id: msg.id ?? numericId,
+      sender: senderStr,
+      body: bodyStr,
+      timestamp: msg.timestamp || new Date().toISOString(),
+      ...(msg.subject ? { subject: msg.subject } : {}),
+    };
+  });
+}
+
+/**
+ * Everything up to (but not including) the first write: template tier, AI
+ * parsing, merchant overrides, currency conversion and both dedup layers.
+ * Side-effect free, so /shortcut-ingest/preview can run it synchronously and
+ * show what a batch WOULD insert. Throws if AI parsing fails.
+ */
+export async function planIngest(
+  user: User,
+  normalizedMessages: NormalizedMessage[],
+  source: IngestSource,
+  logPrefix: string,
+  opts: { skipSmsIds?: Set<number>; budget?: BudgetMode } = {},
+): Promise<IngestPlan> {
+  const log = createLogger(logPrefix);
+  // Get categories and map for O(1) lookups
+  const categories = await getCategories(user.id);
+  const categoryMap = new Map(categories.map(c => [c.slug.toLowerCase(), c.id]));
+  const categoryDefMap = new Map(categories.map(c => [c.id, c]));
+
+  if (categories.length === 0) {
+    log.warn("No categories found, transactions will have null category");
+  }
+
+  // Get user merchant overrides (Phase 2 - Name map & default categorization/expense flags)
+  const userOverrides = await getUserMerchantMappings(user.id);
+
+  const aliasResolver = buildAliasResolver(await getBankAccountAliases(user.id));
+
+  const matchRule = buildRuleMatcher(userOverrides, logPrefix, userTimeZone(user));
+
+  const alreadyInserted = opts.skipSmsIds ?? new Set<number>();
+  const toParse = normalizedMessages.filter((m) => !alreadyInserted.has(m.id));
+
+  // Deterministic template tier first; only what it can't fully parse goes
+  // to the two-pass AI flow. tierById records which tier produced each
+  // result so sync_run details show the token savings.
+  const { matched: templateMatches, unmatched } = parseWithTemplates(toParse);
+  const tierById = new Map<number, string>();
+  for (const [smsId, hit] of templateMatches) tierById.set(smsId, `template:${hit.template}`);
+  if (templateMatches.size > 0) {
+    log.info(`Template tier parsed ${templateMatches.size}/${toParse.length} messages; ${unmatched.length} left`);
+  }
+
+  // Sender pre-filter: senders that never produce transactions skip Pass 1.
+  const isFilteredSender = buildSenderFilter(await getSenderRegistry(user.id));
+  const senderFiltered = new Set<number>();
+  const forAi = unmatched.filter((m) => {
+    if (!isFilteredSender(m)) return true;
+    senderFiltered.add(m.id);
+    return false;
+  });
+  if (senderFiltered.size > 0) {
+    log.info(`Sender filter skipped ${senderFiltered.size}/${unmatched.length} messages; ${forAi.length} go to AI`);
+  }
+
+  // Over the AI budget: what the template tier and sender filter couldn't
+  // settle waits for the budget reset instead of going to the model.
+  const deferredIds = new Set(opts.budget === "deferred" ? forAi.map((m) => m.id) : []);
+  const deferred = toParse.filter((m) => deferredIds.has(m.id));
+  const aiInput = opts.budget === "deferred" ? [] : forAi;
+  if (deferred.length > 0) {
+    log.warn(`AI budget exceeded; deferring ${deferred.length} message(s)`);
+  }
+
+  // Template rows don't say what was bought: categorize them from the
+  // user's history with each merchant, then a cheap category-only pass.
+  const templateParsed = [...templateMatches.values()].map((hit) => hit.parsed);
+  const templateMerchants = [
+    ...new Set(templateParsed.flatMap((p) => (p.merchant ? [p.merchant.toLowerCase().trim()] : []))),
+  ];
+  const knownCategories = new Map<string, string>();
+  for (const [merchant, categoryId] of await getMerchantCategoryHistory(user.id, templateMerchants)) {
+    const slug = categoryDefMap.get(categoryId)?.slug;
+    if (slug) knownCategories.set(merchant, slug);
+  }
+  const categorized = await categorizeTemplateHits(
+    templateParsed,
+    knownCategories,
+    categories,
+    opts.budget !== "deferred",
+  );
+
+  // Parse and categorize with AI
+  let parsed = categorized.parsed;
+  let aiModelUsed = aiInput.length > 0 ? "unknown" : "template";
+  const aiUsage: ModelUsage = { ...categorized.usage };
+  let aiFailed = new Set<number>();
+  try {
+    if (aiInput.length > 0) {
+      const aiResult = await parseAndCategorize(aiInput, categories, { economy: opts.budget === "economy" });
+      parsed = parsed.concat(aiResult.parsed);
+      aiModelUsed = aiResult.model;
+      mergeUsage(aiUsage, aiResult.usage);
+      aiFailed = new Set(aiResult.failedSmsIds);
+    }
+  } catch (error) {
+    log.error("AI parsing failed", { err: error });
+    throw error;
+  }
+
+  // Build a lookup map from sms_id → parsed result
+  const parsedMap = new Map(parsed.map((p) => [p.sms_id, p]));
+
+  // Per-sender outcomes feed the registry's learned stats (commit phase).
+  const senderStats = new Map<string, SenderObservation>();
+  for (const msg of toParse) {
+    if (msg.subject || senderFiltered.has(msg.id)) continue;
+    const result = parsedMap.get(msg.id);
+    if (!result) continue;
+    const key = senderKey(msg.sender);
+    const stat = senderStats.get(key) ?? { sender_key: key, seen: 0, transactions: 0 };
+    stat.seen++;
+    if (result.is_transaction) stat.transactions++;
+    senderStats.set(key, stat);
+  }
+
+  // Process each parsed result
+  const transactionsToInsert: TransactionInsert[] = [];
+  const balances: BalanceSnapshotInsert[] = [];
+  const bills: BillInsert[] = [];
+  let skipped = 0;
+  let errors = 0;
+  const details: ParsedTransactionResult[] = [];
+
+  for (const msg of normalizedMessages) {
+    const txn = parsedMap.get(msg.id);
+    const tier = tierById.get(msg.id) ?? aiModelUsed;
+
+    if (alreadyInserted.has(msg.id)) {
+      skipped++;
+      details.push({
+        sms_id: msg.id,
+        status: "skipped",
+        reason: "Already inserted (replay)",
+      });
+      continue;
+    }
+
+    if (senderFiltered.has(msg.id)) {
+      skipped++;
+      details.push({
+        sms_id: msg.id,
+        status: "skipped",
+        ai_model: "sender_filter",
+        reason: "sender filtered",
+      });
+      continue;
+    }
+
+    if (deferredIds.has(msg.id)) {
+      skipped++;
+      details.push({
+        sms_id: msg.id,
+        status: "skipped",
+        ai_model: "deferred",
+        reason: AI_BUDGET_DEFERRED,
+      });
+      continue;
+    }
+
+    if (aiFailed.has(msg.id)) {
+      errors++;
+      details.push({
+        sms_id: msg.id,
+        status: "error",
+        ai_model: tier,
+        reason: "AI call failed for this message's chunk; replay the run to retry",
+      });
+      continue;
+    }
+
+    // Handle case where AI didn't return result for this message
+    if (!txn) {
+      skipped++;
+      details.push({
+        sms_id: msg.id,
+        status: "skipped",
+        ai_model: tier,
+        reason: "No AI result for this message",
+      });
+      continue;
+    }
+
+    // Skip non-transactions; bill notices with a due date become bills
+    if (!txn.is_transaction) {
+      if (txn.bill?.due_date && /^\d{4}-\d{2}-\d{2}$/.test(txn.bill.due_date)) {
+        const account = aliasResolver(nullifyStringy(txn.bill.bank_name), nullifyStringy(txn.bill.account_last4));
+        bills.push({
+          user_id: user.id,
+          bank_name: account.bank,
+          account_last4: account.last4,
+          due_date: txn.bill.due_date,
+          total_due: txn.bill.total_due,
+          minimum_due: txn.bill.minimum_due,
+          notice_at: msg.timestamp,
+          source,
+          sms_id: msg.id,
+        });
+      }
+      skipped++;
+      details.push({
+        sms_id: msg.id,
+        status: "skipped",
+        ai_model: tier,
+        reason: txn.skip_reason || "Not a transaction",
+      });
+      continue;
+    }
+
+    // Validate required fields for transactions
+    if (!txn.amount || !txn.direction) {
+      skipped++;
+      details.push({
+        sms_id: msg.id,
+        status: "skipped",
+        ai_model: tier,
+        reason: "Missing amount or direction",
+      });
+      continue;
+    }
+
+    // Handle currency conversion
+    const currency = txn.currency || "INR";
+    let amountINR = txn.amount;
+    let originalAmount: number | null = null;
+    let originalCurrency: string | null = null;
+
+    if (isForeignCurrency(currency)) {
+      const conversion = await convertToINR(txn.amount, currency);
+      amountINR = conversion.amountINR;
+      originalAmount = txn.amount;
+      originalCurrency = currency.toUpperCase();
+      log.info(`Converted ${originalCurrency} ${originalAmount} → ₹${amountINR} (rate: ${conversion.rate})`);
+    }
+
+    // Apply User Merchant Overrides
+    let finalMerchant = txn.merchant || null;
+    let finalCategoryId = txn.category_slug ? categoryMap.get(txn.category_slug.toLowerCase()) || null : null;
+
+    let overriddenIsExpense: boolean | null = null;
+    let overriddenIsIncome: boolean | null = null;
+    let mappingApplied = false;
+
+    const ruleHit = matchRule({
+      merchant: finalMerchant,
+      amount: amountINR,
+      direction: txn.direction,
+      sender: msg.sender,
+      bank_name: txn.bank_name,
+      account_last4: txn.account_last4,
+      transacted_at: msg.timestamp,
+    });
+
+    if (ruleHit) {
+      log.info(`[Override] Rule ${ruleHit.rule.id} matched "${finalMerchant}" → "${ruleHit.merchant}"`);
+      mappingApplied = Boolean(ruleHit.rule.mapped_merchant?.trim());
+      finalMerchant = ruleHit.merchant;
+
+      if (ruleHit.category_id) {
+        finalCategoryId = ruleHit.category_id;
+      }
+      overriddenIsExpense = ruleHit.is_expense;
+      overriddenIsIncome = ruleHit.is_income;
+    }
+
+    if (!mappingApplied && finalMerchant) {
+      finalMerchant = finalMerchant.toLowerCase().trim();
+    }
+
+    // Deterministic is_expense / is_income rules
+    let is_expense = txn.direction === "debit";
+    let is_income = txn.direction === "credit";
+
+    const finalCategoryDef = finalCategoryId ? categoryDefMap.get(finalCategoryId) : null;
+    const finalCategorySlug = finalCategoryDef?.slug || txn.category_slug;
+
+    if (finalCategorySlug) {
+      if (["investment", "self-transfer"].includes(finalCategorySlug)) {
+        is_expense = false;
+      }
+      if (["self-transfer"].includes(finalCategorySlug)) {
+        is_income = false;
+      }
+    }
+
+    // Apply strict User Overrides for expense/income if they exist
+    if (overriddenIsExpense !== null) is_expense = overriddenIsExpense;
+    if (overriddenIsIncome !== null) is_income = overriddenIsIncome;
+
+    // Only rows with a low-confidence or inconsistent field go to review.
+    const ruleFields: ReviewField[] = [];
+    if (mappingApplied) ruleFields.push("merchant");
+    if (ruleHit?.category_id) ruleFields.push("category");
+    const issues = reviewIssues({
+      body: msg.body,
+      amount: txn.amount,
+      direction: txn.direction,
+      merchant: nullifyStringy(txn.merchant),
+      account_last4: nullifyStringy(txn.account_last4),
+      available_balance: txn.available_balance,
+      available_limit: txn.available_limit,
+      category_id: finalCategoryId,
+      confidence: txn.confidence,
+      ruleFields,
+    });
+    const reviewFields = REVIEW_FIELDS.filter((f) => issues[f]);
+    if (reviewFields.length > 0) {
+      log.debug(`Review flags for sms ${msg.id}`, { issues });
+    }
+
+    // Prepare transaction for insert
+    const cleanedMerchant = nullifyStringy(finalMerchant);
+    const transactionData: TransactionInsert = {
+      user_id: user.id,
+      amount: amountINR,
+      direction: txn.direction,
+      transacted_at: msg.timestamp,
+      merchant: cleanedMerchant,
+      account_last4: nullifyStringy(txn.account_last4),
+      bank_name: nullifyStringy(txn.bank_name),
+      reference_id: nullifyStringy(txn.reference_id),
+      raw_sms: msg.body,
+      sms_id: msg.id,
+      sms_sender: msg.sender,
+      source,
+      category_id: finalCategoryId,
+      original_amount: originalAmount,
+      original_currency: originalCurrency,
+      is_expense,
+      is_income,
+      needs_review: (user.enable_review_mode ?? true) && reviewFields.length > 0,
+      review_fields: reviewFields.length > 0 ? reviewFields : null,
+    };
+
+    const parsedSummary = {
+      amount: txn.amount,
+      direction: txn.direction,
+      merchant: nullifyStringy(txn.merchant),
+      category: nullifyStringy(txn.category_slug),
+    };
+
+    // Layer 1: strong key (reference_id)
+    if (transactionData.reference_id) {
+      if (findInBatchReferenceIdDuplicate(transactionData.reference_id, transactionData.direction, transactionsToInsert)) {
+        skipped++;
+        details.push({
+          sms_id: msg.id,
+          status: "skipped",
+          ai_model: tier,
+          reason: "Duplicate reference_id (same batch)",
+          transaction: parsedSummary,
+        });
+        continue;
+      }
+
+      const existingRef = await findTransactionByReferenceId(
+        user.id,
+        transactionData.reference_id,
+        transactionData.direction,
+      );
+      if (existingRef) {
+        skipped++;
+        details.push({
+          sms_id: msg.id,
+          status: "skipped",
+          ai_model: tier,
+          reason: "Duplicate reference_id",
+          transaction: parsedSummary,
+        });
+        continue;
+      }
+    }
+
+    // Layer 2a: cross-channel soft fingerprint (phone ↔ email, 30 min).
+    // No last4/bank gate — the fingerprint also merges wallet rows (no last4) on
+    // matching merchant + bank, so gate only on the source being automated ingest.
+    if (isAutomatedIngestSource(transactionData.source)) {
+      if (findInBatchCrossChannelDuplicate(transactionData, transactionsToInsert, aliasResolver)) {
+        skipped++;
+        details.push({
+          sms_id: msg.id,
+          status: "skipped",
+          ai_model: tier,
+          reason: "Cross-channel duplicate (same batch)",
+          transaction: parsedSummary,
+        });
+        continue;
+      }
+
+      const crossChannel = await findCrossChannelDuplicate(user.id, transactionData, aliasResolver);
+      if (crossChannel) {
+        skipped++;
+        details.push({
+          sms_id: msg.id,
+          status: "skipped",
+          ai_model: tier,
+          reason: "Cross-channel duplicate (phone/email)",
+          transaction: parsedSummary,
+        });
+        continue;
+      }
+    }
+
+    transactionsToInsert.push(transactionData);
+
+    // Balances are only trusted in INR; keyed by the alias-resolved account
+    // so an SMS and an email for the same card land on one series.
+    const hasBalance =
+      txn.available_balance != null || txn.available_limit != null || txn.credit_limit != null;
+    if (hasBalance && !isForeignCurrency(currency)) {
+      const account = aliasResolver(transactionData.bank_name, transactionData.account_last4);
+      balances.push({
+        user_id: user.id,
+        bank_name: account.bank,
+        account_last4: account.last4,
+        available_balance: txn.available_balance ?? null,
+        available_limit: txn.available_limit ?? null,
+        credit_limit: txn.credit_limit ?? null,
+        observed_at: msg.timestamp,
+        source,
+        sms_id: msg.id,
+      });
+    }
+
+    details.push({
+      sms_id: msg.id,
+      status: "inserted",
+      ai_model: tier,
+      transaction: parsedSummary,
+      ...(reviewFields.length > 0 ? { review_fields: reviewFields } : {}),
+    });
+  }
+
+  return {
+    transactions: transactionsToInsert,
+    balances,
+    bills,
+    senderStats: [...senderStats.values()],
+    details,
+    skipped,
+    errors,
+    deferred,
+    model: aiModelUsed,
+    usage: aiUsage,
+  };
+}
+
+// Fixed planIngest skip reasons → metric labels. Anything else is a
+// classifier verdict (free text), counted as not_transaction.
+const SKIP_REASON_LABELS: Record<string, string> = {
+  "Already inserted (replay)": "already_inserted",
+  "sender filtered": "sender_filtered",
+  "No AI result for this message": "no_ai_result",
+  "Missing amount or direction": "missing_fields",
+  "Bill notice": "bill_notice",
+  [AI_BUDGET_DEFERRED]: "ai_budget_deferred",
+  "Duplicate reference_id (same batch)": "duplicate",
+  "Duplicate reference_id": "duplicate",
+  "Cross-channel duplicate (same batch)": "duplicate",
+  "Cross-channel duplicate (phone/email)": "duplicate",
+};
+
+const DEDUP_LAYERS: Record<string, string> = {
+  "Duplicate reference_id (same batch)": "reference_id_batch",
+  "Duplicate reference_id": "reference_id",
+  "Cross-channel duplicate (same batch)": "cross_channel_batch",
+  "Cross-channel duplicate (phone/email)": "cross_channel",
+};
+
+/** Count a committed batch's outcomes. `inserted` is what the bulk insert actually wrote. */
+function recordIngestMetrics(
+  source: IngestSource,
+  details: ParsedTransactionResult[],
+  inserted: number,
+  insertErrors: number,
+) {
+  messagesIngested.inc({ source }, details.length);
+  ingestResults.inc({ source, status: "inserted" }, inserted);
+  ingestResults.inc({ source, status: "error", reason: "insert_failed" }, insertErrors);
+  for (const d of details) {
+    if (d.status === "error") {
+      ingestResults.inc({ source, status: "error", reason: "ai_failed" });
+    } else if (d.status === "skipped") {
+      const reason = d.reason ?? "";
+      ingestResults.inc({ source, status: "skipped", reason: SKIP_REASON_LABELS[reason] ?? "not_transaction" });
+      if (DEDUP_LAYERS[reason]) dedupHits.inc({ layer: DEDUP_LAYERS[reason] });
+    }
+  }
+}
+
+/**
+ * Background processor behind every ingest job (Shortcut batches and Gmail
+ * history fetches).
+ * Takes raw messages (without ids), assigns deterministic hash ids, runs the
+ * template tier then AI parsing for the rest + merchant overrides + currency
+ * conversion, bulk-inserts, records a sync_run, and triggers a push
+ * notification. By default never throws — failures are recorded as failed
+ * sync_runs and surfaced via push. With `rethrow`, failures propagate instead
+ * (nothing recorded) so the job queue can retry the batch with backoff.
+ */
+export async function processMessagesInBackground(
+  user: User,
+  rawMessages: RawIngestMessage[],
+  source: IngestSource,
+  startTime: number,
+  logPrefix: string,
+  opts: ProcessOptions = {},
+): Promise<IngestOutcome> {
+  return withUserIngestLock(user.id, () =>
+    processMessagesInBackgroundUnlocked(user, rawMessages, source, startTime, logPrefix, opts),
+  );
+}
+
+export async function processMessagesInBackgroundUnlocked(
+  user: User,
+  rawMessages: RawIngestMessage[],
+  source: IngestSource,
+  startTime: number,
+  logPrefix: string,
+  opts: ProcessOptions = {},
+): Promise<IngestOutcome> {
+  const log = createLogger(logPrefix);
+  let normalizedMessages: NormalizedMessage[] = [];
+  try {
+    log.info(`User ${user.id.substring(0, 8)}... - ${rawMessages.length} messages`);
+
+    // Normalize up-front so any downstream error can still record a sync_run with the batch
+    normalizedMessages = normalizeMessages(rawMessages);
+
+    // Replays skip whatever the original run (or an earlier replay) already
+    // inserted, by sms_id, before spending any tokens on it.
+    const skipSmsIds = opts.replayOf
+      ? await findExistingSmsIds(user.id, normalizedMessages.map((m) => m.id))
+      : undefined;
+
+    const budget = await currentBudget(user);
+    const plan = await planIngest(user, normalizedMessages, source, logPrefix, { skipSmsIds, budget: budget?.mode });
+    const { details, skipped } = plan;
+    void recordUsage(user, { ai_tokens: totalTokens(plan.usage) });
+
+    // Perform bulk insert
+    let inserted = 0;
+    let errors = plan.errors;
+    let insertedRows: { id: string; sms_id: number }[] = [];
+    if (plan.transactions.length > 0) {
+      const bulkResult = await insertTransactions(plan.transactions);
+      inserted = bulkResult.inserted;
+      errors += bulkResult.errors;
+      insertedRows = bulkResult.rows;
+    }
+    recordIngestMetrics(source, details, inserted, errors - plan.errors);
+
+    // A lost balance reading or bill isn't worth failing (and re-parsing) the batch.
+    try {
+      await insertBalanceSnapshots(plan.balances);
+    } catch (err) {
+      log.error("Failed to store balance snapshots", { err });
+    }
+    try {
+      await upsertBills(plan.bills);
+      const paid = await markBillsPaid(user.id, plan.transactions);
+      if (paid > 0) log.info(`Marked ${paid} bill(s) paid`);
+    } catch (err) {
+      log.error("Failed to update bills", { err });
+    }
+    try {
+      await recordSenderObservations(user.id, plan.senderStats);
+    } catch (err) {
+      log.error("Failed to update sender registry", { err });
+    }
+
+    const completedAt = new Date();
+    const duration = Date.now() - startTime;
+    log.info(`Completed in ${duration}ms - inserted: ${inserted}, skipped: ${skipped}, errors: ${errors}`);
+
+    // Determine run status
+    const runStatus = errors > 0 && inserted === 0
+      ? "failed"
+      : errors > 0
+        ? "partial"
+        : "success";
+
+    // Calculate ROWID range
+    const smsIds = normalizedMessages.map((m) => m.id);
+    const rowidRange = smsIds.length > 0
+      ? { from: Math.min(...smsIds), to: Math.max(...smsIds) }
+      : undefined;
+
+    // Record sync run in database
+    const syncRun = await insertSyncRun({
+      userId: user.id,
+      startedAt: new Date(startTime),
+      completedAt,
+      durationMs: duration,
+      status: runStatus,
+      totalMessages: normalizedMessages.length,
+      inserted,
+      skipped,
+      errors,
+      messages: normalizedMessages,
+      details,
+      source,
+      rowidRange,
+      usage: plan.usage,
+      replayOf: opts.replayOf,
+    }).catch((err) => {
+      log.error("Failed to record sync run", { err });
+      return { id: null };
+    });
+
+    // The raw message stays out of webhook payloads (OTPs, balances).
+    const idBySmsId = new Map(insertedRows.map((r) => [r.sms_id, r.id]));
+    void emitWebhookEvents(
+      user.id,
+      "transaction.inserted",
+      plan.transactions
+        .filter((t) => idBySmsId.has(t.sms_id))
+        .map(({ raw_sms: _raw, ...t }) => ({ id: idBySmsId.get(t.sms_id), ...t, sync_run_id: syncRun.id })),
+    );
+    if (runStatus === "failed") {
+      void emitWebhookEvent(user.id, "sync_run.failed", {
+        sync_run_id: syncRun.id,
+        source,
+        total_messages: normalizedMessages.length,
+        errors,
+      });
+    }
+
+    // Trigger push notification directly (bypass broken DB webhook)
+    void triggerPushNotification({
+      user_id: user.id,
+      status: runStatus,
+      inserted,
+      skipped,
+      errors,
+      total_messages: normalizedMessages.length,
+      transactions: details
+        .filter(d => d.status === "inserted" && d.transaction)
+        .map(d => ({ amount: d.transaction!.amount, direction: d.transaction!.direction, merchant: d.transaction!.merchant })),
+    });
+
+    if (plan.deferred.length > 0 && budget?.resumeAt) {
+      void notifyBudgetExceeded(user, budget, plan.deferred.length);
+      return {
+        status: runStatus,
+        syncRunId: syncRun.id,
+        deferred: { messages: plan.deferred, until: budget.resumeAt },
+      };
+    }
+    return { status: runStatus, syncRunId: syncRun.id };
+  } catch (error) {
+    log.error("Background processing error", { err: error });
+    if (opts.rethrow) throw error;
+    const failed = await recordFailedSyncRun({
+      userId: user.id,
+      startTime,
+      messages: normalizedMessages,
+      source,
+      error,
+      logPrefix,
+      replayOf: opts.replayOf,
+    });
+    void triggerPushNotification({
+      user_id: user.id,
+      status: "failed",
+      inserted: 0,
+      skipped: 0,
+      errors: normalizedMessages.length,
+      total_messages: normalizedMessages.length,
+    });
+    void emitWebhookEvent(user.id, "sync_run.failed", {
+      sync_run_id: failed.syncRunId,
+      source,
+      total_messages: normalizedMessages.length,
+      errors: normalizedMessages.length,
+      error: failed.errorMessage,
+    });
+    return { status: "failed", syncRunId: failed.syncRunId };
+  }
+}
+
+// BigInt compare — Gmail historyIds can exceed Number.MAX_SAFE_INTEGER.
+function maxHistoryId(a: string, b: string | null): string {
+  if (!b) return a;
+  try {
+    return BigInt(a) >= BigInt(b) ? a : b;
+  } catch {
+    return a;
+  }
+}
+
+/** How far `to` is ahead of `from`, in historyIds; 0 when behind or unparseable. */
+function historyIdGap(from: string, to: string): number {
+  try {
+    const gap = BigInt(to) - BigInt(from);
+    return gap > 0n ? Number(gap) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Gmail side of an ingest job: read cursor → history.list → fetch → process →
+ * advance cursor. The lock must span the whole sequence so concurrent
+ * notifications don't both read the same stale cursor and double-process.
+ * Calls the *Unlocked* processor inside — withUserIngestLock is non-reentrant
+ * and nesting it for the same user deadlocks.
+ *
+ * Transient history.list failures throw so the job queue retries with the
+ * cursor untouched; with `rethrow`, processing failures do the same.
+ */
+export async function processGmailNotification(
+  user: User,
+  notifHistoryId: string,
+  startTime: number,
+  opts: ProcessOptions = {},
+): Promise<IngestOutcome | null> {
+  const log = createLogger("Pub/Sub");
+  return withUserIngestLock(user.id, async () => {
+    const state = await getGmailWatchState(user.id);
+    if (!state?.lastHistoryId) {
+      // No cursor yet — most likely watch() hasn't been called. Seed from
+      // the notification and wait for the next one. We lose this batch but
+      // the next notification will advance correctly.
+      log.warn(`No last_history_id baseline — seeding to ${notifHistoryId} and skipping this batch`);
+      await updateGmailWatchState(user.id, { lastHistoryId: notifHistoryId });
+      return null;
+    }
+
+    gmailHistoryLag.set({}, historyIdGap(state.lastHistoryId, notifHistoryId));
+    const labelId = await getLabelIdByName(env.gmailLabelName);
+
+    let result;
+    try {
+      result = await fetchNewMessagesSinceHistoryId(state.lastHistoryId, labelId);
+    } catch (err) {
+      // Reset the cursor only on 404 (cursor too old). On transient errors
+      // it must stay put and the job retries the same range.
+      const status = (err as { response?: { status?: number }; code?: number | string }).response?.status
+        ?? (err as { code?: number | string }).code;
+      const msg = (err as Error).message || String(err);
+      if (status === 404 || status === "404") {
+        log.error(`History cursor too old (${msg}) — resetting cursor to ${notifHistoryId}`);
+        await updateGmailWatchState(user.id, { lastHistoryId: notifHistoryId });
+        return null;
+      }
+      log.error(`history.list failed transiently (${msg}) — keeping cursor for retry`);
+      throw err;
+    }
+
+    const fetched = result.messages;
+    log.info(`Fetched ${fetched.length} new labeled message(s)`);
+
+    let outcome: IngestOutcome | null = null;
+    if (fetched.length > 0) {
+      // Clean + truncate once here. The result is both the AI's Pass 2 input
+      // AND what we store as raw_sms — single source of truth, smaller DB rows.
+      const raw = fetched.map((m) => ({
+        sender: m.sender,
+        subject: m.subject,
+        body: cleanEmailBody(m.body),
+        timestamp: m.timestamp,
+      }));
+      outcome = await processMessagesInBackgroundUnlocked(
+        user, raw, "email", startTime, "[Pub/Sub Ingest]", opts,
+      );
+    }
+
+    // Advance to the newest historyId the fetch covered, not the notification's
+    // (which can be older), or newer messages get re-fetched on every notification.
+    const advanceTo = maxHistoryId(notifHistoryId, result.latestHistoryId);
+    await updateGmailWatchState(user.id, { lastHistoryId: advanceTo });
+    gmailHistoryLag.set({}, historyIdGap(advanceTo, notifHistoryId));
+    return outcome;
+  });
+}
@@ -0,0 +1,421 @@
+import crypto from "crypto";
+import { supabase, getUserById } from "./supabase.js";
+import {
+  processMessagesInBackground,
+  processGmailNotification,
+  type IngestOutcome,
+  type IngestSource,
+  type RawIngestMessage,
+} from "./ingest.js";
+import { sanitizeErrorForStorage } from "./sanitize.js";
+import { createLogger, currentRequestId, newRequestId, withLogContext } from "./logger.js";
+import { ingestJobs } from "./metrics.js";
+
+/**
+ * Durable ingest queue. HTTP handlers persist the batch as an ingest_jobs row
+ * BEFORE acknowledging, and a worker loop claims and processes it — a deploy
+ * or crash between the ack and the AI call no longer loses the batch.
+ *
+ * Claiming is a conditional UPDATE (status 'queued' → 'running'), so several
+ * instances polling the same table never run one job twice. A job left in
+ * 'running' past STALE_LOCK_MS (its worker died mid-batch) is re-queued; the
+ * crash still counts as an attempt, so a batch that kills the process
+ * eventually lands in 'failed' instead of looping forever.
+ */
+
+export type IngestJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type IngestJobPayload =
+  | { kind: "messages"; messages: RawIngestMessage[]; replayOf?: string }
+  | { kind: "gmail_history"; historyId: string };
+
+export interface IngestJob {
+  id: string;
+  user_id: string;
+  source: IngestSource;
+  status: IngestJobStatus;
+  payload: IngestJobPayload;
+  attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  last_error: string | null;
+  sync_run_id: string | null;
+  idempotency_key: string | null;
+  /** Request that queued the job; its lines and sync_run carry the same id. */
+  request_id: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+const JOB_COLUMNS =
+  "id, user_id, source, status, payload, attempts, run_after, locked_at, last_error, sync_run_id, idempotency_key, request_id, created_at, completed_at";
+
+const MAX_JOB_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const POLL_INTERVAL_MS = 5 * 1000;
+// Longest a healthy batch takes (two AI passes + fallbacks) with headroom.
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// How long a repeated Idempotency-Key (or identical batch) maps back to the
+// original job. Comfortably covers Shortcut's retry-on-timeout behaviour.
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const LOG_PREFIX: Record<IngestSource, string> = {
+  ios_shortcut: "[Shortcut Ingest]",
+  email: "[Pub/Sub Ingest]",
+};
+
+const log = createLogger("ingest-queue");
+
+/** Persist a batch for the worker. Throws if the row can't be written. */
+export async function enqueueIngestJob(params: {
+  userId: string;
+  source: IngestSource;
+  payload: IngestJobPayload;
+  idempotencyKey?: string;
+  /** Not before this time (deferred work); default now. */
+  runAfter?: Date;
+}): Promise<IngestJob> {
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .insert({
+      user_id: params.userId,
+      source: params.source,
+      status: "queued",
+      payload: params.payload,
+      attempts: 0,
+      run_after: (params.runAfter ?? new Date()).toISOString(),
+      idempotency_key: params.idempotencyKey ?? null,
+      request_id: currentRequestId() ?? null,
+    })
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    const err = new Error(`Failed to enqueue ingest job: ${error?.message ?? "no row returned"}`);
+    (err as Error & { code?: string }).code = error?.code;
+    throw err;
+  }
+
+  kickIngestWorker();
+  return data as IngestJob;
+}
+
+/**
+ * Idempotency key for an ingest batch: the client's Idempotency-Key header
+ * when present, else a hash of the batch content — a Shortcut retry after a
+ * cellular timeout resends byte-identical messages.
+ */
+export function ingestIdempotencyKey(
+  header: string | undefined,
+  messages: { sender?: string; body?: string; timestamp?: string }[],
+): string {
+  if (header && header.trim()) return `key:${header.trim()}`;
+  const canonical = messages
+    .map((m) => `${m.sender ?? ""}|${m.body ?? ""}|${m.timestamp ?? ""}`)
+    .sort()
+    .join("\n");
+  return `sha256:${crypto.createHash("sha256").update(canonical).digest("hex")}`;
+}
+
+async function findJobByIdempotencyKey(userId: string, key: string): Promise<IngestJob | null> {
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .select(JOB_COLUMNS)
+    .eq("user_id", userId)
+    .eq("idempotency_key", key)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to look up idempotency key: ${error.message}`);
+  return (data as IngestJob | null) ?? null;
+}
+
+// A job answers retries of its batch until the window lapses or it fails.
+const holdsIdempotencyKey = (job: IngestJob) =>
+  Date.now() - new Date(job.created_at).getTime() < IDEMPOTENCY_WINDOW_MS && job.status !== "failed";
+
+/**
+ * The job a retry with this key should get back, or null when the batch is
+ * new. Lets the route answer retries before charging quota for them.
+ */
+export async function findDuplicateIngestJob(userId: string, key: string): Promise<IngestJob | null> {
+  const existing = await findJobByIdempotencyKey(userId, key);
+  return existing && holdsIdempotencyKey(existing) ? existing : null;
+}
+
+/**
+ * Enqueue unless the same key was seen within IDEMPOTENCY_WINDOW_MS, in which
+ * case return the original job (and its sync_run once done) without running
+ * the AI again. A key whose job expired or failed is released and reused, so
+ * a retry after a genuine failure still gets processed.
+ */
+export async function enqueueIdempotentIngestJob(params: {
+  userId: string;
+  source: IngestSource;
+  payload: IngestJobPayload;
+  idempotencyKey: string;
+}): Promise<{ job: IngestJob; duplicate: boolean }> {
+  const existing = await findJobByIdempotencyKey(params.userId, params.idempotencyKey);
+  if (existing) {
+    if (holdsIdempotencyKey(existing)) return { job: existing, duplicate: true };
+    const { error } = await supabase
+      .from("ingest_jobs")
+      .update({ idempotency_key: null })
+      .eq("id", existing.id);
+    if (error) throw new Error(`Failed to release idempotency key: ${error.message}`);
+  }
+
+  try {
+    return { job: await enqueueIngestJob(params), duplicate: false };
+  } catch (err) {
+    // Unique (user_id, idempotency_key) violation: a concurrent retry won.
+    if ((err as { code?: string }).code === "23505") {
+      const winner = await findJobByIdempotencyKey(params.userId, params.idempotencyKey);
+      if (winner) return { job: winner, duplicate: true };
+    }
+    throw err;
+  }
+}
+
+/** Look up a job owned by the given user (status polling). */
+export async function getIngestJobForUser(jobId: string, userId: string): Promise<IngestJob | null> {
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .select(JOB_COLUMNS)
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    log.error("Failed to fetch ingest job", { jobId, error: error.message });
+    return null;
+  }
+  return (data as IngestJob | null) ?? null;
+}
+
+/**
+ * Most recent replay job for a sync_run, if any. Guards against paying for
+ * the same replay twice while the first is still queued or already done.
+ */
+export async function findReplayJob(userId: string, runId: string): Promise<IngestJob | null> {
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .select(JOB_COLUMNS)
+    .eq("user_id", userId)
+    .eq("payload->>replayOf", runId)
+    .neq("status", "failed")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to look up replay job: ${error.message}`);
+  return (data as IngestJob | null) ?? null;
+}
+
+async function updateJob(jobId: string, patch: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from("ingest_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+  if (error) {
+    log.error("Failed to update job", { jobId, error: error.message });
+  }
+}
+
+async function claimNextJob(): Promise<IngestJob | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .select(JOB_COLUMNS)
+    .eq("status", "queued")
+    .lte("run_after", now)
+    .order("run_after", { ascending: true })
+    .limit(5);
+  if (error) throw new Error(`ingest_jobs poll failed: ${error.message}`);
+
+  for (const candidate of (data ?? []) as IngestJob[]) {
+    const { data: claimed, error: claimErr } = await supabase
+      .from("ingest_jobs")
+      .update({
+        status: "running",
+        attempts: candidate.attempts + 1,
+        locked_at: now,
+        updated_at: now,
+      })
+      .eq("id", candidate.id)
+      .eq("status", "queued")
+      .select(JOB_COLUMNS)
+      .maybeSingle();
+    if (claimErr) throw new Error(`ingest_jobs claim failed: ${claimErr.message}`);
+    // null → another instance claimed it first; try the next candidate.
+    if (claimed) return claimed as IngestJob;
+  }
+  return null;
+}
+
+function backoffMs(attempts: number): number {
+  const jitter = Math.random() * 5000;
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1) + jitter, MAX_BACKOFF_MS);
+}
+
+function runJob(job: IngestJob): Promise<void> {
+  return withLogContext({ requestId: job.request_id ?? newRequestId(), userId: job.user_id }, () => runJobInContext(job));
+}
+
+async function runJobInContext(job: IngestJob): Promise<void> {
+  const startTime = Date.now();
+  // Last attempt: let the processor record a failed sync_run + push as it
+  // always has, instead of throwing into a retry that will never come.
+  const isFinalAttempt = job.attempts >= MAX_JOB_ATTEMPTS;
+
+  const user = await getUserById(job.user_id);
+  if (!user) {
+    await updateJob(job.id, {
+      status: "failed",
+      last_error: "User not found",
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    });
+    return;
+  }
+
+  try {
+    let outcome: IngestOutcome | null;
+    if (job.payload.kind === "gmail_history") {
+      outcome = await processGmailNotification(user, job.payload.historyId, startTime, {
+        rethrow: !isFinalAttempt,
+      });
+    } else {
+      outcome = await processMessagesInBackground(
+        user,
+        job.payload.messages,
+        job.source,
+        startTime,
+        LOG_PREFIX[job.source],
+        { rethrow: !isFinalAttempt, replayOf: job.payload.replayOf },
+      );
+    }
+
+    // Over the AI budget: the messages that still need AI become a new job
+    // that waits for the budget reset. If that can't be written, they stay
+    // recoverable by replaying the sync run.
+    let deferError: string | null = null;
+    if (outcome?.deferred) {
+      try {
+        const next = await enqueueIngestJob({
+          userId: user.id,
+          source: job.source,
+          payload: { kind: "messages", messages: outcome.deferred.messages },
+          runAfter: outcome.deferred.until,
+        });
+        log.info("Deferred messages until the AI budget resets", {
+          jobId: next.id,
+          messages: outcome.deferred.messages.length,
+          runAfter: next.run_after,
+        });
+      } catch (err) {
+        deferError = `Could not queue ${outcome.deferred.messages.length} deferred message(s); replay the sync run`;
+        log.error(deferError, { err });
+      }
+    }
+
+    const failed = outcome?.status === "failed" || deferError !== null;
+    ingestJobs.inc({ source: job.source, outcome: failed ? "failed" : "succeeded" });
+    await updateJob(job.id, {
+      status: failed ? "failed" : "succeeded",
+      ...(deferError ? { last_error: deferError } : {}),
+      sync_run_id: outcome?.syncRunId ?? null,
+      locked_at: null,
+      completed_at: new Date().toISOString(),
+    });
+  } catch (err) {
+    const lastError = sanitizeErrorForStorage(err);
+    if (isFinalAttempt) {
+      log.error("Job failed on its final attempt", { jobId: job.id, attempts: job.attempts, error: lastError });
+      ingestJobs.inc({ source: job.source, outcome: "failed" });
+      await updateJob(job.id, {
+        status: "failed",
+        last_error: lastError,
+        locked_at: null,
+        completed_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const delay = backoffMs(job.attempts);
+    ingestJobs.inc({ source: job.source, outcome: "retried" });
+    log.warn("Job attempt failed; retrying", {
+      jobId: job.id,
+      attempt: `${job.attempts}/${MAX_JOB_ATTEMPTS}`,
+      error: lastError,
+      retryInSec: Math.round(delay / 1000),
+    });
+    await updateJob(job.id, {
+      status: "queued",
+      last_error: lastError,
+      locked_at: null,
+      run_after: new Date(Date.now() + delay).toISOString(),
+    });
+  }
+}
+
+/** Re-queue jobs whose worker died mid-batch (deploy, crash, OOM). */
+async function requeueStaleJobs(): Promise<void> {
+  const cutoff = new Date(Date.now() - STALE_LOCK_MS).toISOString();
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .update({ status: "queued", locked_at: null, updated_at: new Date().toISOString() })
+    .eq("status", "running")
+    .lt("locked_at", cutoff)
+    .select("id");
+  if (error) {
+    log.error("Failed to re-queue stale jobs", { error: error.message });
+    return;
+  }
+  if (data && data.length > 0) {
+    log.warn("Re-queued stale jobs", { count: data.length });
+  }
+}
+
+let workerStarted = false;
+let draining = false;
+let drainAgain = false;
+
+async function drain(): Promise<void> {
+  if (draining) {
+    // A job was enqueued after the running loop's last empty poll.
+    drainAgain = true;
+    return;
+  }
+  draining = true;
+  try {
+    do {
+      drainAgain = false;
+      for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+        await runJob(job);
+      }
+    } while (drainAgain);
+  } catch (err) {
+    log.error("Worker loop error", { err });
+  } finally {
+    draining = false;
+  }
+}
+
+/** Wake the worker now instead of waiting for the next poll. */
+export function kickIngestWorker(): void {
+  if (workerStarted) void drain();
+}
+
+/**
+ * Start the polling worker. Jobs run one at a time per instance, each inside
+ * withUserIngestLock (via the processors), so queued work still serializes
+ * against any other ingest for the same user.
+ */
+export function startIngestWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+  void requeueStaleJobs().then(() => drain());
+  setInterval(() => { void drain(); }, POLL_INTERVAL_MS).unref();
+  setInterval(() => { void requeueStaleJobs(); }, STALE_LOCK_MS).unref();
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LlmConfigSchema, parseChain, resolveLlmConfig } from "./llm.js";
+
+// Fixed keys, so the tests don't depend on what the shell exports.
+const keys = { GOOGLE_GENERATIVE_AI_API_KEY: "test-google", GROQ_API_KEY: "test-groq" };
+
+const models = (entries: { provider: string; model: string }[]) => entries.map((e) => `${e.provider}:${e.model}`);
+
+test("chain specs split at the first colon, so Ollama tags survive", () => {
+  assert.deepEqual(parseChain(" ollama:qwen2.5:7b , groq:openai/gpt-oss-120b,"), [
+    { provider: "ollama", model: "qwen2.5:7b" },
+    { provider: "groq", model: "openai/gpt-oss-120b" },
+  ]);
+  assert.throws(() => parseChain("gemini-2.5-flash"), /expected provider:model/);
+});
+
+test("defaults keep the Google → Groq chains and per-provider array envelopes", () => {
+  const { chains } = resolveLlmConfig([], keys);
+  assert.deepEqual(models(chains.classify), ["google:gemini-2.5-flash-lite", "groq:openai/gpt-oss-120b"]);
+  assert.deepEqual(models(chains.extract), ["google:gemini-2.5-flash", "groq:openai/gpt-oss-120b"]);
+  assert.deepEqual(models(chains.enrich), ["google:gemini-2.5-flash"]);
+  assert.deepEqual(chains.extract.map((e) => e.arrayEnvelope), [false, true]);
+
+  const googleOnly = resolveLlmConfig([], { GOOGLE_GENERATIVE_AI_API_KEY: "test-google" });
+  assert.deepEqual(models(googleOnly.chains.classify), ["google:gemini-2.5-flash-lite"]);
+});
+
+test("configured chains use OpenAI-compatible providers and reject unknown ones", () => {
+  const config = LlmConfigSchema.parse({
+    providers: { ollama: { type: "openai-compatible", baseURL: "http://localhost:11434/v1" } },
+    chains: { classify: parseChain("ollama:llama3.1:8b,google:gemini-2.5-flash-lite") },
+  });
+  const { chains } = resolveLlmConfig([config], keys);
+  assert.deepEqual(models(chains.classify), ["ollama:llama3.1:8b", "google:gemini-2.5-flash-lite"]);
+  assert.equal(chains.classify[0].arrayEnvelope, true);
+  assert.deepEqual(models(chains.summarize), ["google:gemini-2.5-flash"]);
+
+  const unknown = LlmConfigSchema.parse({ chains: { enrich: parseChain("mistral:small") } });
+  assert.throws(() => resolveLlmConfig([unknown], keys), /Unknown LLM provider "mistral"/);
+  const keyless = LlmConfigSchema.parse({
+    providers: { "groq-eu": { type: "groq", apiKeyEnv: "LLM_TEST_MISSING_KEY" } },
+    chains: { enrich: parseChain("groq-eu:openai/gpt-oss-120b") },
+  });
+  assert.throws(() => resolveLlmConfig([keyless], keys), /needs LLM_TEST_MISSING_KEY/);
+});
+
+test("an OpenAI-compatible provider runs keyless unless it names a key env var", () => {
+  const config = (provider: object) =>
+    LlmConfigSchema.parse({ providers: { openai: provider }, chains: { enrich: parseChain("openai:gpt-4o-mini") } });
+  const keyless = config({ type: "openai-compatible", baseURL: "http://localhost:11434/v1" });
+  assert.deepEqual(models(resolveLlmConfig([keyless], keys).chains.enrich), ["openai:gpt-4o-mini"]);
+
+  const keyed = config({ type: "openai-compatible", baseURL: "https://api.openai.com/v1", apiKeyEnv: "LLM_TEST_OPENAI_KEY" });
+  assert.throws(() => resolveLlmConfig([keyed], keys), /needs LLM_TEST_OPENAI_KEY/);
+  const { chains } = resolveLlmConfig([keyed], { ...keys, LLM_TEST_OPENAI_KEY: "test-openai" });
+  assert.deepEqual(models(chains.enrich), ["openai:gpt-4o-mini"]);
+});
@@ -0,0 +1,294 @@
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createGroq } from "@ai-sdk/groq";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel } from "ai";
+import { z } from "zod";
+import { env } from "../config/env.js";
+import { supabase } from "./supabase.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("llm");
+
+/**
+ * LLM provider registry. Every AI call names a task; each task has an
+ * ordered fallback chain of provider:model entries, tried in order.
+ *
+ * Providers come from three layers, later ones winning per name / task:
+ *  1. built-ins: google and groq (keys from their usual env vars);
+ *  2. env: LLM_PROVIDERS (JSON) and LLM_CHAIN_<TASK> ("google:gemini-2.5-flash,groq:openai/gpt-oss-120b");
+ *  3. DB: the llm_config row, re-read every few minutes (refreshLlmConfigFromDb).
+ *
+ * An "openai-compatible" provider points at any /v1/chat/completions server —
+ * OpenAI itself, a local Ollama or a llama.cpp server — so the whole pipeline
+ * can run self-hosted.
+ */
+
+export const LLM_TASKS = ["classify", "extract", "extract_economy", "enrich", "summarize"] as const;
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+const Capabilities = {
+  /**
+   * The provider's JSON-schema mode rejects a root-level array, so array
+   * outputs go through the SDK's object envelope (output: "array").
+   */
+  arrayEnvelope: z.boolean().optional(),
+};
+
+// How the AI budgets (services/pricing.ts) charge this provider's tokens.
+const Pricing = {
+  /** USD per million tokens for every model on this provider, over the built-in price list. */
+  pricePerM: z.object({ input: z.number().nonnegative(), output: z.number().nonnegative() }).optional(),
+  /** Self-hosted: its tokens cost nothing. */
+  free: z.boolean().optional(),
+};
+
+const ProviderSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("google"), apiKeyEnv: z.string().optional(), ...Capabilities, ...Pricing }),
+  z.object({ type: z.literal("groq"), apiKeyEnv: z.string().optional(), ...Capabilities, ...Pricing }),
+  z.object({
+    type: z.literal("openai-compatible"),
+    baseURL: z.string().url(),
+    /** Name of the env var holding the key; local servers usually need none. */
+    apiKeyEnv: z.string().optional(),
+    /** Server honours response_format json_schema (recent Ollama and llama.cpp do). */
+    structuredOutputs: z.boolean().default(true),
+    ...Capabilities,
+    ...Pricing,
+  }),
+]);
+export type ProviderConfig = z.infer<typeof ProviderSchema>;
+
+const ModelRefSchema = z.object({ provider: z.string().min(1), model: z.string().min(1) });
+export type ModelRef = z.infer<typeof ModelRefSchema>;
+
+/** "provider:model" — how token usage is keyed, so pricing can tell providers apart. */
+export const usageKey = ({ provider, model }: ModelRef): string => `${provider}:${model}`;
+
+export const LlmConfigSchema = z.object({
+  providers: z.record(ProviderSchema).default({}),
+  chains: z.record(z.enum(LLM_TASKS), z.array(ModelRefSchema).min(1)).default({}),
+});
+export type LlmConfig = z.infer<typeof LlmConfigSchema>;
+
+const DEFAULT_API_KEY_ENV: Record<ProviderConfig["type"], string | undefined> = {
+  google: "GOOGLE_GENERATIVE_AI_API_KEY",
+  groq: "GROQ_API_KEY",
+  "openai-compatible": undefined,
+};
+
+// Groq and OpenAI-style json_schema modes want an object at the root.
+const DEFAULT_ARRAY_ENVELOPE: Record<ProviderConfig["type"], boolean> = {
+  google: false,
+  groq: true,
+  "openai-compatible": true,
+};
+
+const BUILTIN_PROVIDERS: Record<string, ProviderConfig> = {
+  google: { type: "google" },
+  groq: { type: "groq" },
+};
+
+// Must be on Groq's structured-outputs (json_schema) list — llama-3.3 is not.
+const GROQ_FALLBACK: ModelRef = { provider: "groq", model: "openai/gpt-oss-120b" };
+
+const DEFAULT_CHAINS: Record<LlmTask, ModelRef[]> = {
+  // Tiny yes/no task over every message: the cheapest reliable tier.
+  classify: [{ provider: "google", model: "gemini-2.5-flash-lite" }, GROQ_FALLBACK],
+  extract: [{ provider: "google", model: "gemini-2.5-flash" }, GROQ_FALLBACK],
+  // Extraction while the user is near their AI budget (services/aiBudget.ts).
+  extract_economy: [{ provider: "google", model: "gemini-2.5-flash-lite" }, GROQ_FALLBACK],
+  // One attempt, no fallback: enrichment runs against a spend ceiling.
+  enrich: [{ provider: "google", model: "gemini-2.5-flash" }],
+  summarize: [{ provider: "google", model: "gemini-2.5-flash" }],
+};
+
+/** "google:gemini-2.5-flash, ollama:qwen2.5:7b" → refs. Only the first ":" splits. */
+export function parseChain(spec: string): ModelRef[] {
+  return spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const i = entry.indexOf(":");
+      if (i <= 0 || i === entry.length - 1) {
+        throw new Error(`Invalid chain entry "${entry}" (expected provider:model)`);
+      }
+      return { provider: entry.slice(0, i), model: entry.slice(i + 1) };
+    });
+}
+
+export function llmConfigFromEnv(): LlmConfig {
+  const chains: LlmConfig["chains"] = {};
+  for (const task of LLM_TASKS) {
+    const spec = env.llmChains[task];
+    if (spec) chains[task] = parseChain(spec);
+  }
+  const providers = env.llmProviders ? JSON.parse(env.llmProviders) : {};
+  return LlmConfigSchema.parse({ providers, chains });
+}
+
+// ── Resolution ──────────────────────────────────────────────────────────────
+
+/** A provider model instance (never a gateway id string). */
+export type LlmModel = Exclude<LanguageModel, string>;
+
+export interface ChainEntry {
+  provider: string;
+  model: string;
+  languageModel: LlmModel;
+  arrayEnvelope: boolean;
+}
+
+/** Where provider keys are read from: process.env, or a fixed set in tests. */
+export type KeySource = Record<string, string | undefined>;
+
+const apiKeyFor = (p: ProviderConfig, keys: KeySource) => {
+  const keyEnv = p.apiKeyEnv ?? DEFAULT_API_KEY_ENV[p.type];
+  return { keyEnv, apiKey: keyEnv ? keys[keyEnv] : undefined };
+};
+
+// Local OpenAI-compatible servers usually run without a key; one that names
+// an apiKeyEnv needs it set.
+const hasKey = (p: ProviderConfig, keys: KeySource) =>
+  (p.type === "openai-compatible" && !p.apiKeyEnv) || !!apiKeyFor(p, keys).apiKey;
+
+function createProvider(name: string, p: ProviderConfig, keys: KeySource): (modelId: string) => LlmModel {
+  const { keyEnv, apiKey } = apiKeyFor(p, keys);
+  if (!hasKey(p, keys)) {
+    throw new Error(`LLM provider "${name}" needs ${keyEnv}`);
+  }
+  switch (p.type) {
+    case "google":
+      return createGoogleGenerativeAI({ apiKey });
+    case "groq":
+      return createGroq({ apiKey });
+    case "openai-compatible": {
+      const provider = createOpenAICompatible({
+        name,
+        baseURL: p.baseURL,
+        apiKey,
+        supportsStructuredOutputs: p.structuredOutputs,
+      });
+      return (modelId) => provider.chatModel(modelId);
+    }
+  }
+}
+
+export interface LlmRegistry {
+  providers: Record<string, ProviderConfig>;
+  chains: Record<LlmTask, ChainEntry[]>;
+}
+
+function resolveEntry(
+  providers: Record<string, ProviderConfig>,
+  { provider, model }: ModelRef,
+  keys: KeySource = process.env,
+): ChainEntry {
+  const p = providers[provider];
+  if (!p) throw new Error(`Unknown LLM provider "${provider}"`);
+  return {
+    provider,
+    model,
+    languageModel: createProvider(provider, p, keys)(model),
+    arrayEnvelope: p.arrayEnvelope ?? DEFAULT_ARRAY_ENVELOPE[p.type],
+  };
+}
+
+/**
+ * Merge `layers` over the built-ins and resolve every chain. A configured
+ * chain naming an unknown provider or one without its key throws, so a bad
+ * config never half-applies; default chains just drop providers with no key
+ * (e.g. no GROQ_API_KEY means no Groq fallback). Keys come from `keys`,
+ * process.env unless given.
+ */
+export function resolveLlmConfig(layers: LlmConfig[], keys: KeySource = process.env): LlmRegistry {
+  const providers: Record<string, ProviderConfig> = { ...BUILTIN_PROVIDERS };
+  const configured: Partial<Record<LlmTask, ModelRef[]>> = {};
+  for (const layer of layers) {
+    Object.assign(providers, layer.providers);
+    Object.assign(configured, layer.chains);
+  }
+  const chains = {} as Record<LlmTask, ChainEntry[]>;
+  for (const task of LLM_TASKS) {
+    const refs =
+      configured[task] ?? DEFAULT_CHAINS[task].filter((ref) => providers[ref.provider] && hasKey(providers[ref.provider], keys));
+    if (refs.length === 0) {
+      throw new Error(`No usable model for LLM task "${task}": set LLM_CHAIN_${task.toUpperCase()} or a provider key`);
+    }
+    chains[task] = refs.map((ref) => resolveEntry(providers, ref, keys));
+  }
+  return { providers, chains };
+}
+
+// ── Active registry ─────────────────────────────────────────────────────────
+
+let envConfig: LlmConfig | null = null;
+let active: LlmRegistry | null = null;
+
+/** The active registry. Built from env on first use. */
+export function llmRegistry(): LlmRegistry {
+  if (!active) {
+    envConfig = llmConfigFromEnv();
+    active = resolveLlmConfig([envConfig]);
+  }
+  return active;
+}
+
+/** Swap the active registry wholesale — for offline tools such as scripts/eval.ts. */
+export function setLlmRegistry(registry: LlmRegistry): void {
+  envConfig ??= { providers: {}, chains: {} };
+  active = registry;
+}
+
+/**
+ * A provider's config by name, for pricing. Reads the active registry when
+ * there is one, else the built-ins and the env layer without resolving any
+ * chain, so pricing never needs a provider key.
+ */
+export function providerConfig(name: string): ProviderConfig | undefined {
+  if (active) return active.providers[name];
+  envConfig ??= llmConfigFromEnv();
+  return { ...BUILTIN_PROVIDERS, ...envConfig.providers }[name];
+}
+
+/** The ordered fallback chain for `task`. */
+export function chainFor(task: LlmTask): ChainEntry[] {
+  return llmRegistry().chains[task];
+}
+
+/** One "provider:model" outside any chain, for manual overrides (scripts, admin runs). */
+export function modelEntry(spec: string): ChainEntry {
+  const [ref] = parseChain(spec);
+  if (!ref) throw new Error("Empty model spec");
+  return resolveEntry(llmRegistry().providers, ref);
+}
+
+/** Every model some chain can call, for the readiness check. */
+export function configuredModels(): string[] {
+  return [...new Set(LLM_TASKS.flatMap((t) => chainFor(t).map((e) => e.model)))];
+}
+
+/**
+ * Apply the llm_config row (if any) over env. A bad row is logged and the
+ * current registry kept — a typo in the DB must not stop ingest.
+ */
+export async function refreshLlmConfigFromDb(): Promise<void> {
+  llmRegistry(); // load the env layer first; an invalid env config throws here
+  const { data, error } = await supabase
+    .from("llm_config")
+    .select("providers, chains")
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    log.error("Failed to read llm_config; keeping the current registry", { error: error.message });
+    return;
+  }
+  try {
+    const layers = [envConfig!];
+    if (data) layers.push(LlmConfigSchema.parse({ providers: data.providers ?? {}, chains: data.chains ?? {} }));
+    active = resolveLlmConfig(layers);
+  } catch (err) {
+    log.error("Invalid llm_config; keeping the current registry", { err });
+  }
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { currentRequestId, formatLogLine, setLogUser, withLogContext } from "./logger.js";
+import { redactSecrets } from "./sanitize.js";
+
+test("redaction masks keys, OTPs and account numbers but keeps last 4 digits", () => {
+  assert.equal(redactSecrets("key mtw_AbCdEfGhIjKlMnOpQrStUv12"), "key [REDACTED_API_KEY]");
+  assert.equal(redactSecrets("Incorrect API key provided: sk-proj-AbCdEfGhIjKlMnOpQrSt12"), "Incorrect API key provided: [REDACTED_SECRET_KEY]");
+  assert.equal(redactSecrets("sent Authorization: Bearer eyJhbGciOi.J9abc"), "sent Authorization: Bearer [REDACTED_TOKEN]");
+  assert.equal(redactSecrets("task-abcdefghijklmnopqrstuvwxyz"), "task-abcdefghijklmnopqrstuvwxyz");
+  assert.equal(redactSecrets('{"x-api-key":"legacy-plaintext"}'), '{"x-api-key":"[REDACTED_API_KEY]"}');
+  assert.equal(redactSecrets("/api/review/payload?api_key=abc123&month=2026-03"), "/api/review/payload?api_key=[REDACTED_API_KEY]&month=2026-03");
+  assert.equal(redactSecrets("Your OTP is 482913. Do not share"), "Your OTP is [REDACTED_OTP]. Do not share");
+  assert.equal(redactSecrets("482913 is your OTP for login"), "[REDACTED_OTP] is your OTP for login");
+  assert.equal(redactSecrets("Card 4111 1111 1111 1234 charged"), "Card [CARD ••1234] charged");
+  assert.equal(redactSecrets("debited from A/c 123456789012 on"), "debited from A/c ••9012 on");
+  // Already-masked bank formats and amounts are left alone.
+  assert.equal(redactSecrets("A/c XX1234 debited Rs 1500.00"), "A/c XX1234 debited Rs 1500.00");
+});
+
+test("log lines are JSON with context ids and redacted fields", () => {
+  const line = withLogContext({ requestId: "req-12345678" }, () => {
+    setLogUser("user-1");
+    assert.equal(currentRequestId(), "req-12345678");
+    return formatLogLine("info", "Shortcut Ingest", "Batch received", {
+      header: "mtw_AbCdEfGhIjKlMnOpQrStUv12",
+      err: new Error("OTP is 123456"),
+    }, new Date("2026-03-01T00:00:00Z"));
+  });
+  const parsed = JSON.parse(line);
+  assert.equal(parsed.ts, "2026-03-01T00:00:00.000Z");
+  assert.equal(parsed.level, "info");
+  assert.equal(parsed.component, "Shortcut Ingest");
+  assert.equal(parsed.request_id, "req-12345678");
+  assert.equal(parsed.user_id, "user-1");
+  assert.equal(parsed.header, "[REDACTED_API_KEY]");
+  assert.equal(parsed.err.message, "OTP is [REDACTED_OTP]");
+  assert.equal(currentRequestId(), undefined);
+});
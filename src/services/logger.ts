@@ -0,0 +1,127 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import crypto from "crypto";
+import { redactSecrets } from "./sanitize.js";
+
+/**
+ * Structured logging: one JSON object per line, with a level, the emitting
+ * component and — via AsyncLocalStorage — the request id and user of
+ * whatever HTTP request, queued job or scheduler tick is running. Every
+ * string that reaches the output goes through redactSecrets().
+ *
+ *   const log = createLogger("Pub/Sub");
+ *   log.info("Notification received", { historyId });
+ *   log.error("Failed to queue notification", { err });
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function configuredLevel(): LogLevel {
+  const raw = process.env.LOG_LEVEL?.toLowerCase();
+  if (raw && raw in LEVEL_RANK) return raw as LogLevel;
+  return process.env.NODE_ENV === "development" ? "debug" : "info";
+}
+
+const minRank = LEVEL_RANK[configuredLevel()];
+
+// ── Context ─────────────────────────────────────────────────────────────────
+
+interface LogContext {
+  requestId?: string;
+  userId?: string;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+export function newRequestId(): string {
+  return crypto.randomUUID();
+}
+
+/** Run `fn` with `ctx` merged over the current context. */
+export function withLogContext<T>(ctx: LogContext, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...ctx }, fn);
+}
+
+/** Attach the authenticated user to the running request's context. */
+export function setLogUser(userId: string): void {
+  const store = context.getStore();
+  if (store) store.userId = userId;
+}
+
+export function currentRequestId(): string | undefined {
+  return context.getStore()?.requestId;
+}
+
+// ── Output ──────────────────────────────────────────────────────────────────
+
+const MAX_DEPTH = 4;
+
+/** Redact strings and flatten Errors, recursively. */
+function clean(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactSecrets(value);
+  if (value instanceof Error) {
+    const code = (value as Error & { code?: unknown }).code;
+    return {
+      name: value.name,
+      message: redactSecrets(value.message),
+      ...(code !== undefined ? { code } : {}),
+      ...(value.stack ? { stack: redactSecrets(value.stack) } : {}),
+    };
+  }
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[…]";
+  if (Array.isArray(value)) return value.map((v) => clean(v, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clean(v, depth + 1)]));
+}
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line. */
+  child(fields: LogFields): Logger;
+}
+
+/** Build one log line. Exported for tests. */
+export function formatLogLine(
+  level: LogLevel,
+  component: string,
+  msg: string,
+  fields: LogFields = {},
+  now: Date = new Date(),
+): string {
+  const ctx = context.getStore();
+  return JSON.stringify({
+    ts: now.toISOString(),
+    level,
+    component,
+    msg: redactSecrets(msg),
+    ...(ctx?.requestId ? { request_id: ctx.requestId } : {}),
+    ...(ctx?.userId ? { user_id: ctx.userId } : {}),
+    ...(clean(fields) as LogFields),
+  });
+}
+
+/**
+ * `component` names the emitter. The old "[Prefix]" form is accepted, so
+ * call sites that thread a logPrefix through can pass it straight in.
+ */
+export function createLogger(component: string, bound: LogFields = {}): Logger {
+  const name = component.replace(/^\[(.*)\]$/, "$1");
+  const emit = (level: LogLevel) => (msg: string, fields?: LogFields) => {
+    if (LEVEL_RANK[level] < minRank) return;
+    const line = formatLogLine(level, name, msg, { ...bound, ...fields }) + "\n";
+    (level === "warn" || level === "error" ? process.stderr : process.stdout).write(line);
+  };
+  return {
+    debug: emit("debug"),
+    info: emit("info"),
+    warn: emit("warn"),
+    error: emit("error"),
+    child: (fields) => createLogger(name, { ...bound, ...fields }),
+  };
+}
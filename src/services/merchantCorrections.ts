@@ -0,0 +1,183 @@
+import { supabase, insertMerchantMapping } from "./supabase.js";
+import type { User } from "../types/index.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Corrections");
+
+/**
+ * Learning merchant rules from reclassify corrections. Each time a user
+ * commits a mark-transaction whose merchant or category differs from the AI
+ * preview, the (AI merchant → final merchant, final category) pair is
+ * counted in merchant_corrections. At SUGGEST_AFTER repeats the pair becomes
+ * a suggestion — or, for users with auto_learn_merchant_rules, a
+ * user_merchant_mappings rule straight away.
+ *
+ * Status flow: pending → suggested → accepted | dismissed. Dismissed pairs
+ * keep counting but are never proposed again.
+ */
+
+const SUGGEST_AFTER = 3;
+
+export type CorrectionStatus = "pending" | "suggested" | "accepted" | "dismissed";
+
+export interface MerchantCorrection {
+  id: string;
+  user_id: string;
+  ai_merchant: string;
+  final_merchant: string | null;
+  final_category_id: string | null;
+  occurrences: number;
+  status: CorrectionStatus;
+  rule_id: string | null;
+  last_seen_at: string;
+}
+
+const COLUMNS =
+  "id, user_id, ai_merchant, final_merchant, final_category_id, occurrences, status, rule_id, last_seen_at";
+
+const normalize = (s: string | null | undefined) => (s ?? "").toLowerCase().trim();
+
+// One row per distinct correction; nullable category folded into the key so
+// the (user_id, correction_key) unique index works.
+function correctionKey(aiMerchant: string, finalMerchant: string | null, finalCategoryId: string | null): string {
+  return `${normalize(aiMerchant)}|${normalize(finalMerchant)}|${finalCategoryId ?? ""}`;
+}
+
+/**
+ * Count a correction. Returns the correction row when it has just turned
+ * into a suggestion or rule, else null. No-op unless the AI proposed a
+ * merchant and the user changed the merchant or the category.
+ */
+export async function recordCorrection(params: {
+  user: User;
+  aiMerchant: string | null;
+  aiCategoryId: string | null;
+  finalMerchant: string | null;
+  finalCategoryId: string | null;
+}): Promise<MerchantCorrection | null> {
+  const { user, aiMerchant, finalMerchant, finalCategoryId } = params;
+  if (!aiMerchant || !normalize(aiMerchant)) return null;
+  const merchantChanged = !!finalMerchant && normalize(finalMerchant) !== normalize(aiMerchant);
+  const categoryChanged = !!finalCategoryId && finalCategoryId !== params.aiCategoryId;
+  if (!merchantChanged && !categoryChanged) return null;
+
+  const key = correctionKey(aiMerchant, finalMerchant, finalCategoryId);
+  const now = new Date().toISOString();
+
+  const { data: existing, error: fetchErr } = await supabase
+    .from("merchant_corrections")
+    .select(COLUMNS)
+    .eq("user_id", user.id)
+    .eq("correction_key", key)
+    .maybeSingle();
+  if (fetchErr) throw new Error(`Failed to read merchant corrections: ${fetchErr.message}`);
+
+  let row: MerchantCorrection;
+  if (existing) {
+    const { data, error } = await supabase
+      .from("merchant_corrections")
+      .update({ occurrences: existing.occurrences + 1, last_seen_at: now })
+      .eq("id", existing.id)
+      .select(COLUMNS)
+      .single();
+    if (error || !data) throw new Error(`Failed to update merchant correction: ${error?.message}`);
+    row = data as MerchantCorrection;
+  } else {
+    const { data, error } = await supabase
+      .from("merchant_corrections")
+      .insert({
+        user_id: user.id,
+        correction_key: key,
+        ai_merchant: aiMerchant.trim(),
+        final_merchant: finalMerchant,
+        final_category_id: finalCategoryId,
+        occurrences: 1,
+        status: "pending",
+        last_seen_at: now,
+      })
+      .select(COLUMNS)
+      .single();
+    if (error || !data) throw new Error(`Failed to insert merchant correction: ${error?.message}`);
+    row = data as MerchantCorrection;
+  }
+
+  if (row.status !== "pending" || row.occurrences < SUGGEST_AFTER) return null;
+
+  if (user.auto_learn_merchant_rules) {
+    const ruleId = await createRuleFromCorrection(row);
+    log.info(`Auto-created rule ${ruleId} for "${row.ai_merchant}"`);
+    return { ...row, status: "accepted", rule_id: ruleId };
+  }
+  await setStatus(row.id, user.id, { status: "suggested" });
+  return { ...row, status: "suggested" };
+}
+
+async function createRuleFromCorrection(row: MerchantCorrection): Promise<string> {
+  const ruleId = await insertMerchantMapping(row.user_id, {
+    raw_merchant: row.ai_merchant,
+    // Category-only corrections keep whatever merchant the AI extracted.
+    mapped_merchant: row.final_merchant ?? "",
+    default_category_id: row.final_category_id,
+    default_is_expense: null,
+    default_is_income: null,
+    amount_operator: null,
+    amount_threshold: null,
+    date_operator: null,
+    date_threshold: null,
+    match_type: "exact",
+    priority: null,
+    conditions: null,
+  });
+  await setStatus(row.id, row.user_id, { status: "accepted", rule_id: ruleId });
+  return ruleId;
+}
+
+async function setStatus(
+  id: string,
+  userId: string,
+  patch: { status: CorrectionStatus; rule_id?: string }
+): Promise<void> {
+  const { error } = await supabase
+    .from("merchant_corrections")
+    .update(patch)
+    .eq("id", id)
+    .eq("user_id", userId);
+  if (error) throw new Error(`Failed to update merchant correction: ${error.message}`);
+}
+
+export async function listSuggestions(userId: string): Promise<MerchantCorrection[]> {
+  const { data, error } = await supabase
+    .from("merchant_corrections")
+    .select(COLUMNS)
+    .eq("user_id", userId)
+    .eq("status", "suggested")
+    .order("occurrences", { ascending: false });
+  if (error) throw new Error(`Failed to list suggestions: ${error.message}`);
+  return (data ?? []) as MerchantCorrection[];
+}
+
+/**
+ * Accept or dismiss a pending suggestion. Returns null when the id isn't a
+ * suggestion owned by the user; the created rule's id on accept.
+ */
+export async function resolveSuggestion(
+  userId: string,
+  id: string,
+  action: "accept" | "dismiss"
+): Promise<{ rule_id: string | null } | null> {
+  const { data, error } = await supabase
+    .from("merchant_corrections")
+    .select(COLUMNS)
+    .eq("id", id)
+    .eq("user_id", userId)
+    .eq("status", "suggested")
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read suggestion: ${error.message}`);
+  if (!data) return null;
+
+  if (action === "dismiss") {
+    await setStatus(id, userId, { status: "dismissed" });
+    return { rule_id: null };
+  }
+  return { rule_id: await createRuleFromCorrection(data as MerchantCorrection) };
+}
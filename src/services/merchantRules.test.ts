@@ -0,0 +1,150 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildRuleMatcher, simulateRule, unsafeRegexReason, validateRule } from "./merchantRules.js";
+import type { UserMerchantMapping } from "../types/index.js";
+
+const rule = (id: string, overrides: Partial<UserMerchantMapping> = {}): UserMerchantMapping => ({
+  id,
+  user_id: "u1",
+  raw_merchant: "",
+  mapped_merchant: "",
+  default_category_id: null,
+  default_is_expense: null,
+  default_is_income: null,
+  amount_operator: null,
+  amount_threshold: null,
+  date_operator: null,
+  date_threshold: null,
+  match_type: "exact",
+  priority: null,
+  conditions: null,
+  ...overrides,
+});
+
+const subject = {
+  merchant: "SWIGGY INSTAMART",
+  amount: 450,
+  direction: "debit" as const,
+  sender: "AD-HDFCBK",
+  bank_name: "HDFC Bank",
+  account_last4: "1234",
+  // Saturday 2025-03-08 22:30 IST
+  transacted_at: "2025-03-08T17:00:00Z",
+};
+
+test("legacy exact/contains rules keep working", () => {
+  const match = buildRuleMatcher([
+    rule("a", { raw_merchant: "swiggy", match_type: "contains", mapped_merchant: "Swiggy" }),
+  ]);
+  assert.equal(match(subject)?.merchant, "Swiggy");
+  assert.equal(match({ ...subject, merchant: "ZOMATO" }), null);
+});
+
+test("higher priority wins regardless of row order", () => {
+  const match = buildRuleMatcher([
+    rule("a", { raw_merchant: "swiggy", match_type: "contains", mapped_merchant: "Food" }),
+    rule("b", { raw_merchant: "^swiggy instamart$", match_type: "regex", mapped_merchant: "Groceries", priority: 10 }),
+  ]);
+  assert.equal(match(subject)?.rule.id, "b");
+});
+
+test("AND/OR groups over sender, account and direction", () => {
+  const match = buildRuleMatcher([
+    rule("card", {
+      mapped_merchant: "Work card",
+      default_is_expense: false,
+      conditions: {
+        op: "and",
+        conditions: [
+          { field: "direction", value: "debit" },
+          {
+            op: "or",
+            conditions: [
+              { field: "account_last4", match: "exact", value: "9999" },
+              { field: "sender", match: "regex", value: "HDFCBK$" },
+            ],
+          },
+        ],
+      },
+    }),
+  ]);
+  const hit = match(subject);
+  assert.equal(hit?.merchant, "Work card");
+  assert.equal(hit?.is_expense, false);
+  assert.equal(match({ ...subject, direction: "credit" }), null);
+});
+
+test("day-of-week and time windows are read in IST, wrapping midnight", () => {
+  const match = buildRuleMatcher([
+    rule("late", {
+      conditions: {
+        op: "and",
+        conditions: [
+          { field: "day_of_week", days: [5, 6] },
+          { field: "time_of_day", from: "22:00", to: "02:00" },
+          { field: "amount", min: 100, max: 1000 },
+        ],
+      },
+    }),
+  ]);
+  assert.equal(match(subject)?.merchant, "SWIGGY INSTAMART");
+  // 15:00 IST the same Saturday
+  assert.equal(match({ ...subject, transacted_at: "2025-03-08T09:30:00Z" }), null);
+  assert.equal(match({ ...subject, amount: 5000 }), null);
+});
+
+test("malformed rules are skipped, not fatal", () => {
+  const bad = rule("bad", { raw_merchant: "(", match_type: "regex" });
+  assert.match(validateRule(bad) ?? "", /regular expression/i);
+  const match = buildRuleMatcher([bad, rule("ok", { raw_merchant: "swiggy instamart", mapped_merchant: "ok" })]);
+  assert.equal(match(subject)?.rule.id, "ok");
+});
+
+test("regexes that can backtrack catastrophically are refused", () => {
+  for (const pattern of ["(a+)+$", "(a|aa)*", "((ab)*c)+", "(\\w+\\s?){2,}", "(x)\\1", "a".repeat(101)]) {
+    assert.notEqual(unsafeRegexReason(pattern), null, pattern);
+  }
+  for (const pattern of ["^swiggy( instamart)?$", "^(swiggy|zomato)", "(ab)+", "[(+]+", "\\(\\d+\\)+", "(?:upi)?"]) {
+    assert.equal(unsafeRegexReason(pattern), null, pattern);
+  }
+  const redos = rule("redos", { raw_merchant: "(a+)+$", match_type: "regex" });
+  assert.match(validateRule(redos) ?? "", /nested quantifiers/);
+  const inTree = rule("tree", {
+    conditions: { op: "and", conditions: [{ field: "sender", match: "regex", value: "(\\d|\\w)+x" }] },
+  });
+  assert.match(validateRule(inTree) ?? "", /refused/);
+});
+
+test("simulation only reports fields the rule sets as changed", () => {
+  const row = (id: string, merchant: string) => ({
+    id,
+    merchant,
+    amount: 300,
+    direction: "debit" as const,
+    sms_sender: null,
+    bank_name: null,
+    account_last4: null,
+    transacted_at: "2025-03-08T10:00:00Z",
+    category_id: "food",
+    is_expense: true,
+    is_income: false,
+    raw_sms: `sms ${id}`,
+  });
+  const matches = simulateRule(
+    rule("draft", { raw_merchant: "swiggy", mapped_merchant: "Swiggy" }),
+    [row("t1", "swiggy"), row("t2", "Swiggy"), row("t3", "zomato")],
+  );
+  assert.deepEqual(matches.map((m) => [m.id, m.changed]), [["t1", true], ["t2", false]]);
+  assert.equal(matches[0].after.category_id, "food");
+
+  // Stored "Swiggy" was mapped from what extraction read as "SWIGGY*BLR";
+  // ingest would test the rule against the latter.
+  const extracted = new Map([["sms t2", "SWIGGY*BLR"]]);
+  const live = simulateRule(
+    rule("draft", { raw_merchant: "swiggy*blr", mapped_merchant: "Swiggy Bangalore" }),
+    [row("t1", "swiggy"), row("t2", "Swiggy")],
+    undefined,
+    extracted,
+  );
+  assert.deepEqual(live.map((m) => [m.id, m.before.merchant, m.after.merchant]), [["t2", "Swiggy", "Swiggy Bangalore"]]);
+});
@@ -0,0 +1,373 @@
+import { z } from "zod";
+import type {
+  RuleComparison,
+  RuleCondition,
+  RuleConditionGroup,
+  UserMerchantMapping,
+} from "../types/index.js";
+import type { RuleSubjectRow } from "./supabase.js";
+import { DEFAULT_TIMEZONE, localParts } from "./timezone.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * User merchant rules (user_merchant_mappings). A rule matches when its flat
+ * columns (raw_merchant + match_type, amount_/date_ operator pairs) AND its
+ * optional `conditions` tree all hold. Rules are tried highest priority
+ * first and the first match wins; ties fall back to id order so the outcome
+ * never depends on the order Supabase happens to return rows in.
+ *
+ * Shared by ingest, the reclassify preview and the Axio import so a rule
+ * behaves the same wherever a transaction enters.
+ */
+
+/** What a rule is evaluated against. */
+export interface RuleSubject {
+  merchant: string | null;
+  /** INR amount (after currency conversion). */
+  amount: number;
+  direction: "credit" | "debit" | null;
+  sender?: string | null;
+  bank_name?: string | null;
+  account_last4?: string | null;
+  transacted_at?: string | null;
+}
+
+export interface RuleOutcome {
+  rule: UserMerchantMapping;
+  /** mapped_merchant, or the original merchant when the rule leaves it blank. */
+  merchant: string | null;
+  category_id: string | null;
+  is_expense: boolean | null;
+  is_income: boolean | null;
+}
+
+export type RuleMatcher = (subject: RuleSubject) => RuleOutcome | null;
+
+interface LocalTime {
+  dayOfMonth: number;
+  dayOfWeek: number;
+  minutes: number;
+}
+
+// Day/time conditions are read in the user's timezone.
+function toLocalTime(iso: string | null | undefined, timeZone: string): LocalTime | null {
+  if (!iso) return null;
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return null;
+  const p = localParts(date, timeZone);
+  return { dayOfMonth: p.day, dayOfWeek: p.weekday, minutes: p.hour * 60 + p.minute };
+}
+
+function compare(actual: number, op: RuleComparison, expected: number): boolean {
+  switch (op) {
+    case "<": return actual < expected;
+    case "<=": return actual <= expected;
+    case ">": return actual > expected;
+    case ">=": return actual >= expected;
+    case "=": return actual === expected;
+  }
+}
+
+function parseClock(hhmm: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return minutes < 24 * 60 ? minutes : null;
+}
+
+type TextMatch = "exact" | "contains" | "regex";
+
+export const MAX_RULE_REGEX_LENGTH = 100;
+
+// Is pattern[i] the start of a quantifier? "(?" opens a group, not a quantifier.
+function isQuantifier(pattern: string, i: number): boolean {
+  const ch = pattern[i];
+  if (ch === "*" || ch === "+") return true;
+  if (ch === "?") return pattern[i - 1] !== "(";
+  return ch === "{" && /^\{\d+(?:,\d*)?\}/.test(pattern.slice(i));
+}
+
+/**
+ * Rule regexes run on the shared event loop against every ingested message,
+ * so a pattern that can backtrack catastrophically would stall the whole
+ * server. Refuse the shapes that can: a quantified group that itself holds a
+ * quantifier or an alternation ((a+)+, (a|aa)*), and backreferences. Returns
+ * why a pattern is refused, or null.
+ */
+export function unsafeRegexReason(pattern: string): string | null {
+  if (pattern.length > MAX_RULE_REGEX_LENGTH) return `longer than ${MAX_RULE_REGEX_LENGTH} characters`;
+  // One flag per open group: does it hold a quantifier or an alternation?
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? "")) return "backreferences are not allowed";
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === "]") inClass = false;
+      continue;
+    }
+    if (ch === "[") {
+      inClass = true;
+    } else if (ch === "(") {
+      groups.push(false);
+    } else if (ch === ")") {
+      const risky = groups.pop() ?? false;
+      if (risky && isQuantifier(pattern, i + 1)) return "nested quantifiers can backtrack catastrophically";
+      if (risky && groups.length > 0) groups[groups.length - 1] = true;
+    } else if ((ch === "|" || isQuantifier(pattern, i)) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return null;
+}
+
+/** Case-insensitive text test; throws on an invalid or unsafe regex so compileRule can reject the rule. */
+function textMatcher(match: TextMatch, value: string): (actual: string | null | undefined) => boolean {
+  if (match === "regex") {
+    const unsafe = unsafeRegexReason(value);
+    if (unsafe) throw new Error(`Regex "${value}" refused: ${unsafe}`);
+    const re = new RegExp(value, "i");
+    return (actual) => actual != null && re.test(actual);
+  }
+  const expected = value.toLowerCase().trim();
+  if (match === "contains") return (actual) => actual != null && actual.toLowerCase().includes(expected);
+  return (actual) => actual != null && actual.toLowerCase().trim() === expected;
+}
+
+type Predicate = (subject: RuleSubject, local: LocalTime | null) => boolean;
+
+function isGroup(node: RuleCondition | RuleConditionGroup): node is RuleConditionGroup {
+  return "conditions" in node;
+}
+
+function compileCondition(node: RuleCondition | RuleConditionGroup): Predicate {
+  if (isGroup(node)) {
+    const children = node.conditions.map(compileCondition);
+    if (node.op === "or") return (s, t) => children.some((c) => c(s, t));
+    return (s, t) => children.every((c) => c(s, t));
+  }
+
+  switch (node.field) {
+    case "merchant":
+    case "sender":
+    case "bank_name":
+    case "account_last4": {
+      const field = node.field;
+      const test = textMatcher(node.match, node.value);
+      return (s) => test(s[field]);
+    }
+    case "direction":
+      return (s) => s.direction === node.value;
+    case "amount":
+      if ("op" in node) return (s) => compare(s.amount, node.op, node.value);
+      return (s) =>
+        (node.min === undefined || s.amount >= node.min) &&
+        (node.max === undefined || s.amount <= node.max);
+    case "day_of_month":
+      return (_s, t) => t !== null && compare(t.dayOfMonth, node.op, node.value);
+    case "day_of_week": {
+      const days = new Set(node.days);
+      return (_s, t) => t !== null && days.has(t.dayOfWeek);
+    }
+    case "time_of_day": {
+      const from = parseClock(node.from);
+      const to = parseClock(node.to);
+      if (from === null || to === null) throw new Error(`Invalid time window ${node.from}-${node.to}`);
+      return (_s, t) => {
+        if (t === null) return false;
+        return from <= to
+          ? t.minutes >= from && t.minutes < to
+          : t.minutes >= from || t.minutes < to;
+      };
+    }
+    default:
+      throw new Error(`Unknown condition field: ${(node as { field?: unknown }).field}`);
+  }
+}
+
+/** Flat columns + conditions tree → one predicate. Throws if the rule is malformed. */
+function compileRule(rule: UserMerchantMapping): Predicate {
+  const predicates: Predicate[] = [];
+
+  if (rule.raw_merchant && rule.raw_merchant.trim()) {
+    const test = textMatcher(rule.match_type ?? "exact", rule.raw_merchant);
+    predicates.push((s) => test(s.merchant));
+  }
+  if (rule.amount_operator && rule.amount_threshold !== null) {
+    const { amount_operator: op, amount_threshold: threshold } = rule;
+    predicates.push((s) => compare(s.amount, op, threshold));
+  }
+  if (rule.date_operator && rule.date_threshold !== null) {
+    const { date_operator: op, date_threshold: threshold } = rule;
+    predicates.push((_s, t) => t === null || compare(t.dayOfMonth, op, threshold));
+  }
+  if (rule.conditions) predicates.push(compileCondition(rule.conditions));
+
+  return (s, t) => predicates.every((p) => p(s, t));
+}
+
+export function sortRules(rules: UserMerchantMapping[]): UserMerchantMapping[] {
+  return [...rules].sort(
+    (a, b) => (b.priority ?? 0) - (a.priority ?? 0) || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Check a rule without evaluating it; returns the reason it would be
+ * ignored, or null if it's usable.
+ */
+export function validateRule(rule: UserMerchantMapping): string | null {
+  try {
+    compileRule(rule);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/**
+ * Compile the user's rules once per batch. Malformed rules (bad or unsafe
+ * regex, unknown field) are logged and skipped rather than failing the batch.
+ */
+export function buildRuleMatcher(
+  rules: UserMerchantMapping[],
+  logPrefix = "[Rules]",
+  timeZone: string = DEFAULT_TIMEZONE,
+): RuleMatcher {
+  const compiled: { rule: UserMerchantMapping; test: Predicate }[] = [];
+  for (const rule of sortRules(rules)) {
+    try {
+      compiled.push({ rule, test: compileRule(rule) });
+    } catch (err) {
+      createLogger(logPrefix).warn(`Ignoring merchant rule ${rule.id}`, { err });
+    }
+  }
+
+  return (subject) => {
+    if (compiled.length === 0) return null;
+    const local = toLocalTime(subject.transacted_at, timeZone);
+    const hit = compiled.find((c) => c.test(subject, local));
+    if (!hit) return null;
+    const { rule } = hit;
+    return {
+      rule,
+      merchant: rule.mapped_merchant?.trim() ? rule.mapped_merchant : subject.merchant,
+      category_id: rule.default_category_id,
+      is_expense: rule.default_is_expense ?? null,
+      is_income: rule.default_is_income ?? null,
+    };
+  };
+}
+
+// ── Draft rules (simulate / create) ─────────────────────────────────────────
+
+const TextMatchSchema = z.enum(["exact", "contains", "regex"]);
+const ComparisonSchema = z.enum(["<", ">", "<=", ">=", "="]);
+
+const RuleConditionSchema = z.union([
+  z.object({
+    field: z.enum(["merchant", "sender", "bank_name", "account_last4"]),
+    match: TextMatchSchema,
+    value: z.string().min(1),
+  }),
+  z.object({ field: z.literal("direction"), value: z.enum(["credit", "debit"]) }),
+  z.object({ field: z.literal("amount"), op: ComparisonSchema, value: z.number() }),
+  z.object({ field: z.literal("amount"), min: z.number().optional(), max: z.number().optional() }),
+  z.object({ field: z.literal("day_of_month"), op: ComparisonSchema, value: z.number().int().min(1).max(31) }),
+  z.object({ field: z.literal("day_of_week"), days: z.array(z.number().int().min(0).max(6)).min(1) }),
+  z.object({ field: z.literal("time_of_day"), from: z.string(), to: z.string() }),
+]);
+
+export const RuleConditionGroupSchema: z.ZodType<RuleConditionGroup> = z.lazy(() =>
+  z.object({
+    op: z.enum(["and", "or"]),
+    conditions: z.array(z.union([RuleConditionSchema, RuleConditionGroupSchema])).min(1),
+  })
+);
+
+/** A user_merchant_mappings row as the client drafts it (no id / user_id yet). */
+export const MerchantRuleDraftSchema = z.object({
+  raw_merchant: z.string().default(""),
+  mapped_merchant: z.string().default(""),
+  default_category_id: z.string().uuid().nullable().default(null),
+  default_is_expense: z.boolean().nullable().default(null),
+  default_is_income: z.boolean().nullable().default(null),
+  amount_operator: ComparisonSchema.nullable().default(null),
+  amount_threshold: z.number().nullable().default(null),
+  date_operator: ComparisonSchema.nullable().default(null),
+  date_threshold: z.number().int().nullable().default(null),
+  match_type: TextMatchSchema.default("exact"),
+  priority: z.number().int().nullable().default(null),
+  conditions: RuleConditionGroupSchema.nullable().default(null),
+});
+export type MerchantRuleDraft = z.infer<typeof MerchantRuleDraftSchema>;
+
+type RuleFields = Pick<RuleSubjectRow, "merchant" | "category_id" | "is_expense" | "is_income">;
+
+export interface SimulatedMatch {
+  id: string;
+  transacted_at: string;
+  amount: number;
+  direction: "credit" | "debit";
+  before: RuleFields;
+  after: RuleFields;
+  changed: boolean;
+}
+
+/**
+ * Run one rule over stored transactions. As at ingest, a row is matched on
+ * the merchant extraction produced (`extracted`, keyed by message body, see
+ * getExtractedMerchants), not the stored one a mapping may have rewritten;
+ * rows with no sync_run record (manual, imported) fall back to the stored
+ * merchant. Only the fields the rule sets change — category-derived
+ * is_expense defaults are left to ingest.
+ */
+export function simulateRule(
+  rule: UserMerchantMapping,
+  rows: RuleSubjectRow[],
+  timeZone: string = DEFAULT_TIMEZONE,
+  extracted: Map<string, string | null> = new Map(),
+): SimulatedMatch[] {
+  const match = buildRuleMatcher([rule], "[Rules]", timeZone);
+  const out: SimulatedMatch[] = [];
+  for (const row of rows) {
+    const hit = match({
+      merchant: row.raw_sms !== null && extracted.has(row.raw_sms) ? extracted.get(row.raw_sms)! : row.merchant,
+      amount: row.amount,
+      direction: row.direction,
+      sender: row.sms_sender,
+      bank_name: row.bank_name,
+      account_last4: row.account_last4,
+      transacted_at: row.transacted_at,
+    });
+    if (!hit) continue;
+
+    const before: RuleFields = {
+      merchant: row.merchant,
+      category_id: row.category_id,
+      is_expense: row.is_expense,
+      is_income: row.is_income,
+    };
+    const after: RuleFields = {
+      merchant: hit.merchant,
+      category_id: hit.category_id ?? row.category_id,
+      is_expense: hit.is_expense ?? row.is_expense,
+      is_income: hit.is_income ?? row.is_income,
+    };
+    const changed = (Object.keys(before) as (keyof RuleFields)[]).some((k) => before[k] !== after[k]);
+    out.push({
+      id: row.id,
+      transacted_at: row.transacted_at,
+      amount: row.amount,
+      direction: row.direction,
+      before,
+      after,
+      changed,
+    });
+  }
+  return out;
+}
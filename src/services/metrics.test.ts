@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRegistry } from "./metrics.js";
+
+test("counters and gauges render one line per label set, with escaped values", () => {
+  const registry = createRegistry();
+  const results = registry.counter("test_results_total", "Results.");
+  const depth = registry.gauge("test_depth", "Depth.");
+  results.inc({ source: "email", status: "inserted" }, 3);
+  results.inc({ status: "inserted", source: "email" });
+  results.inc({ source: "sms", reason: 'say "hi"\n' });
+  results.inc({ source: "sms" }, 0);
+  depth.inc();
+  depth.inc();
+  depth.dec();
+
+  assert.equal(
+    registry.render(),
+    [
+      "# HELP test_results_total Results.",
+      "# TYPE test_results_total counter",
+      'test_results_total{source="email",status="inserted"} 4',
+      'test_results_total{source="sms",reason="say \\"hi\\"\\n"} 1',
+      "# HELP test_depth Depth.",
+      "# TYPE test_depth gauge",
+      "test_depth 1",
+      "",
+    ].join("\n"),
+  );
+});
+
+test("histograms render cumulative buckets, sum and count", () => {
+  const registry = createRegistry();
+  const latency = registry.histogram("test_seconds", "Latency.", [1, 5]);
+  latency.observe({ pass: "pass1" }, 0.5);
+  latency.observe({ pass: "pass1" }, 3);
+  latency.observe({ pass: "pass1" }, 10);
+
+  const lines = registry.render().split("\n");
+  assert.deepEqual(lines.slice(2, 7), [
+    'test_seconds_bucket{pass="pass1",le="1"} 1',
+    'test_seconds_bucket{pass="pass1",le="5"} 2',
+    'test_seconds_bucket{pass="pass1",le="+Inf"} 3',
+    'test_seconds_sum{pass="pass1"} 13.5',
+    'test_seconds_count{pass="pass1"} 3',
+  ]);
+});
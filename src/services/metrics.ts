@@ -0,0 +1,203 @@
+/**
+ * Prometheus metrics, kept in memory and rendered in the text exposition
+ * format at GET /metrics. One process serves everything (see ingest-lock.ts),
+ * so there is nothing to aggregate across instances.
+ *
+ * Label values must come from small fixed sets (sources, models, skip
+ * reasons) — never user ids or message text.
+ */
+
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export interface Counter {
+  inc(labels?: Labels, by?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+  inc(labels?: Labels, by?: number): void;
+  dec(labels?: Labels, by?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+  /** Start a timer; the returned function observes the elapsed seconds. */
+  startTimer(labels?: Labels): () => number;
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const all = { ...labels, ...extra };
+  const parts = Object.entries(all).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+function formatValue(v: number): string {
+  if (v === Infinity) return "+Inf";
+  if (v === -Infinity) return "-Inf";
+  return String(v);
+}
+
+/** Seconds-scale buckets for AI calls and batch passes. */
+export const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export function createRegistry() {
+  const renderers: (() => string[])[] = [];
+
+  function header(name: string, help: string, type: string): string[] {
+    return [`# HELP ${name} ${help.replace(/\n/g, " ")}`, `# TYPE ${name} ${type}`];
+  }
+
+  function scalar(name: string, help: string, type: "counter" | "gauge") {
+    const series = new Map<string, Series>();
+    const bump = (labels: Labels, by: number) => {
+      const key = seriesKey(labels);
+      const s = series.get(key) ?? { labels, value: 0 };
+      s.value += by;
+      series.set(key, s);
+    };
+    renderers.push(() => [
+      ...header(name, help, type),
+      ...[...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+    ]);
+    return { series, bump };
+  }
+
+  return {
+    counter(name: string, help: string): Counter {
+      const { bump } = scalar(name, help, "counter");
+      return {
+        inc: (labels = {}, by = 1) => {
+          if (by > 0) bump(labels, by);
+        },
+      };
+    },
+
+    gauge(name: string, help: string): Gauge {
+      const { series, bump } = scalar(name, help, "gauge");
+      return {
+        set: (labels, value) => {
+          series.set(seriesKey(labels), { labels, value });
+        },
+        inc: (labels = {}, by = 1) => bump(labels, by),
+        dec: (labels = {}, by = 1) => bump(labels, -by),
+      };
+    },
+
+    histogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS): Histogram {
+      const series = new Map<string, HistogramSeries>();
+      const observe = (labels: Labels, value: number) => {
+        const key = seriesKey(labels);
+        const s = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        buckets.forEach((le, i) => {
+          if (value <= le) s.counts[i]++;
+        });
+        s.sum += value;
+        s.count++;
+        series.set(key, s);
+      };
+      renderers.push(() => {
+        const lines = header(name, help, "histogram");
+        for (const s of series.values()) {
+          buckets.forEach((le, i) => {
+            lines.push(`${name}_bucket${formatLabels(s.labels, { le: formatValue(le) })} ${s.counts[i]}`);
+          });
+          lines.push(`${name}_bucket${formatLabels(s.labels, { le: "+Inf" })} ${s.count}`);
+          lines.push(`${name}_sum${formatLabels(s.labels)} ${s.sum}`);
+          lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+        }
+        return lines;
+      });
+      return {
+        observe,
+        startTimer: (labels = {}) => {
+          const start = process.hrtime.bigint();
+          return () => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            observe(labels, seconds);
+            return seconds;
+          };
+        },
+      };
+    },
+
+    /** The whole registry in the Prometheus text format. */
+    render(): string {
+      return renderers.flatMap((r) => r()).join("\n") + "\n";
+    },
+  };
+}
+
+// ── Application metrics ─────────────────────────────────────────────────────
+
+const registry = createRegistry();
+
+export const renderMetrics = registry.render;
+
+export const messagesIngested = registry.counter(
+  "mtwallet_ingest_messages_total",
+  "Messages processed by the ingest pipeline, by source.",
+);
+export const ingestResults = registry.counter(
+  "mtwallet_ingest_results_total",
+  "Per-message ingest outcomes: inserted, skipped or error, with a reason.",
+);
+export const dedupHits = registry.counter(
+  "mtwallet_dedup_hits_total",
+  "Transactions dropped as duplicates, by dedup layer.",
+);
+export const ingestJobs = registry.counter(
+  "mtwallet_ingest_jobs_total",
+  "Ingest job attempts by outcome: succeeded, failed or retried.",
+);
+export const ingestLockDepth = registry.gauge(
+  "mtwallet_ingest_lock_queue_depth",
+  "Batches running or waiting behind the per-user ingest lock.",
+);
+
+export const aiPassDuration = registry.histogram(
+  "mtwallet_ai_pass_duration_seconds",
+  "Wall time of one AI pass over a batch (all chunks), by pass.",
+);
+export const aiTokens = registry.counter(
+  "mtwallet_ai_tokens_total",
+  "Tokens billed by model and type (input, output, reasoning).",
+);
+export const aiFallbacks = registry.counter(
+  "mtwallet_ai_fallbacks_total",
+  "AI calls that exhausted a model and fell back to the next in its chain, by pass.",
+);
+
+export const gmailHistoryLag = registry.gauge(
+  "mtwallet_gmail_history_lag",
+  "Gmail historyIds between the stored cursor and the latest notification.",
+);
+
+export const enrichmentPassDuration = registry.histogram(
+  "mtwallet_enrichment_pass_duration_seconds",
+  "Wall time of an enrichment pass.",
+  [1, 5, 15, 30, 60, 120, 300, 600, 1800],
+);
+export const enrichmentSpend = registry.counter(
+  "mtwallet_enrichment_spend_rupees_total",
+  "Estimated rupees spent on enrichment model calls.",
+);
@@ -1,27 +1,26 @@
 import { z } from "zod";
 import { supabase } from "./supabase.js";
+import { DEFAULT_TIMEZONE, currentLocalMonth, localDate } from "./timezone.js";
+import { allocateSplits } from "./splits.js";
+import { emitWebhookEvent } from "./webhooks.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("review");
 
 /**
  * The agent-facing monthly review pipeline. Code owns every number:
  * buildReviewPayload resolves transactions exactly like the frontend
  * (duplicate exclusion, refund netting on both sides, is_expense/is_income
- * gating, combined-view split: groups whole, categories ungrouped-only) and
- * hands the agent ordinal-tagged transactions. The agent only returns
- * label + ordinals; storeReview sums every group/slice from the referenced
- * ordinals and rejects the whole submission unless each item is covered
- * exactly once and every sum reconciles to the paisa.
+ * gating, combined-view split: groups whole, categories ungrouped-only,
+ * split transactions counted per split category) and hands the agent
+ * ordinal-tagged transactions. The agent only returns label + ordinals;
+ * storeReview sums every group/slice from the referenced ordinals and
+ * rejects the whole submission unless each item is covered exactly once and
+ * every sum reconciles to the paisa.
  */
 
-const TZ = "Asia/Kolkata";
-const istDate = new Intl.DateTimeFormat("en-CA", {
-  timeZone: TZ,
-  year: "numeric",
-  month: "2-digit",
-  day: "2-digit",
-});
-const istDay = (iso: string) => istDate.format(new Date(iso));
-const istYearMonth = (iso: string) => istDay(iso).slice(0, 7);
-export const currentIstMonth = () => istDate.format(new Date()).slice(0, 7);
+// Months and day labels are read in the user's timezone (IST by default).
+export const currentReviewMonth = (timeZone: string = DEFAULT_TIMEZONE) => currentLocalMonth(timeZone);
 
 const round2 = (n: number) => Math.round(n * 100) / 100;
 
@@ -32,6 +31,8 @@ export interface PayloadTxn {
   note: string | null;
   amount: number;
   refunded?: number;
+  /** Set on a transaction_splits part: "2/3" is the second of three. */
+  part?: string;
 }
 export interface PayloadItem {
   key: string;
@@ -52,10 +53,47 @@ export interface ReviewPayload {
   known_group_labels: string[];
 }
 
+interface TxnRow {
+  id: string;
+  amount: number | string;
+  merchant: string | null;
+  notes: string | null;
+  transacted_at: string;
+  direction: "credit" | "debit";
+  is_expense: boolean;
+  is_income: boolean;
+  category_id: string | null;
+  group_id: string | null;
+}
+
+interface RefundLinkRow {
+  original_transaction_id: string;
+  refund_transaction_id: string;
+  linked_amount: number | string | null;
+}
+
+interface SplitRow {
+  id: string;
+  transaction_id: string;
+  category_id: string | null;
+  amount: number;
+  note: string | null;
+  position: number;
+}
+
+interface PriorSummaryRow {
+  spend_slices: { label: string }[] | null;
+  category_breakdowns: { groups?: { label: string }[] }[] | null;
+}
+
+// The builder's generics can't follow a table name chosen at run time.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type QueryFilter = (q: any) => any;
+
 async function fetchAll<T>(
   table: string,
   columns: string,
-  filter: (q: any) => any = (q) => q,
+  filter: QueryFilter = (q) => q,
 ): Promise<T[]> {
   const PAGE = 1000;
   const rows: T[] = [];
@@ -70,27 +108,33 @@ async function fetchAll<T>(
   return rows;
 }
 
-export async function buildReviewPayload(userId: string, month: string): Promise<ReviewPayload> {
+export async function buildReviewPayload(
+  userId: string,
+  month: string,
+  timeZone: string = DEFAULT_TIMEZONE,
+): Promise<ReviewPayload> {
   const [y, m] = month.split("-").map(Number);
-  // Padded UTC window so IST month-edge transactions are never missed.
+  const localDay = (iso: string) => localDate(iso, timeZone);
+  // Padded UTC window (wider than any UTC offset) so local month-edge
+  // transactions are never missed.
   const windowStart = new Date(Date.UTC(y, m - 1, 1) - 36 * 3600 * 1000).toISOString();
   const windowEnd = new Date(Date.UTC(y, m, 1) + 36 * 3600 * 1000).toISOString();
 
   const [txnsRaw, refundLinks, duplicateLinks, categories, groups, priorSummaries] =
     await Promise.all([
-      fetchAll<any>(
+      fetchAll<TxnRow>(
         "transactions",
         "id, amount, merchant, notes, transacted_at, direction, is_expense, is_income, category_id, group_id",
         (q) => q.eq("user_id", userId).gte("transacted_at", windowStart).lte("transacted_at", windowEnd),
       ),
-      fetchAll<any>("refund_links", "original_transaction_id, refund_transaction_id, linked_amount", (q) =>
+      fetchAll<RefundLinkRow>("refund_links", "original_transaction_id, refund_transaction_id, linked_amount", (q) =>
         q.eq("user_id", userId),
       ),
-      fetchAll<any>("duplicate_links", "duplicate_transaction_id", (q) => q.eq("user_id", userId)),
-      fetchAll<any>("categories", "id, name, slug", (q) =>
+      fetchAll<{ duplicate_transaction_id: string }>("duplicate_links", "duplicate_transaction_id", (q) => q.eq("user_id", userId)),
+      fetchAll<{ id: string; name: string; slug: string }>("categories", "id, name, slug", (q) =>
         q.or(`is_system.eq.true,user_id.eq.${userId}`),
       ),
-      fetchAll<any>("transaction_groups", "id, name", (q) => q.eq("user_id", userId)),
+      fetchAll<{ id: string; name: string }>("transaction_groups", "id, name", (q) => q.eq("user_id", userId)),
       supabase
         .from("monthly_summaries")
         .select("month, spend_slices, category_breakdowns")
@@ -104,6 +148,19 @@ export async function buildReviewPayload(userId: string, month: string): Promise
         }),
     ]);
 
+  // Splits of this month's transactions only, in id batches short enough
+  // for a query string.
+  const splitRows: SplitRow[] = [];
+  const txnIds = txnsRaw.map((t) => t.id);
+  for (let i = 0; i < txnIds.length; i += 200) {
+    const ids = txnIds.slice(i, i + 200);
+    splitRows.push(
+      ...(await fetchAll<SplitRow>("transaction_splits", "id, transaction_id, category_id, amount, note, position", (q) =>
+        q.eq("user_id", userId).in("transaction_id", ids),
+      )),
+    );
+  }
+
   const refundTotals: Record<string, number> = {};
   const refundAllocations: Record<string, number> = {};
   for (const l of refundLinks) {
@@ -112,9 +169,16 @@ export async function buildReviewPayload(userId: string, month: string): Promise
     refundTotals[l.original_transaction_id] = (refundTotals[l.original_transaction_id] || 0) + amt;
     refundAllocations[l.refund_transaction_id] = (refundAllocations[l.refund_transaction_id] || 0) + amt;
   }
-  const duplicateExcludeIds = new Set(duplicateLinks.map((l: any) => l.duplicate_transaction_id));
-  const catById = new Map(categories.map((c: any) => [c.id, c]));
-  const groupById = new Map(groups.map((g: any) => [g.id, g]));
+  const duplicateExcludeIds = new Set(duplicateLinks.map((l) => l.duplicate_transaction_id));
+  const catById = new Map(categories.map((c) => [c.id, c]));
+  const groupById = new Map(groups.map((g) => [g.id, g]));
+  const splitsByTxn = new Map<string, SplitRow[]>();
+  for (const s of splitRows) {
+    const list = splitsByTxn.get(s.transaction_id) ?? [];
+    list.push({ ...s, amount: Number(s.amount) });
+    splitsByTxn.set(s.transaction_id, list);
+  }
+  for (const list of splitsByTxn.values()) list.sort((a, b) => a.position - b.position);
 
   const itemsByKey = new Map<string, PayloadItem>();
   const incomeLines: ReviewPayload["income_lines"] = [];
@@ -124,7 +188,7 @@ export async function buildReviewPayload(userId: string, month: string): Promise
   let n = 0;
 
   for (const t of txnsRaw) {
-    if (istYearMonth(t.transacted_at) !== month) continue;
+    if (localDay(t.transacted_at).slice(0, 7) !== month) continue;
     if (duplicateExcludeIds.has(t.id)) {
       excluded.duplicates++;
       continue;
@@ -135,7 +199,7 @@ export async function buildReviewPayload(userId: string, month: string): Promise
       const net = round2(Math.max(amount - (refundAllocations[t.id] ?? 0), 0));
       if (net > 0) {
         totalIncome = round2(totalIncome + net);
-        incomeLines.push({ d: istDay(t.transacted_at), merchant: t.merchant, note: t.notes, amount: net });
+        incomeLines.push({ d: localDay(t.transacted_at), merchant: t.merchant, note: t.notes, amount: net });
       }
     }
 
@@ -151,44 +215,64 @@ export async function buildReviewPayload(userId: string, month: string): Promise
     }
     totalSpent = round2(totalSpent + net);
 
-    let key: string, kind: "group" | "category", name: string, slug: string | null;
-    if (t.group_id) {
-      key = `group:${t.group_id}`;
-      kind = "group";
-      name = groupById.get(t.group_id)?.name ?? "Unknown Group";
-      slug = null;
-    } else {
-      const cat = t.category_id ? catById.get(t.category_id) : null;
-      key = `cat:${t.category_id ?? "uncategorized"}`;
-      kind = "category";
-      name = cat?.name ?? "Uncategorized";
-      slug = cat?.slug ?? "uncategorized";
-    }
-
-    const item = itemsByKey.get(key) ?? { key, kind, name, slug, total: 0, txns: [] };
-    n += 1;
-    item.txns.push({
-      n,
-      d: istDay(t.transacted_at),
+    const add = (
+      key: string,
+      kind: "group" | "category",
+      name: string,
+      slug: string | null,
+      txn: Omit<PayloadTxn, "n">,
+    ) => {
+      const item = itemsByKey.get(key) ?? { key, kind, name, slug, total: 0, txns: [] };
+      n += 1;
+      item.txns.push({ n, ...txn });
+      item.total = round2(item.total + txn.amount);
+      itemsByKey.set(key, item);
+    };
+    const categoryItem = (categoryId: string | null) => {
+      const cat = categoryId ? catById.get(categoryId) : null;
+      const key = `cat:${categoryId ?? "uncategorized"}`;
+      return [key, cat?.name ?? "Uncategorized", cat?.slug ?? "uncategorized"] as const;
+    };
+    const line = {
+      d: localDay(t.transacted_at),
       merchant: t.merchant ?? null,
       note: t.notes ?? null,
       amount: net,
       ...(refundTotals[t.id] ? { refunded: round2(refundTotals[t.id]) } : {}),
-    });
-    item.total = round2(item.total + net);
-    itemsByKey.set(key, item);
+    };
+
+    // Groups stay whole; an ungrouped split transaction becomes one line per
+    // split, each in its own category, netted of refunds pro rata.
+    const splits = t.group_id ? undefined : splitsByTxn.get(t.id);
+    if (t.group_id) {
+      add(`group:${t.group_id}`, "group", groupById.get(t.group_id)?.name ?? "Unknown Group", null, line);
+    } else if (splits && splits.length > 0) {
+      allocateSplits(net, amount, splits).forEach(({ split, amount: part }, i) => {
+        if (part <= 0) return;
+        const [key, name, slug] = categoryItem(split.category_id);
+        add(key, "category", name, slug, {
+          ...line,
+          note: split.note ?? line.note,
+          amount: part,
+          part: `${i + 1}/${splits.length}`,
+        });
+      });
+    } else {
+      const [key, name, slug] = categoryItem(t.category_id);
+      add(key, "category", name, slug, line);
+    }
   }
 
   const sliceLabels = new Set<string>();
   const groupLabels = new Set<string>();
-  for (const s of priorSummaries as any[]) {
+  for (const s of priorSummaries as PriorSummaryRow[]) {
     for (const sl of s.spend_slices ?? []) sliceLabels.add(sl.label);
     for (const b of s.category_breakdowns ?? []) for (const g of b.groups ?? []) groupLabels.add(g.label);
   }
 
   return {
     month,
-    timezone: TZ,
+    timezone: timeZone,
     totals: { spent: totalSpent, income: totalIncome },
     items: [...itemsByKey.values()].sort((a, b) => b.total - a.total),
     income_lines: incomeLines.sort((a, b) => b.amount - a.amount),
@@ -394,9 +478,16 @@ export async function storeReview(
   });
   if (error) throw new Error(`summary upsert failed: ${error.message}`);
 
-  console.log(
-    `[review] stored ${payload.month} for ${userId} via ${submission.review.model}: ` +
+  log.info(
+    `Stored ${payload.month} for ${userId} via ${submission.review.model}: ` +
       `${breakdowns.length} items, ${storedSlices.length} slices${submission.slices.length === 0 ? " (carried over)" : ""}`,
   );
+  void emitWebhookEvent(userId, "review.stored", {
+    month: payload.month,
+    summary: submission.review.summary,
+    highlights: submission.review.highlights,
+    totals: payload.totals,
+    model: submission.review.model,
+  });
   return { stored: true, items: breakdowns.length, slices: storedSlices.length };
 }
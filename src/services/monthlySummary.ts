@@ -1,9 +1,10 @@
-import { google } from "@ai-sdk/google";
-import { generateObject } from "ai";
+import { generateObject, type LanguageModel } from "ai";
 import { z } from "zod";
 import { supabase } from "./supabase.js";
+import { chainFor } from "./llm.js";
+import { createLogger } from "./logger.js";
 
-const SUMMARY_MODEL = "gemini-2.5-flash";
+const log = createLogger("monthly-summary");
 
 /**
  * Layer D: the frontend computes every number (transactionMath owns refunds,
@@ -47,18 +48,36 @@ Rules:
 - If recurring_monthly_committed is present, mention it as the fixed monthly commitment.
 - If loans_outstanding is present and > 0, mention money currently lent out.`;
 
-export async function generateMonthlySummary(
-  userId: string,
-  aggregates: MonthlyAggregates,
-): Promise<{ summary: string; highlights: string[]; model: string; usage: Record<string, number> }> {
-  const res = await generateObject({
-    model: google(SUMMARY_MODEL),
+function generateSummaryObject(model: LanguageModel, aggregates: MonthlyAggregates) {
+  return generateObject({
+    model,
     schema: SummaryResultSchema,
     system: SYSTEM_PROMPT,
     prompt: `MONTH DATA:\n\`\`\`json\n${JSON.stringify(aggregates)}\n\`\`\``,
     temperature: 0.4,
     maxRetries: 0,
   });
+}
+
+async function generateWithFallback(aggregates: MonthlyAggregates) {
+  const chain = chainFor("summarize");
+  for (const [i, entry] of chain.entries()) {
+    try {
+      return { res: await generateSummaryObject(entry.languageModel, aggregates), provider: entry.provider, model: entry.model };
+    } catch (err) {
+      const next = chain[i + 1];
+      if (!next) throw err;
+      log.warn(`Summary on ${entry.model} failed (${(err as Error).message}); falling back to ${next.model}`);
+    }
+  }
+  throw new Error("No models configured for summarize");
+}
+
+export async function generateMonthlySummary(
+  userId: string,
+  aggregates: MonthlyAggregates,
+): Promise<{ summary: string; highlights: string[]; provider: string; model: string; usage: Record<string, number> }> {
+  const { res, provider, model } = await generateWithFallback(aggregates);
 
   const usage = {
     input: res.usage?.inputTokens ?? 0,
@@ -73,10 +92,10 @@ export async function generateMonthlySummary(
     highlights: res.object.highlights,
     aggregates,
     usage,
-    model: SUMMARY_MODEL,
+    model,
     generated_at: new Date().toISOString(),
   });
   if (error) throw new Error(`summary upsert failed: ${error.message}`);
 
-  return { summary: res.object.summary, highlights: res.object.highlights, model: SUMMARY_MODEL, usage };
+  return { summary: res.object.summary, highlights: res.object.highlights, provider, model, usage };
 }
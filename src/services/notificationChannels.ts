@@ -0,0 +1,197 @@
+import webpush from "web-push";
+import nodemailer, { type Transporter } from "nodemailer";
+import { z } from "zod";
+import { env } from "../config/env.js";
+import { unsafeUrlReason } from "./outboundUrl.js";
+
+/**
+ * Delivery backends for notifier.ts. Each channel takes its per-user config
+ * (validated by ChannelConfigSchema on the way in) and a rendered
+ * Notification, and throws on failure — the notifier records the failure.
+ * Errors with code CHANNEL_GONE mean the destination no longer exists (an
+ * expired push subscription) and the channel should be switched off.
+ */
+
+export interface Notification {
+  title: string;
+  body: string;
+  /** Deep link opened when the notification is tapped. */
+  url?: string;
+  /**
+   * The raw record and its table, for the Supabase Edge Function, which
+   * renders its own message from them.
+   */
+  edge: { type: string; table: string; record: unknown };
+}
+
+export const CHANNEL_GONE = "CHANNEL_GONE";
+
+export const ChannelConfigSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("edge_function"), config: z.object({}).default({}) }),
+  z.object({
+    kind: z.literal("web_push"),
+    config: z.object({
+      endpoint: z.string().url(),
+      keys: z.object({ p256dh: z.string().min(1), auth: z.string().min(1) }),
+    }),
+  }),
+  z.object({
+    kind: z.literal("ntfy"),
+    // Full topic URL, e.g. https://ntfy.sh/my-wallet-alerts
+    config: z.object({ url: z.string().url(), token: z.string().min(1).optional() }),
+  }),
+  z.object({
+    kind: z.literal("gotify"),
+    // Server base URL and an application token
+    config: z.object({ url: z.string().url(), token: z.string().min(1) }),
+  }),
+  z.object({ kind: z.literal("email"), config: z.object({ to: z.string().email() }) }),
+]);
+export type ChannelConfig = z.infer<typeof ChannelConfigSchema>;
+export type ChannelKind = ChannelConfig["kind"];
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+async function postOk(url: string, init: RequestInit): Promise<void> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ""}`);
+  }
+}
+
+/**
+ * Why a channel's user-supplied URL (web push endpoint, ntfy, gotify) must
+ * not be called, or null. Checked when the channel is created and before
+ * every send.
+ */
+export async function channelUrlProblem(channel: ChannelConfig): Promise<string | null> {
+  switch (channel.kind) {
+    case "web_push":
+      return unsafeUrlReason(channel.config.endpoint);
+    case "ntfy":
+    case "gotify":
+      return unsafeUrlReason(channel.config.url);
+    default:
+      return null;
+  }
+}
+
+// A user's server may only be reached at a public address, and may not
+// redirect us elsewhere.
+async function postToUserUrl(url: string, init: RequestInit): Promise<void> {
+  const unsafe = await unsafeUrlReason(url);
+  if (unsafe) throw new Error(`Refused: ${unsafe}`);
+  await postOk(url, { ...init, redirect: "manual" });
+}
+
+async function sendEdgeFunction(n: Notification): Promise<void> {
+  await postOk(`${env.supabaseUrl}/functions/v1/send-push-notification`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${env.supabaseServiceRoleKey}`,
+    },
+    body: JSON.stringify(n.edge),
+  });
+}
+
+async function sendWebPush(
+  subscription: Extract<ChannelConfig, { kind: "web_push" }>["config"],
+  n: Notification,
+): Promise<void> {
+  if (!env.vapidPublicKey || !env.vapidPrivateKey) {
+    throw new Error("VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY not set");
+  }
+  // The endpoint comes from the browser, i.e. from the user. web-push sends
+  // with a bare https.request, which never follows redirects.
+  const unsafe = await unsafeUrlReason(subscription.endpoint);
+  if (unsafe) throw new Error(`Refused: ${unsafe}`);
+  try {
+    await webpush.sendNotification(
+      subscription,
+      JSON.stringify({ title: n.title, body: n.body, url: n.url }),
+      {
+        vapidDetails: { subject: env.vapidSubject, publicKey: env.vapidPublicKey, privateKey: env.vapidPrivateKey },
+        TTL: 24 * 60 * 60,
+        timeout: REQUEST_TIMEOUT_MS,
+      },
+    );
+  } catch (err) {
+    // 404 / 410: the browser dropped the subscription for good.
+    const status = (err as { statusCode?: number }).statusCode;
+    if (status === 404 || status === 410) {
+      const gone = new Error(`Push subscription expired (HTTP ${status})`);
+      (gone as Error & { code?: string }).code = CHANNEL_GONE;
+      throw gone;
+    }
+    throw err;
+  }
+}
+
+async function sendNtfy(config: Extract<ChannelConfig, { kind: "ntfy" }>["config"], n: Notification): Promise<void> {
+  // Title / click go in the query string: headers can't carry "₹".
+  const url = new URL(config.url);
+  url.searchParams.set("title", n.title);
+  if (n.url) url.searchParams.set("click", n.url);
+  await postToUserUrl(url.toString(), {
+    method: "POST",
+    headers: config.token ? { "Authorization": `Bearer ${config.token}` } : {},
+    body: n.body,
+  });
+}
+
+async function sendGotify(config: Extract<ChannelConfig, { kind: "gotify" }>["config"], n: Notification): Promise<void> {
+  await postToUserUrl(`${config.url.replace(/\/+$/, "")}/message`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Gotify-Key": config.token },
+    body: JSON.stringify({
+      title: n.title,
+      message: n.body,
+      priority: 5,
+      ...(n.url ? { extras: { "client::notification": { click: { url: n.url } } } } : {}),
+    }),
+  });
+}
+
+let transporter: Transporter | null = null;
+
+async function sendEmail(config: Extract<ChannelConfig, { kind: "email" }>["config"], n: Notification): Promise<void> {
+  if (!env.smtpUrl) throw new Error("SMTP_URL not set");
+  transporter ??= nodemailer.createTransport(env.smtpUrl);
+  await transporter.sendMail({
+    from: env.smtpFrom,
+    to: config.to,
+    subject: n.title,
+    text: n.url ? `${n.body}\n\n${n.url}` : n.body,
+  });
+}
+
+export async function sendViaChannel(channel: ChannelConfig, n: Notification): Promise<void> {
+  switch (channel.kind) {
+    case "edge_function":
+      return sendEdgeFunction(n);
+    case "web_push":
+      return sendWebPush(channel.config, n);
+    case "ntfy":
+      return sendNtfy(channel.config, n);
+    case "gotify":
+      return sendGotify(channel.config, n);
+    case "email":
+      return sendEmail(channel.config, n);
+  }
+}
+
+/** Config as shown back to the user: tokens and push keys masked. */
+export function redactChannelConfig(channel: ChannelConfig): Record<string, unknown> {
+  switch (channel.kind) {
+    case "web_push":
+      return { endpoint: channel.config.endpoint };
+    case "ntfy":
+      return { url: channel.config.url, token: channel.config.token ? "••••" : undefined };
+    case "gotify":
+      return { url: channel.config.url, token: "••••" };
+    default:
+      return channel.config;
+  }
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { channelWantsEvent } from "./notifier.js";
+import { ChannelConfigSchema, channelUrlProblem, redactChannelConfig } from "./notificationChannels.js";
+
+test("channels get the events they picked; an empty list means all", () => {
+  assert.ok(channelWantsEvent({ active: true, events: [] }, "bill.reminder"));
+  assert.ok(channelWantsEvent({ active: true, events: ["sync.failed"] }, "sync.failed"));
+  assert.ok(!channelWantsEvent({ active: true, events: ["sync.failed"] }, "sync.inserted"));
+  assert.ok(!channelWantsEvent({ active: false, events: [] }, "sync.failed"));
+});
+
+test("channel configs validate per kind and never echo secrets", () => {
+  assert.ok(!ChannelConfigSchema.safeParse({ kind: "gotify", config: { url: "https://push.example.com" } }).success);
+  assert.ok(!ChannelConfigSchema.safeParse({ kind: "email", config: { to: "not-an-address" } }).success);
+
+  const gotify = ChannelConfigSchema.parse({ kind: "gotify", config: { url: "https://push.example.com", token: "Axx" } });
+  assert.deepEqual(redactChannelConfig(gotify), { url: "https://push.example.com", token: "••••" });
+
+  const push = ChannelConfigSchema.parse({
+    kind: "web_push",
+    config: { endpoint: "https://fcm.googleapis.com/fcm/send/abc", keys: { p256dh: "p", auth: "a" } },
+  });
+  assert.deepEqual(redactChannelConfig(push), { endpoint: "https://fcm.googleapis.com/fcm/send/abc" });
+});
+
+test("push endpoints and server URLs on private addresses are refused", async () => {
+  const push = ChannelConfigSchema.parse({
+    kind: "web_push",
+    config: { endpoint: "http://169.254.169.254/latest/meta-data", keys: { p256dh: "p", auth: "a" } },
+  });
+  assert.match((await channelUrlProblem(push)) ?? "", /private or local/);
+  const ntfy = ChannelConfigSchema.parse({ kind: "ntfy", config: { url: "http://10.0.0.5/alerts" } });
+  assert.match((await channelUrlProblem(ntfy)) ?? "", /private or local/);
+  assert.equal(await channelUrlProblem(ChannelConfigSchema.parse({ kind: "email", config: { to: "a@b.co" } })), null);
+});
@@ -0,0 +1,194 @@
+import { supabase } from "./supabase.js";
+import {
+  CHANNEL_GONE,
+  ChannelConfigSchema,
+  redactChannelConfig,
+  sendViaChannel,
+  type ChannelConfig,
+  type ChannelKind,
+  type Notification,
+} from "./notificationChannels.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Notify");
+
+/**
+ * Per-user notification routing. notification_channels holds each user's
+ * channels (Web Push subscriptions, ntfy / Gotify endpoints, email) and the
+ * events each one wants; an empty events list means all of them. A user
+ * with no active channels gets the Supabase Edge Function, as before
+ * channels existed. Every failed send is written to notification_failures.
+ */
+
+export const NOTIFICATION_EVENTS = ["sync.inserted", "sync.failed", "bill.reminder", "ai.budget"] as const;
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export interface NotificationChannel {
+  id: string;
+  user_id: string;
+  kind: ChannelKind;
+  config: ChannelConfig["config"];
+  events: NotificationEvent[];
+  active: boolean;
+  created_at: string;
+}
+
+const CHANNEL_COLUMNS = "id, user_id, kind, config, events, active, created_at";
+
+export function channelWantsEvent(channel: Pick<NotificationChannel, "events" | "active">, event: NotificationEvent) {
+  return channel.active && (channel.events.length === 0 || channel.events.includes(event));
+}
+
+async function recordFailure(
+  userId: string,
+  channel: { id: string | null; kind: ChannelKind },
+  event: NotificationEvent,
+  n: Notification,
+  err: unknown,
+) {
+  const message = err instanceof Error ? err.message : String(err);
+  log.error("Send failed", { userId, channel: channel.kind, event, error: message });
+  const { error } = await supabase.from("notification_failures").insert({
+    user_id: userId,
+    channel_id: channel.id,
+    channel_kind: channel.kind,
+    event,
+    title: n.title,
+    body: n.body,
+    error: message.slice(0, 500),
+  });
+  if (error) log.error("Failed to record notification failure", { error: error.message });
+}
+
+async function deliver(
+  userId: string,
+  channel: { id: string | null } & ChannelConfig,
+  event: NotificationEvent,
+  n: Notification,
+): Promise<boolean> {
+  try {
+    await sendViaChannel(channel, n);
+    return true;
+  } catch (err) {
+    await recordFailure(userId, { id: channel.id, kind: channel.kind }, event, n, err);
+    if ((err as { code?: string }).code === CHANNEL_GONE && channel.id) {
+      await supabase.from("notification_channels").update({ active: false }).eq("id", channel.id);
+    }
+    return false;
+  }
+}
+
+async function loadChannels(userId: string): Promise<NotificationChannel[]> {
+  const { data, error } = await supabase
+    .from("notification_channels")
+    .select(CHANNEL_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(`Failed to load notification channels: ${error.message}`);
+  return (data ?? []) as NotificationChannel[];
+}
+
+/** Send `n` on every channel the user picked for `event`. Never throws. */
+export async function notify(userId: string, event: NotificationEvent, n: Notification): Promise<void> {
+  let channels: NotificationChannel[];
+  try {
+    channels = await loadChannels(userId);
+  } catch (err) {
+    // Can't read the routing table: fall back to the edge function rather
+    // than dropping the notification.
+    log.error("Falling back to the edge function", { err });
+    channels = [];
+  }
+
+  if (!channels.some((c) => c.active)) {
+    await deliver(userId, { id: null, kind: "edge_function", config: {} }, event, n);
+    return;
+  }
+  const targets = channels.filter((c) => channelWantsEvent(c, event));
+  await Promise.all(targets.map((c) => deliver(userId, { ...c, ...asConfig(c) }, event, n)));
+}
+
+function asConfig(channel: Pick<NotificationChannel, "kind" | "config">): ChannelConfig {
+  return { kind: channel.kind, config: channel.config } as ChannelConfig;
+}
+
+// ── Channel management (routes/notifications.ts) ────────────────────────────
+
+/** A channel as returned by the API: secrets masked. */
+export type PublicChannel = Omit<NotificationChannel, "config"> & { config: Record<string, unknown> };
+
+function toPublic(channel: NotificationChannel): PublicChannel {
+  return { ...channel, config: redactChannelConfig(asConfig(channel)) };
+}
+
+export async function listChannels(userId: string): Promise<PublicChannel[]> {
+  return (await loadChannels(userId)).map(toPublic);
+}
+
+export async function createChannel(
+  userId: string,
+  input: ChannelConfig & { events: NotificationEvent[] },
+): Promise<PublicChannel> {
+  const { kind, config } = ChannelConfigSchema.parse(input);
+  const { data, error } = await supabase
+    .from("notification_channels")
+    .insert({ user_id: userId, kind, config, events: input.events, active: true })
+    .select(CHANNEL_COLUMNS)
+    .single();
+  if (error) throw new Error(`Failed to create notification channel: ${error.message}`);
+  return toPublic(data as NotificationChannel);
+}
+
+/** Returns null when the channel isn't the user's. */
+export async function updateChannel(
+  userId: string,
+  channelId: string,
+  patch: { events?: NotificationEvent[]; active?: boolean },
+): Promise<PublicChannel | null> {
+  const { data, error } = await supabase
+    .from("notification_channels")
+    .update(patch)
+    .eq("user_id", userId)
+    .eq("id", channelId)
+    .select(CHANNEL_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to update notification channel: ${error.message}`);
+  return data ? toPublic(data as NotificationChannel) : null;
+}
+
+export async function deleteChannel(userId: string, channelId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("notification_channels")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", channelId)
+    .select("id");
+  if (error) throw new Error(`Failed to delete notification channel: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Send a test notification on one channel, active or not. Returns null for
+ * an unknown channel, otherwise whether the send went through (failures are
+ * logged like any other).
+ */
+export async function testChannel(userId: string, channelId: string): Promise<boolean | null> {
+  const channel = (await loadChannels(userId)).find((c) => c.id === channelId);
+  if (!channel) return null;
+  return deliver(userId, { ...channel, ...asConfig(channel) }, "sync.inserted", {
+    title: "MTWallet test notification",
+    body: `Your ${channel.kind.replace("_", " ")} channel is working.`,
+    edge: { type: "TEST", table: "notification_channels", record: { id: channel.id, user_id: userId } },
+  });
+}
+
+export async function listFailures(userId: string, limit = 100) {
+  const { data, error } = await supabase
+    .from("notification_failures")
+    .select("id, channel_id, channel_kind, event, title, body, error, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to list notification failures: ${error.message}`);
+  return data ?? [];
+}
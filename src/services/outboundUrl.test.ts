@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isPrivateAddress, unsafeUrlReason } from "./outboundUrl.js";
+
+test("loopback, private, link-local and mapped addresses are private", () => {
+  for (const ip of ["127.0.0.1", "10.1.2.3", "172.20.0.5", "192.168.1.10", "169.254.169.254", "100.64.0.1", "0.0.0.0"]) {
+    assert.equal(isPrivateAddress(ip), true, ip);
+  }
+  for (const ip of ["::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:10.0.0.1"]) {
+    assert.equal(isPrivateAddress(ip), true, ip);
+  }
+  for (const ip of ["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:1.1.1.1"]) {
+    assert.equal(isPrivateAddress(ip), false, ip);
+  }
+});
+
+test("URLs pointing inside the server's network are refused", async () => {
+  assert.match((await unsafeUrlReason("http://169.254.169.254/latest/meta-data"))!, /private or local/);
+  assert.match((await unsafeUrlReason("http://[::1]:8080/hook"))!, /private or local/);
+  assert.match((await unsafeUrlReason("http://localhost:3000/api"))!, /private or local/);
+  assert.match((await unsafeUrlReason("ftp://8.8.8.8/x"))!, /http\(s\)/);
+  assert.equal(await unsafeUrlReason("https://8.8.8.8/hook"), null);
+});
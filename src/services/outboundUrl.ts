@@ -0,0 +1,69 @@
+import dns from "node:dns/promises";
+import net from "node:net";
+
+/**
+ * Guard for URLs users hand us to POST to (webhooks, ntfy / gotify
+ * channels). Without it the server would send signed payloads to itself,
+ * the cloud metadata service (169.254.169.254) or hosts on its private
+ * network. The host is resolved and every address it maps to must be
+ * public; callers check at registration and again before each request, since
+ * DNS can change in between.
+ */
+
+const blocked = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+] as const) {
+  blocked.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64 of any IPv4, private ones included
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  blocked.addSubnet(prefix, bits, "ipv6");
+}
+
+/** Loopback, private, link-local or otherwise non-public address? */
+export function isPrivateAddress(ip: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  if (mapped) return blocked.check(mapped[1], "ipv4");
+  const family = net.isIP(ip);
+  if (family === 0) return true;
+  return blocked.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Why the server must not call `url`, or null when it is a public http(s) URL. */
+export async function unsafeUrlReason(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "not a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return "must be an http(s) URL";
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    return `cannot resolve ${host}`;
+  }
+  if (addresses.length === 0) return `cannot resolve ${host}`;
+  const inside = addresses.find(isPrivateAddress);
+  return inside ? `${host} resolves to a private or local address (${inside})` : null;
+}
@@ -0,0 +1,56 @@
+import type { ModelUsage } from "./ai.js";
+import { providerConfig } from "./llm.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("pricing");
+
+/**
+ * Token prices, used for enrichment's spend ceiling and the per-user AI
+ * budgets. USD per million tokens; thinking tokens bill at the output rate.
+ * Usage is keyed "provider:model" (older sync runs: the bare model). A
+ * provider's `free` or `pricePerM` (LLM_PROVIDERS) wins over this list, so
+ * self-hosted models cost nothing. A model priced nowhere is charged at the
+ * dearest listed rates, with a warning, so a new model can't spend outside
+ * the budgets — add it when it goes into service.
+ */
+
+const INR_PER_USD = 95.2;
+export const PRICES_PER_M: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "openai/gpt-oss-120b": { input: 0.15, output: 0.6 },
+};
+
+const UNPRICED_RATE = {
+  input: Math.max(...Object.values(PRICES_PER_M).map((p) => p.input)),
+  output: Math.max(...Object.values(PRICES_PER_M).map((p) => p.output)),
+};
+const FREE_RATE = { input: 0, output: 0 };
+const warnedUnpriced = new Set<string>();
+
+function rateFor(key: string): { input: number; output: number } {
+  const i = key.indexOf(":");
+  const provider = i > 0 ? providerConfig(key.slice(0, i)) : undefined;
+  if (provider?.free) return FREE_RATE;
+  // key.slice(i + 1) is the whole key when there is no provider prefix.
+  const p = provider?.pricePerM ?? PRICES_PER_M[key.slice(i + 1)];
+  if (p) return p;
+  if (!warnedUnpriced.has(key)) {
+    warnedUnpriced.add(key);
+    log.warn(`No price for model ${key}; charging it at the dearest listed rates`);
+  }
+  return UNPRICED_RATE;
+}
+
+export function costRupees(
+  key: string,
+  usage: { input: number; output: number; reasoning: number },
+): number {
+  const p = rateFor(key);
+  return ((usage.input * p.input + (usage.output + usage.reasoning) * p.output) / 1_000_000) * INR_PER_USD;
+}
+
+/** Rupee cost of a sync_run's per-model usage. */
+export function usageRupees(usage: ModelUsage | null | undefined): number {
+  return Object.entries(usage ?? {}).reduce((sum, [key, u]) => sum + costRupees(key, u), 0);
+}
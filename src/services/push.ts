@@ -0,0 +1,104 @@
+import { notify } from "./notifier.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("push");
+
+const inr = (n: number) => `₹${n.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+interface SyncRunPush {
+  id?: string;
+  user_id: string;
+  status: string;
+  inserted: number;
+  skipped: number;
+  errors: number;
+  total_messages: number;
+  transactions?: { amount: number; direction: string; merchant: string | null }[];
+}
+
+/**
+ * Notify the user about a finished sync run: new transactions, or failure.
+ * Never throws — callers fire and forget it.
+ */
+export async function triggerPushNotification(syncRun: SyncRunPush): Promise<void> {
+  try {
+    await pushSyncRun(syncRun);
+  } catch (err) {
+    log.error(`Sync run push failed for ${syncRun.user_id.substring(0, 8)}...`, { err });
+  }
+}
+
+async function pushSyncRun(syncRun: SyncRunPush): Promise<void> {
+  const shouldNotifyFailure = syncRun.status === "failed";
+  const hasInsertedTransactions = (syncRun.inserted ?? 0) > 0;
+  if (!hasInsertedTransactions && !shouldNotifyFailure) return;
+
+  const edge = { type: "INSERT", table: "sync_runs", record: syncRun };
+  if (shouldNotifyFailure) {
+    await notify(syncRun.user_id, "sync.failed", {
+      title: "Sync failed",
+      body: `${syncRun.total_messages} message(s) couldn't be processed. They can be replayed from the sync history.`,
+      edge,
+    });
+    return;
+  }
+
+  const txns = syncRun.transactions ?? [];
+  const line = (t: { amount: number; direction: string; merchant: string | null }) =>
+    `${t.direction === "credit" ? "+" : "−"}${inr(t.amount)}${t.merchant ? ` ${t.merchant}` : ""}`;
+  const body =
+    txns.slice(0, 3).map(line).join(", ") + (txns.length > 3 ? ` and ${txns.length - 3} more` : "");
+  await notify(syncRun.user_id, "sync.inserted", {
+    title: syncRun.inserted === 1 ? "New transaction" : `${syncRun.inserted} new transactions`,
+    body,
+    edge,
+  });
+}
+
+/**
+ * Remind the user of an unpaid bill `days_left` days before it's due.
+ */
+export async function triggerBillReminderPush(bill: {
+  id: string;
+  user_id: string;
+  bank_name: string | null;
+  account_last4: string | null;
+  due_date: string;
+  total_due: number | null;
+  minimum_due: number | null;
+  days_left: number;
+}) {
+  const card =
+    [bill.bank_name, bill.account_last4 ? `••${bill.account_last4}` : null].filter(Boolean).join(" ") || "Card";
+  const when = bill.days_left === 0 ? "today" : bill.days_left === 1 ? "tomorrow" : `in ${bill.days_left} days`;
+  const amounts = [
+    bill.total_due !== null ? `total ${inr(bill.total_due)}` : null,
+    bill.minimum_due !== null ? `minimum ${inr(bill.minimum_due)}` : null,
+  ].filter(Boolean).join(", ");
+  await notify(bill.user_id, "bill.reminder", {
+    title: `${card} bill due ${when}`,
+    body: amounts ? `Due ${bill.due_date}: ${amounts}.` : `Due ${bill.due_date}.`,
+    edge: { type: "REMINDER", table: "bills", record: bill },
+  });
+}
+
+/**
+ * Tell the user their AI budget ran out and `deferred` messages are waiting
+ * for `resume_on` (their local date).
+ */
+export async function triggerBudgetPush(budget: {
+  user_id: string;
+  period: "daily" | "monthly";
+  spent: number;
+  limit: number;
+  deferred: number;
+  resume_on: string;
+}) {
+  await notify(budget.user_id, "ai.budget", {
+    title: `${budget.period === "daily" ? "Daily" : "Monthly"} AI budget reached`,
+    body:
+      `${inr(budget.spent)} of ${inr(budget.limit)} spent. ` +
+      `${budget.deferred} message(s) will be processed on ${budget.resume_on}.`,
+    edge: { type: "BUDGET", table: "sync_runs", record: budget },
+  });
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hitRateLimit, rateLimits, rateLimitStatus, secondsUntilLocalMidnight, totalTokens } from "./quotas.js";
+
+test("rate limit allows the per-minute budget per key, then resets with the window", () => {
+  const limit = rateLimits().ingest;
+  const t0 = Date.parse("2026-03-01T10:00:00Z");
+  for (let i = 0; i < limit; i++) assert.ok(hitRateLimit("key-a", "ingest", t0 + i).allowed);
+
+  const denied = hitRateLimit("key-a", "ingest", t0 + 20_000);
+  assert.equal(denied.allowed, false);
+  assert.equal(denied.remaining, 0);
+  assert.equal(denied.resetSec, 40);
+
+  // Other keys and buckets are counted separately.
+  assert.ok(hitRateLimit("key-b", "ingest", t0 + 20_000).allowed);
+  assert.ok(hitRateLimit("key-a", "review", t0 + 20_000).allowed);
+  assert.deepEqual(
+    rateLimitStatus("key-a", t0 + 20_000).find((r) => r.bucket === "ingest"),
+    { bucket: "ingest", per_minute: limit, used: limit },
+  );
+
+  assert.ok(hitRateLimit("key-a", "ingest", t0 + 60_000).allowed);
+});
+
+test("quotas reset at the user's local midnight", () => {
+  const now = new Date("2026-03-01T18:00:00Z");
+  assert.equal(secondsUntilLocalMidnight("UTC", now), 6 * 3600);
+  // 23:30 in Kolkata (+05:30).
+  assert.equal(secondsUntilLocalMidnight("Asia/Kolkata", now), 30 * 60);
+});
+
+test("token totals sum every model and kind", () => {
+  assert.equal(
+    totalTokens({ a: { input: 100, output: 20, reasoning: 5 }, b: { input: 10, output: 1, reasoning: 0 } }),
+    136,
+  );
+  assert.equal(totalTokens({}), 0);
+});
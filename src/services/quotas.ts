@@ -0,0 +1,150 @@
+import { env } from "../config/env.js";
+import { supabase } from "./supabase.js";
+import { localDate, userTimeZone, zonedDateTime } from "./timezone.js";
+import type { ModelUsage } from "./ai.js";
+import type { User } from "../types/index.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Quota");
+
+/**
+ * Abuse limits. Two layers:
+ *  - a per-API-key request rate on the public entry points (ingest, review,
+ *    MCP), in memory — one process serves everything, like ingest-lock.ts;
+ *  - per-user daily quotas on what costs money (messages ingested, AI tokens,
+ *    MCP calls), counted in daily_usage per the user's local day.
+ */
+
+export type RateBucket = "ingest" | "review" | "mcp";
+
+export const QUOTA_KINDS = ["messages", "ai_tokens", "mcp_calls"] as const;
+export type QuotaKind = (typeof QUOTA_KINDS)[number];
+
+export type DailyUsage = { day: string } & Record<QuotaKind, number>;
+
+export function rateLimits(): Record<RateBucket, number> {
+  return {
+    ingest: env.rateLimitIngestPerMin,
+    review: env.rateLimitReviewPerMin,
+    mcp: env.rateLimitMcpPerMin,
+  };
+}
+
+export function dailyQuotas(): Record<QuotaKind, number> {
+  return {
+    messages: env.quotaDailyMessages,
+    ai_tokens: env.quotaDailyAiTokens,
+    mcp_calls: env.quotaDailyMcpCalls,
+  };
+}
+
+// ── Rate limiting ───────────────────────────────────────────────────────────
+
+const WINDOW_MS = 60_000;
+const windows = new Map<string, { start: number; count: number }>();
+
+export interface RateDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the current window resets. */
+  resetSec: number;
+}
+
+/** Count one request by `subject` (an API key) against `bucket`'s per-minute limit. */
+export function hitRateLimit(subject: string, bucket: RateBucket, now: number = Date.now()): RateDecision {
+  const limit = rateLimits()[bucket];
+  const key = `${bucket}:${subject}`;
+  let w = windows.get(key);
+  if (!w || now - w.start >= WINDOW_MS) {
+    if (windows.size > 10_000) pruneWindows(now);
+    w = { start: now, count: 0 };
+    windows.set(key, w);
+  }
+  const allowed = w.count < limit;
+  if (allowed) w.count++;
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - w.count),
+    resetSec: Math.max(1, Math.ceil((w.start + WINDOW_MS - now) / 1000)),
+  };
+}
+
+/** Requests `subject` has made in each bucket's current window. */
+export function rateLimitStatus(subject: string, now: number = Date.now()) {
+  const limits = rateLimits();
+  return (Object.keys(limits) as RateBucket[]).map((bucket) => {
+    const w = windows.get(`${bucket}:${subject}`);
+    const used = w && now - w.start < WINDOW_MS ? w.count : 0;
+    return { bucket, per_minute: limits[bucket], used };
+  });
+}
+
+function pruneWindows(now: number) {
+  for (const [key, w] of windows) {
+    if (now - w.start >= WINDOW_MS) windows.delete(key);
+  }
+}
+
+// ── Daily quotas ────────────────────────────────────────────────────────────
+
+export function totalTokens(usage: ModelUsage): number {
+  return Object.values(usage).reduce((sum, u) => sum + u.input + u.output + u.reasoning, 0);
+}
+
+/** Seconds from `now` to the next midnight in `timeZone` — when quotas reset. */
+export function secondsUntilLocalMidnight(timeZone: string, now: Date = new Date()): number {
+  const [y, m, d] = localDate(now, timeZone).split("-").map(Number);
+  const tomorrow = new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+  const midnight = new Date(zonedDateTime(tomorrow, 0, 0, timeZone)).getTime();
+  return Math.max(1, Math.ceil((midnight - now.getTime()) / 1000));
+}
+
+export async function getDailyUsage(user: User, now: Date = new Date()): Promise<DailyUsage> {
+  const day = localDate(now, userTimeZone(user));
+  const { data, error } = await supabase
+    .from("daily_usage")
+    .select("messages, ai_tokens, mcp_calls")
+    .eq("user_id", user.id)
+    .eq("day", day)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read daily usage: ${error.message}`);
+  return { day, messages: data?.messages ?? 0, ai_tokens: data?.ai_tokens ?? 0, mcp_calls: data?.mcp_calls ?? 0 };
+}
+
+/** Add to today's counters. Never throws: metering must not fail a request. */
+export async function recordUsage(user: User, delta: Partial<Record<QuotaKind, number>>): Promise<void> {
+  if (!QUOTA_KINDS.some((k) => (delta[k] ?? 0) > 0)) return;
+  const { error } = await supabase.rpc("increment_daily_usage", {
+    p_user_id: user.id,
+    p_day: localDate(new Date(), userTimeZone(user)),
+    p_messages: delta.messages ?? 0,
+    p_ai_tokens: delta.ai_tokens ?? 0,
+    p_mcp_calls: delta.mcp_calls ?? 0,
+  });
+  if (error) log.error(`Failed to record usage for ${user.id.substring(0, 8)}...`, { error: error.message });
+}
+
+export type QuotaDecision =
+  | { allowed: true }
+  | { allowed: false; kind: QuotaKind; used: number; limit: number; retryAfterSec: number };
+
+/**
+ * Would `amount` more of `kind` fit in today's quota? For AI tokens the cost
+ * isn't known up front, so the check is only that some budget is left. A
+ * failed usage read lets the request through.
+ */
+export async function checkQuota(user: User, kind: QuotaKind, amount = 1): Promise<QuotaDecision> {
+  const limit = dailyQuotas()[kind];
+  let used: number;
+  try {
+    used = (await getDailyUsage(user))[kind];
+  } catch (err) {
+    log.error("Usage read failed; letting the request through", { err });
+    return { allowed: true };
+  }
+  const over = kind === "ai_tokens" ? used >= limit : used + amount > limit;
+  if (!over) return { allowed: true };
+  return { allowed: false, kind, used, limit, retryAfterSec: secondsUntilLocalMidnight(userTimeZone(user)) };
+}
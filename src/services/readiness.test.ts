@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateAge, evaluateModel, evaluateWatchExpiry } from "./readiness.js";
+
+const now = new Date("2026-03-10T12:00:00Z");
+const hoursFromNow = (h: number) => new Date(now.getTime() + h * 3600_000);
+
+test("gmail watch fails when the lease is missing, expired or about to lapse", () => {
+  assert.equal(evaluateWatchExpiry(null, now).status, "fail");
+  assert.equal(evaluateWatchExpiry(hoursFromNow(-48), now).reason, "Watch lease expired");
+  assert.equal(evaluateWatchExpiry(hoursFromNow(6), now).status, "fail");
+  const healthy = evaluateWatchExpiry(hoursFromNow(6 * 24), now);
+  assert.equal(healthy.status, "ok");
+  assert.equal(healthy.expires_in_sec, 6 * 24 * 3600);
+});
+
+test("age checks pass within the limit, fail beyond it and skip with no data", () => {
+  const max = 24 * 3600_000;
+  assert.equal(evaluateAge("sync_run:email", null, max, now).status, "skipped");
+  assert.equal(evaluateAge("sync_run:email", hoursFromNow(-2), max, now).status, "ok");
+  const stale = evaluateAge("sync_run:email", hoursFromNow(-30), max, now);
+  assert.equal(stale.status, "fail");
+  assert.equal(stale.age_sec, 30 * 3600);
+});
+
+test("a model is failing only while its latest call failed", () => {
+  const base = { model: "gemini-2.5-flash", lastError: "quota exceeded" };
+  assert.equal(evaluateModel({ ...base, lastSuccessAt: null, lastFailureAt: null }).status, "ok");
+  const failing = evaluateModel({ ...base, lastSuccessAt: hoursFromNow(-2), lastFailureAt: hoursFromNow(-1) });
+  assert.equal(failing.status, "fail");
+  assert.equal(failing.reason, "quota exceeded");
+  assert.equal(failing.name, "ai_model:gemini-2.5-flash");
+  const recovered = evaluateModel({ ...base, lastSuccessAt: hoursFromNow(-1), lastFailureAt: hoursFromNow(-2) });
+  assert.equal(recovered.status, "ok");
+});
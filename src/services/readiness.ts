@@ -0,0 +1,175 @@
+import { env } from "../config/env.js";
+import { supabase, getGmailWatchState } from "./supabase.js";
+import { isGmailFullyAuthed } from "./gmail.js";
+import { authenticateApiKey } from "./apiKeys.js";
+import { modelHealth, type ModelHealth } from "./ai.js";
+import type { IngestSource } from "./ingest.js";
+
+/**
+ * Deep readiness: each dependency checked on its own, so a probe shows
+ * *what* is wrong — an expired Gmail lease, a rotated Supabase key, a model
+ * that keeps failing — instead of the liveness "ok".
+ */
+
+export type CheckStatus = "ok" | "fail" | "skipped";
+
+export interface ReadinessCheck {
+  name: string;
+  status: CheckStatus;
+  /** Why the check failed or was skipped. */
+  reason?: string;
+  [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+  status: "ready" | "degraded";
+  checked_at: string;
+  checks: ReadinessCheck[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A query slower than this counts as failing, not just slow.
+const SUPABASE_MAX_LATENCY_MS = 2000;
+// The lease lasts 7 days and is renewed daily; under a day left means
+// renewals have been failing for most of a week.
+const WATCH_MIN_REMAINING_MS = 24 * HOUR_MS;
+// Labeled mail can be quiet for a weekend; longer than this is suspicious.
+const CURSOR_MAX_AGE_MS = 72 * HOUR_MS;
+const SYNC_MAX_AGE_MS: Record<IngestSource, number> = {
+  ios_shortcut: 24 * HOUR_MS,
+  email: 72 * HOUR_MS,
+};
+// Any one check taking longer than this fails instead of hanging the probe.
+const CHECK_TIMEOUT_MS = 5000;
+
+const ageSec = (at: Date, now: Date) => Math.round((now.getTime() - at.getTime()) / 1000);
+
+// ── Evaluation (pure) ───────────────────────────────────────────────────────
+
+export function evaluateWatchExpiry(expiresAt: Date | null, now: Date): ReadinessCheck {
+  if (!expiresAt) return { name: "gmail_watch", status: "fail", reason: "No watch lease recorded" };
+  const remainingMs = expiresAt.getTime() - now.getTime();
+  const check = {
+    name: "gmail_watch",
+    expires_at: expiresAt.toISOString(),
+    expires_in_sec: Math.round(remainingMs / 1000),
+  };
+  if (remainingMs <= 0) return { ...check, status: "fail", reason: "Watch lease expired" };
+  if (remainingMs < WATCH_MIN_REMAINING_MS) {
+    return { ...check, status: "fail", reason: "Watch lease expires within a day; renewals are failing" };
+  }
+  return { ...check, status: "ok" };
+}
+
+/** Fails when `at` is older than `maxAgeMs`; skipped when there is nothing to age yet. */
+export function evaluateAge(name: string, at: Date | null, maxAgeMs: number, now: Date): ReadinessCheck {
+  if (!at) return { name, status: "skipped", reason: "Nothing recorded yet" };
+  const age = ageSec(at, now);
+  const check = { name, at: at.toISOString(), age_sec: age, max_age_sec: maxAgeMs / 1000 };
+  return age * 1000 > maxAgeMs
+    ? { ...check, status: "fail", reason: "Older than the allowed age" }
+    : { ...check, status: "ok" };
+}
+
+/** A model is failing when its most recent call failed. */
+export function evaluateModel(h: ModelHealth): ReadinessCheck {
+  const check = {
+    name: `ai_model:${h.model}`,
+    last_success_at: h.lastSuccessAt?.toISOString() ?? null,
+    last_failure_at: h.lastFailureAt?.toISOString() ?? null,
+  };
+  const failing =
+    h.lastFailureAt !== null && (h.lastSuccessAt === null || h.lastFailureAt > h.lastSuccessAt);
+  return failing
+    ? { ...check, status: "fail", reason: h.lastError ?? "Last call failed" }
+    : { ...check, status: "ok" };
+}
+
+// ── Checks ──────────────────────────────────────────────────────────────────
+
+async function checkSupabase(): Promise<ReadinessCheck> {
+  const start = Date.now();
+  const { error } = await supabase.from("profiles").select("user_id").limit(1);
+  const latency = Date.now() - start;
+  if (error) return { name: "supabase", status: "fail", latency_ms: latency, reason: error.message };
+  if (latency > SUPABASE_MAX_LATENCY_MS) {
+    return { name: "supabase", status: "fail", latency_ms: latency, reason: "Query latency above threshold" };
+  }
+  return { name: "supabase", status: "ok", latency_ms: latency };
+}
+
+async function checkGmail(now: Date): Promise<ReadinessCheck[]> {
+  if (!isGmailFullyAuthed() || !env.gmailTargetUserApiKey) {
+    const reason = "Gmail ingestion not configured";
+    return [
+      { name: "gmail_watch", status: "skipped", reason },
+      { name: "gmail_cursor", status: "skipped", reason },
+    ];
+  }
+  const user = (await authenticateApiKey(env.gmailTargetUserApiKey))?.user;
+  if (!user) {
+    const reason = "No user matches GMAIL_TARGET_USER_API_KEY";
+    return [
+      { name: "gmail_watch", status: "fail", reason },
+      { name: "gmail_cursor", status: "fail", reason },
+    ];
+  }
+  const state = await getGmailWatchState(user.id);
+  return [
+    evaluateWatchExpiry(state?.watchExpiresAt ?? null, now),
+    evaluateAge("gmail_cursor", state?.historyUpdatedAt ?? null, CURSOR_MAX_AGE_MS, now),
+  ];
+}
+
+async function checkSyncRun(source: IngestSource, now: Date): Promise<ReadinessCheck> {
+  const name = `sync_run:${source}`;
+  if (source === "email" && !isGmailFullyAuthed()) {
+    return { name, status: "skipped", reason: "Gmail ingestion not configured" };
+  }
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .select("completed_at")
+    .eq("source", source)
+    .in("status", ["success", "partial"])
+    .order("completed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) return { name, status: "fail", reason: error.message };
+  return evaluateAge(name, data?.completed_at ? new Date(data.completed_at) : null, SYNC_MAX_AGE_MS[source], now);
+}
+
+function withTimeout<T>(name: string, p: Promise<T>): Promise<T | ReadinessCheck> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<ReadinessCheck>((resolve) => {
+    timer = setTimeout(
+      () => resolve({ name, status: "fail", reason: `Timed out after ${CHECK_TIMEOUT_MS}ms` }),
+      CHECK_TIMEOUT_MS,
+    );
+  });
+  return Promise.race([p, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** A check that throws is reported as failed rather than failing the probe. */
+async function guarded<T>(name: string, run: () => Promise<T>): Promise<T | ReadinessCheck> {
+  try {
+    return await withTimeout(name, run());
+  } catch (err) {
+    return { name, status: "fail", reason: (err as Error).message };
+  }
+}
+
+export async function runReadinessChecks(now: Date = new Date()): Promise<ReadinessReport> {
+  const results = await Promise.all([
+    guarded("supabase", checkSupabase),
+    guarded("gmail", () => checkGmail(now)),
+    guarded("sync_run:ios_shortcut", () => checkSyncRun("ios_shortcut", now)),
+    guarded("sync_run:email", () => checkSyncRun("email", now)),
+  ]);
+  const checks = [...results.flat(), ...modelHealth().map(evaluateModel)];
+  return {
+    status: checks.some((c) => c.status === "fail") ? "degraded" : "ready",
+    checked_at: now.toISOString(),
+    checks,
+  };
+}
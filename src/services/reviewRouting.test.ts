@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { reviewIssues, type ReviewInput } from "./reviewRouting.js";
+import { matchTemplate } from "./smsTemplates.js";
+
+const base: ReviewInput = {
+  body: "Rs.1,250.00 debited from A/c XX1234 on 05-03-25 to VPA swiggy@icici. Avl Bal Rs.8,410.50",
+  amount: 1250,
+  direction: "debit",
+  merchant: "swiggy",
+  account_last4: "1234",
+  available_balance: 8410.5,
+  category_id: "cat-food",
+  confidence: { amount: "high", direction: "high", merchant: "medium", category: "high" },
+};
+
+test("a consistent, confident row needs no review", () => {
+  assert.deepEqual(reviewIssues(base), {});
+});
+
+test("sanity checks flag fields the message contradicts", () => {
+  assert.deepEqual(Object.keys(reviewIssues({ ...base, amount: 1520 })), ["amount"]);
+  assert.deepEqual(Object.keys(reviewIssues({ ...base, amount: 8410.5 })), ["amount"]);
+  assert.deepEqual(
+    Object.keys(reviewIssues({ ...base, body: "Rs.1,250.00 credited to A/c XX1234 by NEFT", direction: "debit" })),
+    ["direction"],
+  );
+  assert.deepEqual(Object.keys(reviewIssues({ ...base, merchant: "1234" })), ["merchant"]);
+});
+
+test("a missing category is flagged only when the model was unsure of it", () => {
+  assert.deepEqual(reviewIssues({ ...base, category_id: null }), {});
+  const unsure = { ...base, category_id: null, confidence: { ...base.confidence!, category: "low" as const } };
+  assert.deepEqual(reviewIssues(unsure), { category: "No matching category" });
+});
+
+test("a clean template debit is not flagged, categorized or not", () => {
+  const body = "Sent Rs.120.00\nFrom HDFC Bank A/C *1234\nTo ZOMATO\nOn 05/03/25\nRef 506412345678";
+  const { parsed } = matchTemplate({ id: 1, sender: "AD-HDFCBK", body, timestamp: null })!;
+  const row: ReviewInput = {
+    body,
+    amount: parsed.amount!,
+    direction: parsed.direction!,
+    merchant: parsed.merchant ?? null,
+    account_last4: parsed.account_last4 ?? null,
+    category_id: null,
+    confidence: parsed.confidence,
+  };
+  assert.deepEqual(reviewIssues(row), {});
+  assert.deepEqual(reviewIssues({ ...row, category_id: "cat-food" }), {});
+});
+
+test("low confidence flags the field unless a user rule settled it", () => {
+  const unsure = { ...base, confidence: { ...base.confidence!, merchant: "low" as const, category: "low" as const } };
+  assert.deepEqual(Object.keys(reviewIssues(unsure)), ["merchant", "category"]);
+  assert.deepEqual(Object.keys(reviewIssues({ ...unsure, ruleFields: ["category"] })), ["merchant"]);
+});
@@ -0,0 +1,83 @@
+import type { FieldConfidence, ReviewField } from "../schemas/transaction.js";
+
+/**
+ * Which fields of an ingested transaction need a human look. A field is
+ * flagged when the extractor rated it low confidence, or when a
+ * deterministic check against the raw message disagrees with it. A missing
+ * category alone is not a flag — it counts only when the model was unsure
+ * what the category is. Only
+ * rows with a flagged field go to review; the flags are stored as
+ * review_fields so the app can highlight exactly what to check.
+ *
+ * Fields a user rule decided (merchant mapping, category) are never
+ * flagged: the user already answered them.
+ */
+
+export interface ReviewInput {
+  /** Raw message text the fields were extracted from. */
+  body: string;
+  amount: number;
+  direction: "credit" | "debit";
+  merchant: string | null;
+  account_last4: string | null;
+  available_balance?: number | null;
+  available_limit?: number | null;
+  /** Category after rules; null when nothing matched the user's categories. */
+  category_id: string | null;
+  /** Per-field confidence; template rows rate their parsed fields high. */
+  confidence?: FieldConfidence | null;
+  /** Fields set by a user rule. */
+  ruleFields?: ReviewField[];
+}
+
+export type ReviewIssues = Partial<Record<ReviewField, string>>;
+
+const NUMBER = /\d[\d,]*(?:\.\d+)?/g;
+const CREDIT_WORDS = /\b(credited|received|deposited|refund(?:ed)?|reversed)\b/i;
+const DEBIT_WORDS = /\b(debited|spent|paid|withdrawn|sent|purchase|charged)\b/i;
+
+function amountInBody(body: string, amount: number): boolean {
+  for (const raw of body.match(NUMBER) ?? []) {
+    const n = Number(raw.replace(/,/g, ""));
+    if (Number.isFinite(n) && Math.abs(n - amount) < 0.005) return true;
+  }
+  return false;
+}
+
+/** Field → why it needs review. Empty when the row can skip review. */
+export function reviewIssues(input: ReviewInput): ReviewIssues {
+  const issues: ReviewIssues = {};
+  const trusted = new Set(input.ruleFields ?? []);
+  const flag = (field: ReviewField, reason: string) => {
+    if (!trusted.has(field) && !issues[field]) issues[field] = reason;
+  };
+
+  // Sanity checks against the message itself.
+  if (!amountInBody(input.body, input.amount)) {
+    flag("amount", "Amount does not appear in the message");
+  } else if (input.amount === input.available_balance || input.amount === input.available_limit) {
+    flag("amount", "Amount equals the reported balance");
+  }
+
+  const saysCredit = CREDIT_WORDS.test(input.body);
+  const saysDebit = DEBIT_WORDS.test(input.body);
+  if (input.direction === "debit" && saysCredit && !saysDebit) {
+    flag("direction", "Message reads as a credit");
+  } else if (input.direction === "credit" && saysDebit && !saysCredit) {
+    flag("direction", "Message reads as a debit");
+  }
+
+  const merchant = input.merchant?.replace(/\s+/g, "");
+  if (merchant && (/^[\d.,]+$/.test(merchant) || merchant === input.account_last4)) {
+    flag("merchant", "Merchant looks like a number or account");
+  }
+
+  if (!input.category_id && input.confidence?.category === "low") flag("category", "No matching category");
+
+  // The model's own doubts.
+  for (const [field, level] of Object.entries(input.confidence ?? {}) as [ReviewField, string][]) {
+    if (level === "low") flag(field, "Low extraction confidence");
+  }
+
+  return issues;
+}
@@ -10,3 +10,36 @@ export function nullifyStringy(v: string | null | undefined): string | null {
   if (!trimmed) return null;
   return /^(null|undefined|n\/a)$/i.test(trimmed) ? null : v;
 }
+
+// Secrets that must never reach a stored error or a log line. Order matters:
+// specific key formats before the generic digit patterns.
+const REDACTIONS: [RegExp, string][] = [
+  [/AIza[0-9A-Za-z\-_]{20,}/g, "[REDACTED_GOOGLE_KEY]"],
+  [/gsk_[A-Za-z0-9]{20,}/g, "[REDACTED_GROQ_KEY]"],
+  // OpenAI-style keys, which OpenAI-compatible servers may echo back.
+  [/\bsk-[A-Za-z0-9_-]{20,}/g, "[REDACTED_SECRET_KEY]"],
+  [/Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi, "Bearer [REDACTED_TOKEN]"],
+  [/mtw_[A-Za-z0-9_-]{16,}/g, "[REDACTED_API_KEY]"],
+  [/whsec_[0-9a-f]{16,}/g, "[REDACTED_WEBHOOK_SECRET]"],
+  [/("?x-api-key"?\s*[:=]\s*"?)[^",\s}]+/gi, "$1[REDACTED_API_KEY]"],
+  [/([?&]api_key=)[^&\s"]+/gi, "$1[REDACTED_API_KEY]"],
+  // OTPs: "OTP is 482913", "482913 is your OTP", "verification code: 4829".
+  [/\b(otp|one[- ]time password|verification code|security code)(\W{1,12}(?:is\W{1,3})?)\d{4,8}\b/gi, "$1$2[REDACTED_OTP]"],
+  [/\b\d{4,8}(\s+is\s+(?:your|the)\s+(?:otp|one[- ]time password|verification code))/gi, "[REDACTED_OTP]$1"],
+  // Full card / account numbers keep their last 4 (what banks print anyway).
+  [/\b(?:\d{4}[ -]?){3}(\d{4})\b/g, "[CARD ••$1]"],
+  [/\b(a\/c|acct|account|card)(\s*(?:no\.?|number|#)?\s*[:.]?\s*)[Xx*]*\d{5,14}(\d{4})\b/gi, "$1$2••$3"],
+];
+
+/** Mask API keys, provider keys, tokens, OTPs and account numbers in free text. */
+export function redactSecrets(text: string): string {
+  return REDACTIONS.reduce((out, [pattern, replacement]) => out.replace(pattern, replacement), text);
+}
+
+/**
+ * Strip secrets from an error before it is stored on a sync_run / job row
+ * or shown to the user.
+ */
+export function sanitizeErrorForStorage(error: unknown): string {
+  return redactSecrets(error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildSenderFilter, senderKey, type SenderRegistryRow } from "./senderRegistry.js";
+
+const row = (sender_key: string, overrides: Partial<SenderRegistryRow> = {}): SenderRegistryRow => ({
+  user_id: "u1",
+  sender_key,
+  kind: "unknown",
+  overridden: false,
+  seen_count: 0,
+  transaction_count: 0,
+  last_seen_at: null,
+  ...overrides,
+});
+const sms = (sender: string) => ({ id: 1, sender, body: "x", timestamp: null });
+
+test("sender keys drop the operator prefix and category suffix", () => {
+  assert.equal(senderKey("AD-HDFCBK-S"), "HDFCBK");
+  assert.equal(senderKey("vm-swiggy"), "SWIGGY");
+  assert.equal(senderKey("+919876543210"), "+919876543210");
+});
+
+test("noisy senders are filtered only after enough silent observations", () => {
+  assert.equal(buildSenderFilter([row("SWIGGY", { seen_count: 5 })])(sms("VM-SWIGGY")), false);
+  assert.equal(buildSenderFilter([row("SWIGGY", { seen_count: 25 })])(sms("VM-SWIGGY")), true);
+  assert.equal(buildSenderFilter([row("SWIGGY", { seen_count: 25, transaction_count: 1 })])(sms("VM-SWIGGY")), false);
+});
+
+test("known banks always pass; user overrides beat everything", () => {
+  assert.equal(buildSenderFilter([row("HDFCBK", { seen_count: 99 })])(sms("AD-HDFCBK")), false);
+  assert.equal(buildSenderFilter([row("HDFCBK", { kind: "promo", overridden: true })])(sms("AD-HDFCBK")), true);
+  const globalPromo = row("JIOINF", { user_id: null, kind: "promo" });
+  assert.equal(buildSenderFilter([globalPromo])(sms("JM-JIOINF")), true);
+  assert.equal(buildSenderFilter([globalPromo, row("JIOINF", { kind: "bank", overridden: true })])(sms("JM-JIOINF")), false);
+});
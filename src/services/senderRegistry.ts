@@ -0,0 +1,157 @@
+import { supabase } from "./supabase.js";
+import type { SMSMessage } from "../types/index.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("senders");
+
+/**
+ * Sender pre-filter ahead of Pass 1. Most SMS senders (VM-SWIGGY,
+ * JD-AIRTEL, ...) never send a transaction, yet every message from them
+ * costs a classifier call. sender_registry keeps, per user, how often each
+ * sender was seen and how often it produced a transaction; a sender seen
+ * MIN_OBSERVATIONS times with zero transactions is skipped without AI.
+ *
+ * Rows with user_id null are the global registry (hand-curated kinds).
+ * Precedence: the user's own override > known bank > global kind > learned.
+ * Email batches are never filtered — the Gmail label already did that.
+ */
+
+export type SenderKind = "bank" | "promo" | "unknown";
+
+export interface SenderRegistryRow {
+  user_id: string | null;
+  sender_key: string;
+  kind: SenderKind;
+  /** Set when the user chose `kind` through the API. */
+  overridden: boolean;
+  seen_count: number;
+  transaction_count: number;
+  last_seen_at: string | null;
+}
+
+export interface SenderObservation {
+  sender_key: string;
+  seen: number;
+  transactions: number;
+}
+
+const COLUMNS = "user_id, sender_key, kind, overridden, seen_count, transaction_count, last_seen_at";
+
+/** Messages seen with no transaction before a sender is filtered. */
+const MIN_OBSERVATIONS = 20;
+
+// Bank / card / payments-bank DLT headers. These always reach the AI, no
+// matter what the stats say — a quiet card is still a card.
+const KNOWN_BANK_SENDERS =
+  /^(HDFCBK|ICICI[BT]|SBI\w*|AXISBK|KOTAKB|PNBSMS|YESBNK|IDFCFB|INDUSB|BOBTXN|CANBNK|UNIONB|AMEXIN|SCBANK|CITIBK|PAYTMB|AIRBNK|FEDBNK|RBLBNK|AUBANK|IOBCHN|BOIIND|CBSSBI|SLICEIT|ONECRD)$/;
+
+/**
+ * Registry key for a sender: the DLT header without its operator prefix
+ * and category suffix ("AD-HDFCBK-S" → "HDFCBK"). Numeric senders are kept
+ * as-is.
+ */
+export function senderKey(sender: string): string {
+  const s = sender.trim().toUpperCase();
+  const dlt = /^[A-Z]{2}-([A-Z0-9]{3,9})(?:-[A-Z])?$/.exec(s);
+  return dlt ? dlt[1] : s;
+}
+
+export async function getSenderRegistry(userId: string): Promise<SenderRegistryRow[]> {
+  const { data, error } = await supabase
+    .from("sender_registry")
+    .select(COLUMNS)
+    .or(`user_id.eq.${userId},user_id.is.null`);
+  if (error) {
+    // Filtering is an optimisation: without the registry, everything goes to AI.
+    log.error("Failed to load sender registry", { error: error.message });
+    return [];
+  }
+  return (data ?? []) as SenderRegistryRow[];
+}
+
+/** Returns true when a message should skip the AI. */
+export function buildSenderFilter(rows: SenderRegistryRow[]): (msg: SMSMessage) => boolean {
+  const mine = new Map<string, SenderRegistryRow>();
+  const global = new Map<string, SenderRegistryRow>();
+  for (const row of rows) (row.user_id ? mine : global).set(row.sender_key, row);
+
+  return (msg) => {
+    if (msg.subject) return false;
+    const key = senderKey(msg.sender || "");
+    if (!key) return false;
+
+    const own = mine.get(key);
+    if (own?.overridden) return own.kind === "promo";
+    if (KNOWN_BANK_SENDERS.test(key)) return false;
+
+    const shared = global.get(key);
+    if (shared?.kind === "bank") return false;
+    if (shared?.kind === "promo") return true;
+
+    return !!own && own.seen_count >= MIN_OBSERVATIONS && own.transaction_count === 0;
+  };
+}
+
+/**
+ * Fold a run's per-sender outcomes into the user's stats. Runs inside the
+ * per-user ingest lock, so read-then-upsert can't race another batch.
+ */
+export async function recordSenderObservations(userId: string, observations: SenderObservation[]): Promise<void> {
+  if (observations.length === 0) return;
+  const keys = observations.map((o) => o.sender_key);
+  const { data, error } = await supabase
+    .from("sender_registry")
+    .select(COLUMNS)
+    .eq("user_id", userId)
+    .in("sender_key", keys);
+  if (error) throw new Error(`Failed to read sender registry: ${error.message}`);
+  const existing = new Map(((data ?? []) as SenderRegistryRow[]).map((r) => [r.sender_key, r]));
+
+  const now = new Date().toISOString();
+  const rows = observations.map((o) => {
+    const prev = existing.get(o.sender_key);
+    const transactionCount = (prev?.transaction_count ?? 0) + o.transactions;
+    // A learned kind only ever upgrades to "bank"; pinned kinds are left alone.
+    const kind: SenderKind = prev?.overridden
+      ? prev.kind
+      : transactionCount > 0 ? "bank" : prev?.kind ?? "unknown";
+    return {
+      user_id: userId,
+      sender_key: o.sender_key,
+      kind,
+      overridden: prev?.overridden ?? false,
+      seen_count: (prev?.seen_count ?? 0) + o.seen,
+      transaction_count: transactionCount,
+      last_seen_at: now,
+    };
+  });
+  const { error: upsertErr } = await supabase
+    .from("sender_registry")
+    .upsert(rows, { onConflict: "user_id,sender_key" });
+  if (upsertErr) throw new Error(`Failed to update sender registry: ${upsertErr.message}`);
+}
+
+export async function listUserSenders(userId: string): Promise<SenderRegistryRow[]> {
+  const { data, error } = await supabase
+    .from("sender_registry")
+    .select(COLUMNS)
+    .eq("user_id", userId)
+    .order("seen_count", { ascending: false });
+  if (error) throw new Error(`Failed to list senders: ${error.message}`);
+  return (data ?? []) as SenderRegistryRow[];
+}
+
+/**
+ * Pin a sender's kind for this user ("bank" always goes to AI, "promo" is
+ * always filtered), or clear the pin with kind null.
+ */
+export async function setSenderOverride(userId: string, sender: string, kind: "bank" | "promo" | null): Promise<void> {
+  const key = senderKey(sender);
+  const { error } = await supabase
+    .from("sender_registry")
+    .upsert(
+      { user_id: userId, sender_key: key, kind: kind ?? "unknown", overridden: kind !== null },
+      { onConflict: "user_id,sender_key" }
+    );
+  if (error) throw new Error(`Failed to update sender override: ${error.message}`);
+}
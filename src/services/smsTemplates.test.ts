@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LLM_TASKS, setLlmRegistry, type ChainEntry, type LlmModel, type LlmTask } from "./llm.js";
+import { categorizeTemplateHits, matchTemplate, parseWithTemplates } from "./smsTemplates.js";
+
+const sms = (id: number, sender: string, body: string) => ({ id, sender, body, timestamp: null });
+
+test("parses an HDFC UPI debit with full fields", () => {
+  const hit = matchTemplate(
+    sms(
+      1,
+      "AD-HDFCBK",
+      "Sent Rs.1,120.50\nFrom HDFC Bank A/C *1234\nTo ZOMATO LIMITED\nOn 05/03/25\nRef 506412345678\nNot You?\nCall 18002586161/SMS BLOCK UPI to 7308080808",
+    ),
+  );
+  assert.equal(hit?.template, "hdfc-upi-debit");
+  assert.deepEqual(hit?.parsed, {
+    sms_id: 1,
+    is_transaction: true,
+    amount: 1120.5,
+    currency: "INR",
+    direction: "debit",
+    merchant: "ZOMATO LIMITED",
+    account_last4: "1234",
+    bank_name: "HDFC Bank",
+    reference_id: "506412345678",
+    category_slug: null,
+    confidence: { amount: "high", direction: "high", merchant: "high", category: "medium" },
+  });
+});
+
+test("parses an SBI UPI credit", () => {
+  const hit = matchTemplate(
+    sms(2, "BZ-SBIUPI", "Dear SBI User, your A/c X4321-credited by Rs.500 on 05Mar25 transfer from JOHN DOE Ref No 506412345678 -SBI"),
+  );
+  assert.equal(hit?.template, "sbi-upi-credit");
+  assert.equal(hit?.parsed.direction, "credit");
+  assert.equal(hit?.parsed.merchant, "JOHN DOE");
+});
+
+test("wrong sender never matches a bank template", () => {
+  assert.equal(
+    matchTemplate(sms(3, "VM-SWIGGY", "Sent Rs.120.00\nFrom HDFC Bank A/C *1234\nTo ZOMATO\nOn 05/03/25\nRef 506412345678")),
+    null,
+  );
+});
+
+test("near-miss wording falls through to the model", () => {
+  assert.equal(matchTemplate(sms(4, "AD-HDFCBK", "Sent Rs.120.00 from your account to ZOMATO")), null);
+});
+
+test("OTPs are skipped, but debit alerts that mention OTP are not", () => {
+  assert.equal(
+    matchTemplate(sms(5, "AD-HDFCBK", "482913 is your OTP for txn of Rs 500 at AMAZON. Do not share."))?.parsed.is_transaction,
+    false,
+  );
+  assert.equal(
+    matchTemplate(sms(6, "AD-ICICIT", "Rs 500 debited from A/c XX12 at AMAZON. Never share OTP with anyone.")),
+    null,
+  );
+});
+
+test("email batches are never claimed", () => {
+  const { matched, unmatched } = parseWithTemplates([
+    { ...sms(7, "alerts@hdfcbank.net", "482913 is your OTP"), subject: "OTP" },
+  ]);
+  assert.equal(matched.size, 0);
+  assert.equal(unmatched.length, 1);
+});
+
+test("templated rows come out categorized, from history first and the category pass after", async () => {
+  const prompts: string[] = [];
+  const stub: LlmModel = {
+    specificationVersion: "v2",
+    provider: "stub",
+    modelId: "stub-1",
+    supportedUrls: {},
+    doGenerate: async (params) => {
+      prompts.push(JSON.stringify(params.prompt));
+      return {
+        content: [{ type: "text", text: JSON.stringify([{ sms_id: 9, category_slug: "shopping", confidence: "medium" }]) }],
+        finishReason: "stop",
+        usage: { inputTokens: 40, outputTokens: 8, totalTokens: 48 },
+        warnings: [],
+      };
+    },
+    doStream: async () => {
+      throw new Error("not used");
+    },
+  };
+  const entry: ChainEntry = { provider: "stub", model: "stub-1", languageModel: stub, arrayEnvelope: false };
+  setLlmRegistry({
+    providers: {},
+    chains: Object.fromEntries(LLM_TASKS.map((t) => [t, [entry]])) as Record<LlmTask, ChainEntry[]>,
+  });
+
+  const zomato = matchTemplate(
+    sms(8, "AD-HDFCBK", "Sent Rs.120.00\nFrom HDFC Bank A/C *1234\nTo ZOMATO\nOn 05/03/25\nRef 506412345678"),
+  )!.parsed;
+  const amazon = matchTemplate(
+    sms(9, "AD-HDFCBK", "Spent Rs.499 On HDFC Bank Card 1234 At AMAZON On 2025-03-05:14:22:10"),
+  )!.parsed;
+  const categories = ["food", "shopping", "other"].map((slug) => ({ id: slug, slug, name: slug }));
+
+  const { parsed, usage } = await categorizeTemplateHits([zomato, amazon], new Map([["zomato", "food"]]), categories, true);
+  assert.deepEqual(parsed.map((p) => p.category_slug), ["food", "shopping"]);
+  assert.deepEqual(parsed.map((p) => p.confidence?.category), ["high", "medium"]);
+  assert.equal(prompts.length, 1);
+  assert.ok(prompts[0].includes("AMAZON") && !prompts[0].includes("ZOMATO"));
+  assert.deepEqual(usage, { "stub:stub-1": { input: 40, output: 8, reasoning: 0 } });
+
+  const deferred = await categorizeTemplateHits([amazon], new Map(), categories, false);
+  assert.equal(deferred.parsed[0].category_slug, null);
+  assert.equal(prompts.length, 1);
+});
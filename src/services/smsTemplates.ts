@@ -0,0 +1,237 @@
+import type { Category, SMSMessage } from "../types/index.js";
+import { categorizeTransactions, type CategoryPick, type ModelUsage, type ParsedTransaction } from "./ai.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("smsTemplates");
+
+/**
+ * Deterministic tier ahead of the two-pass AI flow. Most SMS come from a
+ * handful of bank short-codes with fixed wording, so a per-sender regex
+ * parses them for free. A template only claims a message when the WHOLE
+ * structural pattern matches — anything slightly off falls through to the
+ * model untouched, so a template can never be "mostly right".
+ *
+ * Fields a template parsed are rated high confidence, so they never send
+ * the row to review. The wording doesn't say what was bought, so a template
+ * leaves category_slug null; categorizeTemplateHits fills it in (and rates
+ * it) before ingest stores the row. The user's merchant rules still override
+ * it downstream, same as they override the model's guess.
+ */
+
+interface SmsTemplate {
+  /** Stable id, recorded on sync_run details as `template:<id>`. */
+  id: string;
+  /** Matched against the DLT header (AD-HDFCBK, VM-HDFCBK-S, ...). */
+  sender: RegExp;
+  pattern: RegExp;
+  build(m: RegExpMatchArray): Omit<ParsedTransaction, "sms_id"> | null;
+}
+
+const AMOUNT = String.raw`([\d,]+(?:\.\d{1,2})?)`;
+
+function parseAmount(raw: string): number | null {
+  const n = Number(raw.replace(/,/g, ""));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function debit(
+  amount: string,
+  last4: string,
+  merchant: string,
+  bank: string,
+  ref: string | null,
+): Omit<ParsedTransaction, "sms_id"> | null {
+  const value = parseAmount(amount);
+  if (value === null) return null;
+  return {
+    is_transaction: true,
+    amount: value,
+    currency: "INR",
+    direction: "debit",
+    merchant: merchant.trim(),
+    account_last4: last4,
+    bank_name: bank,
+    reference_id: ref,
+    category_slug: null,
+    // Medium until categorizeTemplateHits rates the category it picks.
+    confidence: { amount: "high", direction: "high", merchant: "high", category: "medium" },
+  };
+}
+
+function credit(
+  amount: string,
+  last4: string,
+  merchant: string,
+  bank: string,
+  ref: string | null,
+): Omit<ParsedTransaction, "sms_id"> | null {
+  const parsed = debit(amount, last4, merchant, bank, ref);
+  return parsed && { ...parsed, direction: "credit" };
+}
+
+const TEMPLATES: SmsTemplate[] = [
+  {
+    // Sent Rs.120.00 / From HDFC Bank A/C *1234 / To ZOMATO / On 05/03/25 / Ref 506412345678
+    id: "hdfc-upi-debit",
+    sender: /HDFCBK/i,
+    pattern: new RegExp(
+      String.raw`^Sent Rs\.?\s?${AMOUNT}\s+From HDFC Bank A\/C [*xX]*(\d{4})\s+To (.+?)\s+On \d{2}\/\d{2}\/\d{2}\s+Ref (\d{6,})`,
+      "i",
+    ),
+    build: (m) => debit(m[1], m[2], m[3], "HDFC Bank", m[4]),
+  },
+  {
+    // Spent Rs.499 On HDFC Bank Card 1234 At AMAZON On 2025-03-05:14:22:10 ...
+    id: "hdfc-card-spend",
+    sender: /HDFCBK/i,
+    pattern: new RegExp(
+      String.raw`^Spent Rs\.?\s?${AMOUNT} On HDFC Bank Card [*xX]*(\d{4}) At (.+?) On \d{4}-\d{2}-\d{2}`,
+      "i",
+    ),
+    build: (m) => debit(m[1], m[2], m[3], "HDFC Bank", null),
+  },
+  {
+    // Money Received - INR 500.00 in your HDFC Bank A/c xx1234 on 05-03-25 by A/c linked to VPA john@okicici (UPI Ref No 506412345678)
+    id: "hdfc-upi-credit",
+    sender: /HDFCBK/i,
+    pattern: new RegExp(
+      String.raw`^Money Received - INR ${AMOUNT} in your HDFC Bank A\/c [*xX]*(\d{4}) on [\d-]+ by A\/c linked to VPA (\S+) \(UPI Ref No\.? (\d{6,})\)`,
+      "i",
+    ),
+    build: (m) => credit(m[1], m[2], m[3], "HDFC Bank", m[4]),
+  },
+  {
+    // ICICI Bank Acct XX123 debited for Rs 250.00 on 05-Mar-25; SWIGGY credited. UPI:506412345678. ...
+    id: "icici-upi-debit",
+    sender: /ICICI[BT]/i,
+    pattern: new RegExp(
+      String.raw`^ICICI Bank Acct [*xX]*(\d{3,4}) debited for (?:Rs\.?|INR)\s?${AMOUNT} on [\w-]+; (.+?) credited\. UPI:?\s?(\d{6,})`,
+      "i",
+    ),
+    build: (m) => debit(m[2], m[1], m[3], "ICICI Bank", m[4]),
+  },
+  {
+    // INR 1,250.00 spent using ICICI Bank Card XX1234 on 05-Mar-25 on AMAZON. Avl Limit: ...
+    id: "icici-card-spend",
+    sender: /ICICI[BT]/i,
+    pattern: new RegExp(
+      String.raw`^INR ${AMOUNT} spent using ICICI Bank Card [*xX]*(\d{4}) on [\w-]+ on (.+?)\. Avl Limit`,
+      "i",
+    ),
+    build: (m) => debit(m[1], m[2], m[3], "ICICI Bank", null),
+  },
+  {
+    // Dear UPI user A/C X1234 debited by 100.0 on date 05Mar25 trf to SWIGGY Refno 506412345678. ... -SBI
+    id: "sbi-upi-debit",
+    sender: /SBI/i,
+    pattern: new RegExp(
+      String.raw`^Dear UPI user A\/C [*xX]*(\d{4}) debited by ${AMOUNT} on date \w+ trf to (.+?) Refno (\d{6,})`,
+      "i",
+    ),
+    build: (m) => debit(m[2], m[1], m[3], "SBI", m[4]),
+  },
+  {
+    // Dear SBI User, your A/c X1234-credited by Rs.500 on 05Mar25 transfer from JOHN DOE Ref No 506412345678 -SBI
+    id: "sbi-upi-credit",
+    sender: /SBI/i,
+    pattern: new RegExp(
+      String.raw`^Dear SBI User, your A\/c [*xX]*(\d{4})-credited by Rs\.?\s?${AMOUNT} on \w+ transfer from (.+?) Ref No (\d{6,})`,
+      "i",
+    ),
+    build: (m) => credit(m[2], m[1], m[3], "SBI", m[4]),
+  },
+  {
+    // "123456 is your OTP for ..." from any sender. Debit alerts often end with
+    // "Never share OTP", so bail if the body also reports money moving.
+    id: "otp",
+    sender: /./,
+    pattern: /^(?!.*\b(?:debited|credited|spent|sent|received|paid|withdrawn)\b).*?\b(?:\d{4,8} is (?:your|the) (?:OTP|one[- ]time password)|(?:OTP|one[- ]time password) (?:is|for)\b)/is,
+    build: () => ({ is_transaction: false, skip_reason: "OTP" }),
+  },
+];
+
+export interface TemplateParseResult {
+  /** Messages a template fully parsed, keyed by sms_id. */
+  matched: Map<number, { template: string; parsed: ParsedTransaction }>;
+  /** Everything else — hand these to parseAndCategorize. */
+  unmatched: SMSMessage[];
+}
+
+/**
+ * Email batches are never claimed: bank emails are HTML-stripped free text
+ * with no stable shape, and their Pass 1 prompt is tuned separately.
+ */
+export function parseWithTemplates(messages: SMSMessage[]): TemplateParseResult {
+  const matched: TemplateParseResult["matched"] = new Map();
+  const unmatched: SMSMessage[] = [];
+
+  for (const msg of messages) {
+    const hit = msg.subject ? null : matchTemplate(msg);
+    if (hit) matched.set(msg.id, hit);
+    else unmatched.push(msg);
+  }
+
+  return { matched, unmatched };
+}
+
+export function matchTemplate(
+  msg: Pick<SMSMessage, "id" | "sender" | "body">,
+): { template: string; parsed: ParsedTransaction } | null {
+  const body = (msg.body || "").trim();
+  if (!body) return null;
+  for (const t of TEMPLATES) {
+    if (!t.sender.test(msg.sender || "")) continue;
+    const m = body.match(t.pattern);
+    if (!m) continue;
+    const fields = t.build(m);
+    if (!fields) continue;
+    return { template: t.id, parsed: { sms_id: msg.id, ...fields } };
+  }
+  return null;
+}
+
+function withCategory(p: ParsedTransaction, slug: string | null, rating: CategoryPick["confidence"]): ParsedTransaction {
+  return { ...p, category_slug: slug, confidence: p.confidence && { ...p.confidence, category: rating } };
+}
+
+const merchantKey = (merchant: string | null | undefined) => merchant?.toLowerCase().trim() || null;
+
+/**
+ * Categorize template hits: first from `known` (lowercased merchant → slug,
+ * what the user's past transactions with that merchant carry; high
+ * confidence), then a category-only AI pass for the rest, rated by the
+ * model, unless `useAi` is off (AI budget exceeded). The pass is best
+ * effort — on failure the rows keep a null category rather than failing the
+ * batch.
+ */
+export async function categorizeTemplateHits(
+  parsed: ParsedTransaction[],
+  known: Map<string, string>,
+  categories: Category[],
+  useAi: boolean,
+): Promise<{ parsed: ParsedTransaction[]; usage: ModelUsage }> {
+  const out = parsed.map((p) => {
+    const slug = p.is_transaction && !p.category_slug ? known.get(merchantKey(p.merchant) ?? "") : undefined;
+    return slug ? withCategory(p, slug, "high") : p;
+  });
+
+  const pending = out.filter((p) => p.is_transaction && !p.category_slug && p.amount && p.direction);
+  if (!useAi || pending.length === 0) return { parsed: out, usage: {} };
+
+  try {
+    const { picks, usage } = await categorizeTransactions(
+      pending.map((p) => ({ sms_id: p.sms_id, merchant: p.merchant ?? null, direction: p.direction!, amount: p.amount! })),
+      categories,
+    );
+    return {
+      parsed: out.map((p) => {
+        const pick = picks.get(p.sms_id);
+        return pick ? withCategory(p, pick.slug, pick.confidence) : p;
+      }),
+      usage,
+    };
+  } catch (err) {
+    log.warn(`Category pass failed; ${pending.length} template row(s) stay uncategorized`, { err });
+    return { parsed: out, usage: {} };
+  }
+}
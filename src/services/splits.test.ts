@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { allocateSplits, validateSplits } from "./splits.js";
+
+const debit = { amount: 1000, direction: "debit" as const };
+
+test("splits must sum to a debit parent", () => {
+  assert.equal(validateSplits(debit, [{ amount: 600 }, { amount: 400 }]), null);
+  assert.match(validateSplits(debit, [{ amount: 600 }, { amount: 399 }])!, /sum to ₹999/);
+  assert.match(validateSplits(debit, [{ amount: 600.001 }, { amount: 399.999 }])!, /2 decimals/);
+  assert.match(validateSplits({ ...debit, direction: "credit" }, [{ amount: 600 }, { amount: 400 }])!, /only debits/);
+});
+
+test("refunds net splits pro rata without drift", () => {
+  const splits = [
+    { category_id: "groceries", amount: 333.33 },
+    { category_id: "household", amount: 333.33 },
+    { category_id: "personal", amount: 333.34 },
+  ];
+  assert.deepEqual(
+    allocateSplits(1000, 1000, splits).map((p) => p.amount),
+    [333.33, 333.33, 333.34],
+  );
+  // ₹100 refunded: each split keeps 90%, rounding drift lands on the largest.
+  const netted = allocateSplits(900, 1000, splits).map((p) => p.amount);
+  assert.deepEqual(netted, [300, 300, 300]);
+  assert.equal(Math.round(netted.reduce((a, b) => a + b, 0) * 100) / 100, 900);
+
+  const odd = allocateSplits(100, 300, [{ amount: 100 }, { amount: 100 }, { amount: 100 }]).map((p) => p.amount);
+  assert.equal(Math.round(odd.reduce((a, b) => a + b, 0) * 100) / 100, 100);
+});
@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { supabase, getCategories } from "./supabase.js";
+
+/**
+ * Transaction splits: child allocations of one debit across categories (the
+ * Amazon order that was half groceries, half household). The parent row keeps
+ * its own category_id for every other screen; the monthly review counts each
+ * split in its own category instead. A transaction's splits always sum to its
+ * amount — they're replaced as a set, never edited one at a time.
+ */
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  category_id: string;
+  amount: number;
+  note: string | null;
+  position: number;
+}
+
+const COLUMNS = "id, transaction_id, category_id, amount, note, position";
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const SplitInputSchema = z.object({
+  category_id: z.string().uuid(),
+  amount: z.number().positive().finite(),
+  note: z.string().trim().max(200).nullable().optional(),
+});
+export const SplitsInputSchema = z.array(SplitInputSchema).min(2).max(20);
+export type SplitInput = z.infer<typeof SplitInputSchema>;
+
+/** Why a split set can't be stored against `parent`, or null. Only debits split. */
+export function validateSplits(
+  parent: { amount: number; direction: "credit" | "debit" },
+  splits: Pick<SplitInput, "amount">[],
+): string | null {
+  if (parent.direction !== "debit") return "only debits can be split";
+  if (splits.some((s) => round2(s.amount) !== s.amount)) return "split amounts must have at most 2 decimals";
+  const total = round2(splits.reduce((sum, s) => sum + s.amount, 0));
+  if (Math.abs(total - round2(parent.amount)) >= 0.01) {
+    return `splits sum to ₹${total}, transaction is ₹${round2(parent.amount)}`;
+  }
+  return null;
+}
+
+/**
+ * Spread a transaction's counted (post-refund) amount over its splits in
+ * proportion to their share of the original amount. Rounding drift lands on
+ * the largest split, so the parts always add back up to `net` exactly.
+ */
+export function allocateSplits<T extends { amount: number }>(
+  net: number,
+  amount: number,
+  splits: T[],
+): { split: T; amount: number }[] {
+  if (splits.length === 0) return [];
+  const ratio = amount > 0 ? net / amount : 0;
+  const parts = splits.map((split) => ({ split, amount: round2(split.amount * ratio) }));
+  const drift = round2(net - parts.reduce((sum, p) => sum + p.amount, 0));
+  if (drift !== 0) {
+    const largest = parts.reduce((a, b) => (b.split.amount > a.split.amount ? b : a));
+    largest.amount = round2(largest.amount + drift);
+  }
+  return parts;
+}
+
+export async function getSplits(userId: string, transactionId: string): Promise<TransactionSplit[]> {
+  const { data, error } = await supabase
+    .from("transaction_splits")
+    .select(COLUMNS)
+    .eq("user_id", userId)
+    .eq("transaction_id", transactionId)
+    .order("position", { ascending: true });
+  if (error) throw new Error(`Failed to load splits: ${error.message}`);
+  return (data ?? []) as TransactionSplit[];
+}
+
+/**
+ * Replace a transaction's splits. Returns null for an unknown transaction
+ * and { error } for bad amounts / categories — nothing is written then.
+ * The new set is inserted before the old one is deleted, so a failed write
+ * never leaves the transaction without splits.
+ */
+export async function replaceSplits(
+  userId: string,
+  transactionId: string,
+  splits: SplitInput[],
+): Promise<{ splits: TransactionSplit[] } | { error: string } | null> {
+  const { data: txn, error: txnErr } = await supabase
+    .from("transactions")
+    .select("id, amount, direction")
+    .eq("user_id", userId)
+    .eq("id", transactionId)
+    .maybeSingle();
+  if (txnErr) throw new Error(`Failed to load transaction: ${txnErr.message}`);
+  if (!txn) return null;
+
+  const invalid = validateSplits({ amount: Number(txn.amount), direction: txn.direction }, splits);
+  if (invalid) return { error: invalid };
+
+  const categories = new Set((await getCategories(userId)).map((c) => c.id));
+  const unknown = splits.find((s) => !categories.has(s.category_id));
+  if (unknown) return { error: `Unknown category_id ${unknown.category_id}` };
+
+  const previous = await getSplits(userId, transactionId);
+  const { data, error } = await supabase
+    .from("transaction_splits")
+    .insert(
+      splits.map((s, position) => ({
+        user_id: userId,
+        transaction_id: transactionId,
+        category_id: s.category_id,
+        amount: s.amount,
+        note: s.note || null,
+        position,
+      }))
+    )
+    .select(COLUMNS);
+  if (error) throw new Error(`Failed to store splits: ${error.message}`);
+  const stored = (data ?? []) as TransactionSplit[];
+
+  if (previous.length > 0) {
+    const { error: deleteErr } = await supabase
+      .from("transaction_splits")
+      .delete()
+      .eq("user_id", userId)
+      .in("id", previous.map((s) => s.id));
+    if (deleteErr) {
+      // Both sets are stored now; drop the new one so the old stays whole.
+      await supabase
+        .from("transaction_splits")
+        .delete()
+        .in("id", stored.map((s) => s.id));
+      throw new Error(`Failed to replace splits: ${deleteErr.message}`);
+    }
+  }
+  return { splits: stored.sort((a, b) => a.position - b.position) };
+}
+
+export async function clearSplits(userId: string, transactionId: string): Promise<void> {
+  const { error } = await supabase
+    .from("transaction_splits")
+    .delete()
+    .eq("user_id", userId)
+    .eq("transaction_id", transactionId);
+  if (error) throw new Error(`Failed to clear splits: ${error.message}`);
+}
@@ -1,4 +1,5 @@
 import { supabase } from "./supabase.js";
+import { emitWebhookEvents } from "./webhooks.js";
 
 // Backend copy of the frontend matcher + occurrence-summary. The two repos don't
 // share a package, so this mirrors MT-Wallet/src/lib/subscription{Match,Compute}.ts.
@@ -10,6 +11,8 @@ const W_AMOUNT = 0.1;
 const IDENTITY_BOOST = 0.3;
 const HIGH = 0.6;
 const DAY_MS = 86_400_000;
+// subscription.renewal_due fires once per predicted date, this many days ahead.
+const RENEWAL_NOTICE_DAYS = 3;
 
 const CADENCES: { name: string; center: number; tol: number }[] = [
   { name: "weekly", center: 7, tol: 2 },
@@ -81,9 +84,31 @@ function median(sorted: number[]): number {
   return n % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
 }
 
-async function loadAllRows(table: string, cols: string, userId: string): Promise<any[]> {
+interface TxnRow {
+  id: string;
+  merchant: string | null;
+  notes: string | null;
+  amount: number | string;
+  transacted_at: string;
+  direction: "credit" | "debit";
+}
+
+interface RenewalRow {
+  id: string;
+  user_id: string;
+  identity: string | null;
+  match_merchant: string | null;
+  match_note: string | null;
+  cadence: string | null;
+  median_amount: number | null;
+  last_amount: number | null;
+  predicted_next: string;
+  renewal_notified_for: string | null;
+}
+
+async function loadAllRows<T>(table: string, cols: string, userId: string): Promise<T[]> {
   const PAGE = 1000;
-  const out: any[] = [];
+  const out: T[] = [];
   for (let from = 0; ; from += PAGE) {
     const { data, error } = await supabase
       .from(table)
@@ -91,7 +116,7 @@ async function loadAllRows(table: string, cols: string, userId: string): Promise
       .eq("user_id", userId)
       .range(from, from + PAGE - 1);
     if (error) throw new Error(`${table} load failed: ${error.message}`);
-    const rows = data ?? [];
+    const rows = (data ?? []) as T[];
     out.push(...rows);
     if (rows.length < PAGE) break;
   }
@@ -104,7 +129,7 @@ async function recomputeSubscription(subscriptionId: string) {
     .select("amount, transacted_at")
     .eq("subscription_id", subscriptionId);
   if (error) throw new Error(error.message);
-  const occ = (data ?? []).map((o: any) => ({ amount: Number(o.amount), transacted_at: o.transacted_at }));
+  const occ = (data ?? []).map((o) => ({ amount: Number(o.amount), transacted_at: o.transacted_at as string }));
   const amounts = occ.map((o) => o.amount);
   const sortedAmts = [...amounts].sort((a, b) => a - b);
   const byTime = [...occ].sort((a, b) => +new Date(a.transacted_at) - +new Date(b.transacted_at));
@@ -135,33 +160,39 @@ async function recomputeSubscription(subscriptionId: string) {
 // (deterministic, HIGH only), then re-predict the affected subscriptions. Client
 // note-edit already links live; this catches anything missed and applies the
 // service_identity signal that only exists after enrichment.
-export async function reconcileSubscriptions(): Promise<{ linked: number; users: number }> {
-  const { data: subs, error } = await supabase
+export async function reconcileSubscriptions(
+  opts: { userIds?: string[] } = {},
+): Promise<{ linked: number; users: number }> {
+  let query = supabase
     .from("subscriptions")
     .select("id, user_id, match_note, match_merchant, identity, median_amount")
     .eq("status", "active");
+  if (opts.userIds) query = query.in("user_id", opts.userIds);
+  const { data: subs, error } = await query;
   if (error) throw new Error(`subscriptions load failed: ${error.message}`);
   if (!subs || subs.length === 0) return { linked: 0, users: 0 };
 
   const byUser = new Map<string, Sub[]>();
-  for (const s of subs as any[]) {
+  for (const s of subs as (Sub & { user_id: string })[]) {
     (byUser.get(s.user_id) ?? byUser.set(s.user_id, []).get(s.user_id)!).push(s);
   }
 
   let linked = 0;
   for (const [userId, userSubs] of byUser) {
-    const linkedRows = await loadAllRows("subscription_transactions", "transaction_id", userId);
-    const alreadyLinked = new Set(linkedRows.map((r: any) => r.transaction_id));
+    const linkedRows = await loadAllRows<{ transaction_id: string }>("subscription_transactions", "transaction_id", userId);
+    const alreadyLinked = new Set(linkedRows.map((r) => r.transaction_id));
 
-    const identityRows = await loadAllRows("txn_enrichment", "transaction_id, service_identity", userId);
-    const identityBy = new Map<string, string | null>(
-      identityRows.map((r: any) => [r.transaction_id, r.service_identity]),
+    const identityRows = await loadAllRows<{ transaction_id: string; service_identity: string | null }>(
+      "txn_enrichment",
+      "transaction_id, service_identity",
+      userId,
     );
+    const identityBy = new Map(identityRows.map((r) => [r.transaction_id, r.service_identity]));
 
-    const txnRows = await loadAllRows("transactions", "id, merchant, notes, amount, transacted_at, direction", userId);
+    const txnRows = await loadAllRows<TxnRow>("transactions", "id, merchant, notes, amount, transacted_at, direction", userId);
     const candidates: CandidateTxn[] = txnRows
-      .filter((t: any) => t.direction === "debit" && !alreadyLinked.has(t.id) && norm(t.notes) !== "")
-      .map((t: any) => ({
+      .filter((t) => t.direction === "debit" && !alreadyLinked.has(t.id) && norm(t.notes) !== "")
+      .map((t) => ({
         id: t.id,
         merchant: t.merchant,
         notes: t.notes,
@@ -203,3 +234,43 @@ export async function reconcileSubscriptions(): Promise<{ linked: number; users:
 
   return { linked, users: byUser.size };
 }
+
+// Nightly, after reconcile: emit subscription.renewal_due for active
+// subscriptions predicted to renew within RENEWAL_NOTICE_DAYS. The predicted
+// date is recorded in renewal_notified_for, so each renewal fires once even
+// though the window is checked every night.
+export async function notifyRenewalsDue(opts: { userIds?: string[] } = {}): Promise<number> {
+  const today = new Date().toISOString().slice(0, 10);
+  const horizon = new Date(Date.now() + RENEWAL_NOTICE_DAYS * DAY_MS).toISOString().slice(0, 10);
+  let query = supabase
+    .from("subscriptions")
+    .select(
+      "id, user_id, identity, match_merchant, match_note, cadence, median_amount, last_amount, predicted_next, renewal_notified_for",
+    )
+    .eq("status", "active")
+    .gte("predicted_next", today)
+    .lte("predicted_next", horizon);
+  if (opts.userIds) query = query.in("user_id", opts.userIds);
+  const { data, error } = await query;
+  if (error) throw new Error(`subscriptions load failed: ${error.message}`);
+
+  const due = ((data ?? []) as RenewalRow[]).filter((s) => s.renewal_notified_for !== s.predicted_next);
+  const byUser = new Map<string, RenewalRow[]>();
+  for (const s of due) (byUser.get(s.user_id) ?? byUser.set(s.user_id, []).get(s.user_id)!).push(s);
+
+  for (const [userId, subs] of byUser) {
+    await emitWebhookEvents(
+      userId,
+      "subscription.renewal_due",
+      subs.map(({ renewal_notified_for: _notified, user_id: _user, ...sub }) => sub),
+    );
+    for (const s of subs) {
+      const { error: upErr } = await supabase
+        .from("subscriptions")
+        .update({ renewal_notified_for: s.predicted_next })
+        .eq("id", s.id);
+      if (upErr) throw new Error(`renewal mark failed: ${upErr.message}`);
+    }
+  }
+  return due.length;
+}
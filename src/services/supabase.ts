@@ -11,6 +11,9 @@ import {
   type AliasResolver,
   type BankAlias,
 } from "./deduplication.js";
+import { createLogger, currentRequestId } from "./logger.js";
+
+const log = createLogger("supabase");
 
 // Create Supabase client with service role key (bypasses RLS)
 export const supabase = createClient(env.supabaseUrl, env.supabaseServiceRoleKey);
@@ -21,21 +24,61 @@ export const supabase = createClient(env.supabaseUrl, env.supabaseServiceRoleKey
 export async function getUserByApiKey(apiKey: string): Promise<User | null> {
   const { data, error } = await supabase
     .from("profiles")
-    .select("user_id, enable_review_mode")
+    .select("user_id, enable_review_mode, auto_learn_merchant_rules, timezone, ai_budget_daily_rupees, ai_budget_monthly_rupees")
     .eq("api_key", apiKey)
     .single();
 
   if (error || !data) {
-    console.error("Failed to get user by API key:", error?.message);
+    log.error("Failed to get user by API key", { error: error?.message });
     return null;
   }
 
   return {
     id: data.user_id,
     enable_review_mode: data.enable_review_mode,
+    auto_learn_merchant_rules: data.auto_learn_merchant_rules,
+    timezone: data.timezone,
+    ai_budget_daily_rupees: data.ai_budget_daily_rupees,
+    ai_budget_monthly_rupees: data.ai_budget_monthly_rupees,
   };
 }
 
+/**
+ * Get user by id (profiles.user_id). Used by background workers that only
+ * persisted the id, e.g. the ingest job queue.
+ */
+export async function getUserById(userId: string): Promise<User | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id, enable_review_mode, auto_learn_merchant_rules, timezone, ai_budget_daily_rupees, ai_budget_monthly_rupees")
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !data) {
+    log.error("Failed to get user by id", { error: error?.message });
+    return null;
+  }
+
+  return {
+    id: data.user_id,
+    enable_review_mode: data.enable_review_mode,
+    auto_learn_merchant_rules: data.auto_learn_merchant_rules,
+    timezone: data.timezone,
+    ai_budget_daily_rupees: data.ai_budget_daily_rupees,
+    ai_budget_monthly_rupees: data.ai_budget_monthly_rupees,
+  };
+}
+
+/**
+ * Every user with their profile timezone — for schedulers that run per-user
+ * jobs at a local hour.
+ */
+export async function listUserTimeZones(): Promise<{ id: string; timezone: string | null }[]> {
+  const { data, error } = await supabase.from("profiles").select("user_id, timezone");
+  if (error) throw new Error(`Failed to list profiles: ${error.message}`);
+  return (data ?? []).map((p) => ({ id: p.user_id, timezone: p.timezone }));
+}
+
 /**
  * Read the Gmail Pub/Sub ingestion state for a user.
  * Returns null if the user doesn't exist or no row matches.
@@ -43,18 +86,19 @@ export async function getUserByApiKey(apiKey: string): Promise<User | null> {
 export async function getGmailWatchState(userId: string): Promise<GmailWatchState | null> {
   const { data, error } = await supabase
     .from("profiles")
-    .select("gmail_last_history_id, gmail_watch_expires_at")
+    .select("gmail_last_history_id, gmail_history_updated_at, gmail_watch_expires_at")
     .eq("user_id", userId)
     .single();
 
   if (error || !data) {
-    console.error("Failed to get gmail watch state:", error?.message);
+    log.error("Failed to get gmail watch state", { error: error?.message });
     return null;
   }
 
   return {
     userId,
     lastHistoryId: data.gmail_last_history_id ?? null,
+    historyUpdatedAt: data.gmail_history_updated_at ? new Date(data.gmail_history_updated_at) : null,
     watchExpiresAt: data.gmail_watch_expires_at ? new Date(data.gmail_watch_expires_at) : null,
   };
 }
@@ -71,7 +115,10 @@ export async function updateGmailWatchState(
   patch: { lastHistoryId?: string; watchExpiresAt?: Date | null },
 ): Promise<void> {
   const update: Record<string, unknown> = {};
-  if (patch.lastHistoryId !== undefined) update.gmail_last_history_id = patch.lastHistoryId;
+  if (patch.lastHistoryId !== undefined) {
+    update.gmail_last_history_id = patch.lastHistoryId;
+    update.gmail_history_updated_at = new Date().toISOString();
+  }
   if (patch.watchExpiresAt !== undefined) {
     update.gmail_watch_expires_at = patch.watchExpiresAt?.toISOString() ?? null;
   }
@@ -92,11 +139,11 @@ export async function updateGmailWatchState(
 export async function getUserMerchantMappings(userId: string): Promise<UserMerchantMapping[]> {
   const { data, error } = await supabase
     .from("user_merchant_mappings")
-    .select("id, user_id, raw_merchant, mapped_merchant, default_category_id, default_is_expense, default_is_income, amount_operator, amount_threshold, date_operator, date_threshold, match_type")
+    .select("id, user_id, raw_merchant, mapped_merchant, default_category_id, default_is_expense, default_is_income, amount_operator, amount_threshold, date_operator, date_threshold, match_type, priority, conditions")
     .eq("user_id", userId);
 
   if (error) {
-    console.error("Failed to get merchant mappings:", error.message);
+    log.error("Failed to get merchant mappings", { error: error.message });
     return [];
   }
 
@@ -120,7 +167,7 @@ export async function getCategories(userId?: string): Promise<Category[]> {
   const { data, error } = await query.order("sort_order", { ascending: true });
 
   if (error) {
-    console.error("Failed to get categories:", error.message);
+    log.error("Failed to get categories", { error: error.message });
     return [];
   }
 
@@ -163,13 +210,39 @@ export async function findTransactionByReferenceId(
     .maybeSingle();
 
   if (error) {
-    console.error("Failed to look up transaction by reference_id:", error.message);
+    log.error("Failed to look up transaction by reference_id", { error: error.message });
     return null;
   }
 
   return data ? { id: data.id } : null;
 }
 
+/**
+ * Category the user's most recent categorized transaction carries, per
+ * merchant (stored lowercased). Template-tier rows are categorized from this.
+ */
+export async function getMerchantCategoryHistory(userId: string, merchants: string[]): Promise<Map<string, string>> {
+  const byMerchant = new Map<string, string>();
+  if (merchants.length === 0) return byMerchant;
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("merchant, category_id")
+    .eq("user_id", userId)
+    .in("merchant", merchants)
+    .not("category_id", "is", null)
+    .order("transacted_at", { ascending: false })
+    .limit(1000);
+
+  if (error) {
+    log.error("Failed to fetch merchant category history", { error: error.message });
+    return byMerchant;
+  }
+  for (const row of data || []) {
+    if (row.merchant && row.category_id && !byMerchant.has(row.merchant)) byMerchant.set(row.merchant, row.category_id);
+  }
+  return byMerchant;
+}
+
 export async function getBankAccountAliases(userId: string): Promise<BankAlias[]> {
   const { data, error } = await supabase
     .from("bank_account_aliases")
@@ -177,7 +250,7 @@ export async function getBankAccountAliases(userId: string): Promise<BankAlias[]
     .eq("user_id", userId);
 
   if (error) {
-    console.error("Failed to fetch bank_account_aliases:", error.message);
+    log.error("Failed to fetch bank_account_aliases", { error: error.message });
     return [];
   }
   return (data || []) as BankAlias[];
@@ -206,7 +279,7 @@ export async function findCrossChannelDuplicate(
     .lte("transacted_at", to);
 
   if (error) {
-    console.error("Failed to look up cross-channel duplicate:", error.message);
+    log.error("Failed to look up cross-channel duplicate", { error: error.message });
     return null;
   }
 
@@ -235,7 +308,7 @@ export async function insertTransaction(
     if (error.code === "23505") {
       return { success: true }; // Already exists, count as success
     }
-    console.error("Failed to insert transaction:", error.message);
+    log.error("Failed to insert transaction", { error: error.message });
     return { success: false, error: error.message };
   }
 
@@ -247,23 +320,28 @@ export async function insertTransaction(
  */
 export async function insertTransactions(
   transactions: TransactionInsert[]
-): Promise<{ inserted: number; errors: number }> {
+): Promise<{ inserted: number; errors: number; rows: { id: string; sms_id: number }[] }> {
   if (transactions.length === 0) {
-    return { inserted: 0, errors: 0 };
+    return { inserted: 0, errors: 0, rows: [] };
   }
 
-  const { error } = await supabase.from("transactions").upsert(transactions, {
-    onConflict: "user_id,sms_id",
-    ignoreDuplicates: true,
-  });
+  // `rows` holds only the rows actually written — (user_id, sms_id)
+  // duplicates are skipped by the upsert and don't come back.
+  const { data, error } = await supabase
+    .from("transactions")
+    .upsert(transactions, {
+      onConflict: "user_id,sms_id",
+      ignoreDuplicates: true,
+    })
+    .select("id, sms_id");
 
   if (error) {
-    console.error("Bulk insert failed:", error.message);
+    log.error("Bulk insert failed", { error: error.message });
     // If the entire batch fails, report all as errors
-    return { inserted: 0, errors: transactions.length };
+    return { inserted: 0, errors: transactions.length, rows: [] };
   }
 
-  return { inserted: transactions.length, errors: 0 };
+  return { inserted: transactions.length, errors: 0, rows: data ?? [] };
 }
 
 /**
@@ -271,26 +349,31 @@ export async function insertTransactions(
  * owned. Used by the reclassify endpoints to verify the message exists in this
  * run + belongs to the caller before mutating anything.
  */
+export interface SyncRunForUser {
+  id: string;
+  user_id: string;
+  status: string;
+  source: string | null;
+  messages: { id: number; sender: string; body: string; timestamp: string | null; subject?: string }[] | null;
+  details: ParsedTransactionResult[] | null;
+}
+
 export async function getSyncRunForUser(
   runId: string,
   userId: string
-): Promise<{
-  id: string;
-  user_id: string;
-  messages: { id: number; sender: string; body: string; timestamp: string | null }[] | null;
-} | null> {
+): Promise<SyncRunForUser | null> {
   const { data, error } = await supabase
     .from("sync_runs")
-    .select("id, user_id, messages")
+    .select("id, user_id, status, source, messages, details")
     .eq("id", runId)
     .eq("user_id", userId)
     .maybeSingle();
 
   if (error) {
-    console.error("Failed to fetch sync run:", error.message);
+    log.error("Failed to fetch sync run", { error: error.message });
     return null;
   }
-  return (data as any) ?? null;
+  return (data as SyncRunForUser | null) ?? null;
 }
 
 /**
@@ -361,6 +444,54 @@ export async function updateSyncRunDetail(params: {
   return { success: true };
 }
 
+/**
+ * Remember what the reclassify preview suggested for a message, so the
+ * commit step can tell whether the user corrected it. Leaves counts and
+ * status alone.
+ */
+export async function setSyncRunDetailPreview(params: {
+  runId: string;
+  userId: string;
+  smsId: number;
+  preview: NonNullable<ParsedTransactionResult["preview"]>;
+}): Promise<void> {
+  const { data: run, error: fetchErr } = await supabase
+    .from("sync_runs")
+    .select("details")
+    .eq("id", params.runId)
+    .eq("user_id", params.userId)
+    .maybeSingle();
+  if (fetchErr || !run) throw new Error(fetchErr?.message || "Sync run not found");
+
+  const details = Array.isArray(run.details) ? ([...run.details] as ParsedTransactionResult[]) : [];
+  const idx = details.findIndex((d) => Number(d.sms_id) === params.smsId);
+  if (idx < 0) return;
+  details[idx] = { ...details[idx], preview: params.preview };
+
+  const { error } = await supabase
+    .from("sync_runs")
+    .update({ details })
+    .eq("id", params.runId)
+    .eq("user_id", params.userId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Insert a user_merchant_mappings rule; returns its id.
+ */
+export async function insertMerchantMapping(
+  userId: string,
+  rule: Omit<UserMerchantMapping, "id" | "user_id">
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("user_merchant_mappings")
+    .insert({ ...rule, user_id: userId })
+    .select("id")
+    .single();
+  if (error || !data) throw new Error(`Failed to create merchant mapping: ${error?.message ?? "no row returned"}`);
+  return data.id;
+}
+
 /**
  * Merge additional per-model token usage into a sync_run's `usage` jsonb.
  * Used by the reclassify preview path, whose AI calls happen after the run
@@ -383,6 +514,179 @@ export async function addSyncRunUsage(params: {
   return { success: true };
 }
 
+/**
+ * Which of these sms_ids already have a transaction row. Replays use it to
+ * skip messages the original run managed to insert.
+ */
+export async function findExistingSmsIds(userId: string, smsIds: number[]): Promise<Set<number>> {
+  const found = new Set<number>();
+  // Chunked to keep the `in (...)` list well under URL length limits.
+  const CHUNK = 200;
+  for (let i = 0; i < smsIds.length; i += CHUNK) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("sms_id")
+      .eq("user_id", userId)
+      .in("sms_id", smsIds.slice(i, i + CHUNK));
+    if (error) throw new Error(`Failed to look up existing sms_ids: ${error.message}`);
+    for (const row of data ?? []) found.add(Number(row.sms_id));
+  }
+  return found;
+}
+
+/**
+ * Failed / partial ingest runs in a time window — the bulk-replay candidates.
+ */
+export async function listReplayableSyncRuns(params: {
+  userId: string;
+  from: string;
+  to: string;
+}): Promise<{ id: string; source: string; status: string; started_at: string }[]> {
+  const { data, error } = await supabase
+    .from("sync_runs")
+    .select("id, source, status, started_at")
+    .eq("user_id", params.userId)
+    .in("status", ["failed", "partial"])
+    .in("source", ["ios_shortcut", "email"])
+    .gte("started_at", params.from)
+    .lte("started_at", params.to)
+    .order("started_at", { ascending: true });
+
+  if (error) throw new Error(`Failed to list replayable sync runs: ${error.message}`);
+  return data ?? [];
+}
+
+export type RuleSubjectRow = {
+  id: string;
+  merchant: string | null;
+  amount: number;
+  direction: "credit" | "debit";
+  sms_sender: string | null;
+  bank_name: string | null;
+  account_last4: string | null;
+  transacted_at: string;
+  category_id: string | null;
+  is_expense: boolean;
+  is_income: boolean;
+  /** The message the row came from; links it to its sync_run detail. */
+  raw_sms: string | null;
+};
+
+/**
+ * Every transaction of the user, with just the fields merchant rules read
+ * and write. Paged because Supabase caps a select at 1000 rows.
+ */
+export async function listTransactionsForRules(userId: string): Promise<RuleSubjectRow[]> {
+  const PAGE = 1000;
+  const out: RuleSubjectRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("id, merchant, amount, direction, sms_sender, bank_name, account_last4, transacted_at, category_id, is_expense, is_income, raw_sms")
+      .eq("user_id", userId)
+      .order("transacted_at", { ascending: false })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`Failed to load transactions: ${error.message}`);
+    const rows = (data ?? []) as RuleSubjectRow[];
+    out.push(...rows.map((r) => ({ ...r, amount: Number(r.amount) })));
+    if (rows.length < PAGE) break;
+  }
+  return out;
+}
+
+/**
+ * The merchant extraction produced for each message the user's sync_runs
+ * inserted, keyed by message body — what merchant rules saw at ingest,
+ * before a mapping rewrote it. Later runs win for a repeated body.
+ */
+export async function getExtractedMerchants(userId: string): Promise<Map<string, string | null>> {
+  const PAGE = 100;
+  const out = new Map<string, string | null>();
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from("sync_runs")
+      .select("messages, details")
+      .eq("user_id", userId)
+      .order("started_at", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`Failed to load sync runs: ${error.message}`);
+    for (const run of data ?? []) {
+      const bodies = new Map(((run.messages ?? []) as SMSMessage[]).map((m) => [Number(m.id), m.body]));
+      for (const d of (run.details ?? []) as ParsedTransactionResult[]) {
+        const body = bodies.get(Number(d.sms_id));
+        if (d.status === "inserted" && d.transaction && body !== undefined) out.set(body, d.transaction.merchant);
+      }
+    }
+    if ((data ?? []).length < PAGE) break;
+  }
+  return out;
+}
+
+/**
+ * Apply the same patch to many of the user's transactions.
+ */
+export async function updateTransactionsByIds(
+  userId: string,
+  ids: string[],
+  patch: Partial<Pick<RuleSubjectRow, "merchant" | "category_id" | "is_expense" | "is_income">>
+): Promise<number> {
+  let updated = 0;
+  const CHUNK = 200;
+  for (let i = 0; i < ids.length; i += CHUNK) {
+    const chunk = ids.slice(i, i + CHUNK);
+    const { error } = await supabase
+      .from("transactions")
+      .update(patch)
+      .eq("user_id", userId)
+      .in("id", chunk);
+    if (error) throw new Error(`Failed to update transactions: ${error.message}`);
+    updated += chunk.length;
+  }
+  return updated;
+}
+
+export type BalanceSnapshotInsert = {
+  user_id: string;
+  bank_name: string | null;
+  account_last4: string | null;
+  available_balance: number | null;
+  available_limit: number | null;
+  credit_limit: number | null;
+  observed_at: string;
+  source: string;
+  sms_id: number | null;
+};
+
+/**
+ * Store balance / limit readings taken from bank alerts. Duplicates on
+ * (user_id, sms_id) are ignored so replays don't double up.
+ */
+export async function insertBalanceSnapshots(rows: BalanceSnapshotInsert[]): Promise<void> {
+  if (rows.length === 0) return;
+  const { error } = await supabase
+    .from("account_balance_snapshots")
+    .upsert(rows, { onConflict: "user_id,sms_id", ignoreDuplicates: true });
+  if (error) throw new Error(`Failed to insert balance snapshots: ${error.message}`);
+}
+
+/**
+ * Balance snapshots since `since`, newest first.
+ */
+export async function listBalanceSnapshots(
+  userId: string,
+  since: string
+): Promise<(BalanceSnapshotInsert & { id: string })[]> {
+  const { data, error } = await supabase
+    .from("account_balance_snapshots")
+    .select("id, user_id, bank_name, account_last4, available_balance, available_limit, credit_limit, observed_at, source, sms_id")
+    .eq("user_id", userId)
+    .gte("observed_at", since)
+    .order("observed_at", { ascending: false })
+    .limit(5000);
+  if (error) throw new Error(`Failed to load balance snapshots: ${error.message}`);
+  return data ?? [];
+}
+
 /**
  * Delete any transaction matching (user_id, sms_id). No-op if none exists.
  */
@@ -397,7 +701,7 @@ export async function deleteTransactionBySmsId(
     .eq("sms_id", smsId);
 
   if (error) {
-    console.error("Failed to delete transaction by sms_id:", error.message);
+    log.error("Failed to delete transaction by sms_id", { error: error.message });
     return { success: false, error: error.message };
   }
   return { success: true };
@@ -425,6 +729,8 @@ export async function insertSyncRun(params: {
   // `reasoning` = Gemini thinking tokens (billed at the output rate).
   // Null for failed runs that never produced AI usage data.
   usage?: ModelUsage | null;
+  // Set when this run replays an earlier failed/partial run.
+  replayOf?: string | null;
 }): Promise<{ id: string | null; error?: string }> {
   const { data, error } = await supabase
     .from("sync_runs")
@@ -444,12 +750,15 @@ export async function insertSyncRun(params: {
       source: params.source || "sms_sync",
       rowid_range: params.rowidRange || null,
       usage: params.usage ?? null,
+      replay_of: params.replayOf ?? null,
+      // Same id as the log lines of the request / queued job that produced it.
+      request_id: currentRequestId() ?? null,
     })
     .select("id")
     .single();
 
   if (error) {
-    console.error("Failed to insert sync run:", error.message);
+    log.error("Failed to insert sync run", { error: error.message });
     return { id: null, error: error.message };
   }
 
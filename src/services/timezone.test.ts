@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dueAtLocalHour, localDate, userTimeZone, zonedDateTime } from "./timezone.js";
+
+test("userTimeZone falls back to IST for missing or unknown zones", () => {
+  assert.equal(userTimeZone(null), "Asia/Kolkata");
+  assert.equal(userTimeZone({ timezone: "Not/AZone" }), "Asia/Kolkata");
+  assert.equal(userTimeZone({ timezone: "Europe/London" }), "Europe/London");
+});
+
+test("zonedDateTime and localDate respect the zone's offset, including DST", () => {
+  assert.equal(zonedDateTime("2026-03-05", 9, 30, "Asia/Kolkata"), "2026-03-05T09:30:00+05:30");
+  assert.equal(zonedDateTime("2026-07-01", 9, 0, "Europe/London"), "2026-07-01T09:00:00+01:00");
+  assert.equal(zonedDateTime("2026-01-15", 9, 0, "America/New_York"), "2026-01-15T09:00:00-05:00");
+
+  const instant = new Date("2026-03-31T20:00:00Z");
+  assert.equal(localDate(instant, "Asia/Kolkata"), "2026-04-01");
+  assert.equal(localDate(instant, "America/New_York"), "2026-03-31");
+});
+
+test("dueAtLocalHour fires once per local day for users in that hour", () => {
+  const users = [
+    { id: "ist", timezone: "Asia/Kolkata" },
+    { id: "london", timezone: "Europe/London" },
+  ];
+  const lastRun = new Map<string, string>();
+  const now = new Date("2026-01-10T20:30:00Z"); // 02:00 IST, 20:30 London
+
+  assert.deepEqual(dueAtLocalHour(users, 2, lastRun, now), ["ist"]);
+  assert.deepEqual(dueAtLocalHour(users, 2, lastRun, new Date("2026-01-10T20:45:00Z")), []);
+  assert.deepEqual(dueAtLocalHour(users, 2, lastRun, new Date("2026-01-11T02:15:00Z")), ["london"]);
+});
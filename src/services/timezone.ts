@@ -0,0 +1,124 @@
+/**
+ * Per-user timezone helpers. profiles.timezone holds an IANA zone name
+ * ("Asia/Kolkata", "Europe/London"); anything missing or unknown falls back
+ * to IST, which is what every path assumed before the column existed.
+ */
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The user's zone, or DEFAULT_TIMEZONE when unset / invalid. */
+export function userTimeZone(user?: { timezone?: string | null } | null): string {
+  const tz = user?.timezone?.trim();
+  return tz && isValidTimeZone(tz) ? tz : DEFAULT_TIMEZONE;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+export function localParts(date: Date | string, timeZone: string): LocalParts {
+  const d = typeof date === "string" ? new Date(date) : date;
+  const p = Object.fromEntries(partsFormatter(timeZone).formatToParts(d).map((x) => [x.type, x.value]));
+  return {
+    year: Number(p.year),
+    month: Number(p.month),
+    day: Number(p.day),
+    weekday: WEEKDAYS.indexOf(p.weekday),
+    hour: Number(p.hour),
+    minute: Number(p.minute),
+  };
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** YYYY-MM-DD of `date` as seen in `timeZone`. */
+export function localDate(date: Date | string, timeZone: string): string {
+  const p = localParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/** YYYY-MM of now in `timeZone`. */
+export function currentLocalMonth(timeZone: string): string {
+  return localDate(new Date(), timeZone).slice(0, 7);
+}
+
+/** Minutes `timeZone` is ahead of UTC at `date`. */
+function offsetMinutes(date: Date, timeZone: string): number {
+  const p = localParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * ISO timestamp (with the zone's offset, e.g. "+05:30") for a wall-clock
+ * time in `timeZone`. DST gaps resolve to the offset in force just after.
+ */
+export function zonedDateTime(date: string, hours: number, minutes: number, timeZone: string): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const wall = Date.UTC(y, m - 1, d, hours, minutes);
+  let offset = offsetMinutes(new Date(wall), timeZone);
+  offset = offsetMinutes(new Date(wall - offset * 60000), timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  return `${date}T${pad(hours)}:${pad(minutes)}:00${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Users whose local clock is in `hour` and who haven't run yet on their
+ * current local day. Marks the returned users in `lastRun` (user id →
+ * local date), so a scheduler ticking every few minutes fires once per day.
+ */
+export function dueAtLocalHour(
+  users: { id: string; timezone?: string | null }[],
+  hour: number,
+  lastRun: Map<string, string>,
+  now: Date = new Date(),
+): string[] {
+  const due: string[] = [];
+  for (const user of users) {
+    const tz = userTimeZone(user);
+    if (localParts(now, tz).hour !== hour) continue;
+    const day = localDate(now, tz);
+    if (lastRun.get(user.id) === day) continue;
+    lastRun.set(user.id, day);
+    due.push(user.id);
+  }
+  return due;
+}
@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { nextAttemptAt, signPayload } from "./webhooks.js";
+
+test("signature is an HMAC of timestamp and body that receivers can recompute", () => {
+  const body = JSON.stringify({ event: "review.stored", data: { month: "2026-07" } });
+  const header = signPayload("whsec_test", 1767225600, body);
+  const expected = crypto.createHmac("sha256", "whsec_test").update(`1767225600.${body}`).digest("hex");
+  assert.equal(header, `t=1767225600,v1=${expected}`);
+  assert.notEqual(signPayload("whsec_other", 1767225600, body), header);
+});
+
+test("retries back off and stop after the last attempt", () => {
+  const now = Date.UTC(2026, 0, 1);
+  assert.equal(nextAttemptAt(1, now), new Date(now + 60_000).toISOString());
+  assert.equal(nextAttemptAt(2, now), new Date(now + 5 * 60_000).toISOString());
+  assert.equal(nextAttemptAt(5, now), new Date(now + 360 * 60_000).toISOString());
+  assert.equal(nextAttemptAt(6, now), null);
+});
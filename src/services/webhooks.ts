@@ -0,0 +1,380 @@
+import crypto from "crypto";
+import { supabase } from "./supabase.js";
+import { unsafeUrlReason } from "./outboundUrl.js";
+import { mapConcurrent } from "./batching.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("Webhooks");
+
+/**
+ * User-registered outbound webhooks. Each event is written to
+ * webhook_deliveries once per subscribed endpoint and POSTed right away;
+ * failures are retried on RETRY_DELAYS_MIN by retryDueDeliveries (run from
+ * the scheduler in index.ts) until MAX_ATTEMPTS, then marked failed.
+ *
+ * Every request carries
+ *   X-Webhook-Event:     the event name
+ *   X-Webhook-Delivery:  the delivery id (stable across retries)
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ * keyed with the endpoint's secret, so receivers can verify and reject
+ * replays by timestamp.
+ *
+ * Endpoint URLs must resolve to public addresses (services/outboundUrl.ts),
+ * checked when registered and again before every attempt.
+ *
+ * A sender first claims a delivery by moving its next_attempt_at forward,
+ * conditional on the value it read; whoever loses the race skips it, so the
+ * inline send and the retry pass never POST the same delivery twice.
+ */
+
+export const WEBHOOK_EVENTS = [
+  "transaction.inserted",
+  "sync_run.failed",
+  "review.stored",
+  "subscription.renewal_due",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+}
+
+/** What sending needs from a webhook_endpoints row; the secret never leaves this module. */
+interface EndpointSecretRow {
+  id: string;
+  url: string;
+  secret: string;
+  active: boolean;
+}
+type EndpointTarget = Pick<EndpointSecretRow, "url" | "secret">;
+
+const ENDPOINT_COLUMNS = "id, user_id, url, events, active, created_at";
+const DELIVERY_COLUMNS =
+  "id, endpoint_id, user_id, event, payload, status, attempts, next_attempt_at, last_status_code, last_error, delivered_at, redelivery_of, created_at";
+
+/** Minutes to wait after attempt N (1-based) fails before attempt N+1. */
+const RETRY_DELAYS_MIN = [1, 5, 30, 120, 360];
+const MAX_ATTEMPTS = RETRY_DELAYS_MIN.length + 1;
+const REQUEST_TIMEOUT_MS = 10_000;
+/** How long a claim holds a delivery: the URL check plus the request, with room to spare. */
+const CLAIM_LEASE_MS = 2 * 60_000;
+/** Deliveries POSTed at once by one fan-out. */
+const DELIVERY_CONCURRENCY = 4;
+
+/** When the next attempt is due after `attempts` failures, or null when out of attempts. */
+export function nextAttemptAt(attempts: number, now: number = Date.now()): string | null {
+  if (attempts >= MAX_ATTEMPTS) return null;
+  return new Date(now + RETRY_DELAYS_MIN[attempts - 1] * 60_000).toISOString();
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const mac = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+// ── Endpoints ───────────────────────────────────────────────────────────────
+
+/** Register an endpoint. The secret is only ever returned here. */
+export async function createEndpoint(
+  userId: string,
+  url: string,
+  events: WebhookEvent[],
+): Promise<WebhookEndpoint & { secret: string }> {
+  const secret = `whsec_${crypto.randomBytes(24).toString("hex")}`;
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .insert({ user_id: userId, url, events, secret, active: true })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+  if (error) throw new Error(`Failed to create webhook: ${error.message}`);
+  return { ...(data as WebhookEndpoint), secret };
+}
+
+export async function listEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(`Failed to list webhooks: ${error.message}`);
+  return (data ?? []) as WebhookEndpoint[];
+}
+
+/** Returns false when no such endpoint belongs to the user. */
+export async function deleteEndpoint(userId: string, endpointId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", endpointId)
+    .select("id");
+  if (error) throw new Error(`Failed to delete webhook: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+// ── Deliveries ──────────────────────────────────────────────────────────────
+
+export async function listDeliveries(userId: string, endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("user_id", userId)
+    .eq("endpoint_id", endpointId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to list deliveries: ${error.message}`);
+  return (data ?? []) as WebhookDelivery[];
+}
+
+async function loadEndpointSecrets(ids: string[]): Promise<Map<string, EndpointSecretRow>> {
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .select("id, url, secret, active")
+    .in("id", ids);
+  if (error) throw new Error(`Failed to load webhook endpoints: ${error.message}`);
+  return new Map(((data ?? []) as EndpointSecretRow[]).map((e) => [e.id, e]));
+}
+
+/**
+ * Take `delivery` for one attempt: push next_attempt_at a lease out, but
+ * only if it still holds the value this sender read. False when another
+ * sender got there first (or the claim could not be written).
+ */
+async function claimDelivery(delivery: Pick<WebhookDelivery, "id" | "next_attempt_at">): Promise<boolean> {
+  if (!delivery.next_attempt_at) return false;
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .update({ next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() })
+    .eq("id", delivery.id)
+    .eq("status", "pending")
+    .eq("next_attempt_at", delivery.next_attempt_at)
+    .select("id");
+  if (error) {
+    log.error(`Failed to claim delivery ${delivery.id}`, { error: error.message });
+    return false;
+  }
+  return (data ?? []).length > 0;
+}
+
+/** Stop retrying a delivery whose endpoint can't be sent to. */
+async function failDelivery(id: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from("webhook_deliveries")
+    .update({ status: "failed", next_attempt_at: null, last_error: reason })
+    .eq("id", id);
+  if (error) log.error(`Failed to record delivery ${id}`, { error: error.message });
+}
+
+type AttemptResult = Pick<
+  WebhookDelivery,
+  "attempts" | "status" | "next_attempt_at" | "last_status_code" | "last_error" | "delivered_at"
+>;
+
+/** POST one delivery and record the outcome. Never throws. */
+async function attemptDelivery(
+  delivery: Pick<WebhookDelivery, "id" | "event" | "payload" | "attempts">,
+  endpoint: EndpointTarget,
+): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | null = null;
+  let failure: string | null = null;
+  // The host may have been re-pointed at a private address since it was
+  // registered; that won't fix itself, so no retries.
+  const unsafe = await unsafeUrlReason(endpoint.url);
+
+  try {
+    if (unsafe) throw new Error(`Refused: ${unsafe}`);
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "MTWallet-Webhooks/1.0",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Signature": signPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    if (!response.ok) failure = `HTTP ${response.status}`;
+  } catch (err) {
+    failure = (err as Error).message;
+  }
+
+  const delivered = failure === null;
+  const next = delivered || unsafe ? null : nextAttemptAt(attempts);
+  const result: AttemptResult = {
+    attempts,
+    status: delivered ? "delivered" : next ? "pending" : "failed",
+    next_attempt_at: next,
+    last_status_code: statusCode,
+    last_error: failure?.slice(0, 500) ?? null,
+    delivered_at: delivered ? new Date().toISOString() : null,
+  };
+  const { error } = await supabase.from("webhook_deliveries").update(result).eq("id", delivery.id);
+  if (error) log.error(`Failed to record delivery ${delivery.id}`, { error: error.message });
+  if (!delivered) {
+    log.warn(`Delivery ${delivery.id} (${delivery.event}) attempt ${attempts} failed: ${failure}`);
+  }
+  return result;
+}
+
+async function insertAndDeliver(
+  rows: Omit<WebhookDelivery, "id" | "status" | "attempts" | "last_status_code" | "last_error" | "delivered_at" | "created_at">[],
+  endpoints: Map<string, EndpointTarget>,
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .insert(rows.map((r) => ({ ...r, status: "pending", attempts: 0 })))
+    .select(DELIVERY_COLUMNS);
+  if (error) throw new Error(`Failed to queue webhook deliveries: ${error.message}`);
+  const queued = (data ?? []) as WebhookDelivery[];
+  const settled = await mapConcurrent(queued, DELIVERY_CONCURRENCY, async (d): Promise<WebhookDelivery> => {
+    const endpoint = endpoints.get(d.endpoint_id);
+    if (!endpoint) {
+      await failDelivery(d.id, "endpoint missing");
+      return { ...d, status: "failed", next_attempt_at: null, last_error: "endpoint missing" };
+    }
+    // Lost the claim: the retry pass has it.
+    if (!(await claimDelivery(d))) return d;
+    return { ...d, ...(await attemptDelivery(d, endpoint)) };
+  });
+  return settled.map((r, i) => (r.status === "fulfilled" ? r.value : queued[i]));
+}
+
+/**
+ * Fan events out to the user's active endpoints subscribed to them, one
+ * delivery per (endpoint, item). The first attempts happen inline,
+ * DELIVERY_CONCURRENCY at a time; next_attempt_at is pre-set one retry
+ * interval out, and a delivery still queued then goes to whichever of this
+ * and the retry pass claims it first. Never throws — a webhook outage must
+ * not fail the ingest that caused it.
+ */
+export async function emitWebhookEvents(userId: string, event: WebhookEvent, items: unknown[]): Promise<void> {
+  if (items.length === 0) return;
+  try {
+    const { data: endpoints, error } = await supabase
+      .from("webhook_endpoints")
+      .select("id, url, secret")
+      .eq("user_id", userId)
+      .eq("active", true)
+      .contains("events", [event]);
+    if (error) throw new Error(error.message);
+    const targets = (endpoints ?? []) as Omit<EndpointSecretRow, "active">[];
+    if (targets.length === 0) return;
+
+    const createdAt = new Date().toISOString();
+    await insertAndDeliver(
+      targets.flatMap((e) =>
+        items.map((data) => ({
+          endpoint_id: e.id,
+          user_id: userId,
+          event,
+          payload: { event, created_at: createdAt, data },
+          next_attempt_at: nextAttemptAt(1),
+          redelivery_of: null,
+        })),
+      ),
+      new Map(targets.map((e) => [e.id, e])),
+    );
+  } catch (err) {
+    log.error(`Failed to emit ${event} for ${userId.substring(0, 8)}...`, { err });
+  }
+}
+
+export function emitWebhookEvent(userId: string, event: WebhookEvent, data: unknown): Promise<void> {
+  return emitWebhookEvents(userId, event, [data]);
+}
+
+/** Retry every pending delivery whose next attempt is due. Returns how many succeeded. */
+export async function retryDueDeliveries(limit = 100): Promise<number> {
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load due deliveries: ${error.message}`);
+  const due = (data ?? []) as WebhookDelivery[];
+  if (due.length === 0) return 0;
+
+  const endpoints = await loadEndpointSecrets([...new Set(due.map((d) => d.endpoint_id))]);
+  let delivered = 0;
+  for (const d of due) {
+    const endpoint = endpoints.get(d.endpoint_id);
+    if (!endpoint?.active) {
+      // Endpoint deleted or disabled since: stop retrying.
+      await failDelivery(d.id, "endpoint inactive");
+      continue;
+    }
+    if (!(await claimDelivery(d))) continue;
+    if ((await attemptDelivery(d, endpoint)).status === "delivered") delivered++;
+  }
+  return delivered;
+}
+
+/**
+ * Send a past delivery's payload again as a new delivery (same event and
+ * data, fresh attempts). Returns null when the delivery isn't the user's or
+ * its endpoint is gone, and { error } when the endpoint was deactivated.
+ */
+export async function redeliver(
+  userId: string,
+  deliveryId: string,
+): Promise<{ delivery: WebhookDelivery } | { error: string } | null> {
+  const { data: original, error } = await supabase
+    .from("webhook_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .eq("user_id", userId)
+    .eq("id", deliveryId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load delivery: ${error.message}`);
+  if (!original) return null;
+
+  const endpoints = await loadEndpointSecrets([original.endpoint_id]);
+  const endpoint = endpoints.get(original.endpoint_id);
+  if (!endpoint) return null;
+  if (!endpoint.active) return { error: "Webhook is inactive" };
+
+  const [delivery] = await insertAndDeliver(
+    [
+      {
+        endpoint_id: original.endpoint_id,
+        user_id: userId,
+        event: original.event,
+        payload: original.payload,
+        next_attempt_at: nextAttemptAt(1),
+        redelivery_of: original.id,
+      },
+    ],
+    endpoints,
+  );
+  return { delivery };
+}
@@ -21,11 +21,20 @@ export interface User {
   id: string;
   email?: string;
   enable_review_mode?: boolean;
+  /** Create merchant rules from repeated corrections without asking. */
+  auto_learn_merchant_rules?: boolean;
+  /** IANA zone (profiles.timezone); see services/timezone.ts for the fallback. */
+  timezone?: string | null;
+  /** AI spend budgets in rupees; null falls back to the env defaults (services/aiBudget.ts). */
+  ai_budget_daily_rupees?: number | null;
+  ai_budget_monthly_rupees?: number | null;
 }
 
 export interface GmailWatchState {
   userId: string;
   lastHistoryId: string | null;
+  /** When lastHistoryId was last written (readiness reports its age). */
+  historyUpdatedAt: Date | null;
   watchExpiresAt: Date | null;
 }
 
@@ -41,7 +50,30 @@ export interface UserMerchantMapping {
   amount_threshold: number | null;
   date_operator: '<' | '>' | '<=' | '>=' | '=' | null;
   date_threshold: number | null;
-  match_type: 'exact' | 'contains';
+  /** 'regex' matches raw_merchant as a case-insensitive pattern. An empty raw_merchant matches any merchant. */
+  match_type: 'exact' | 'contains' | 'regex';
+  /** Higher runs first; rules without one sort as 0. */
+  priority: number | null;
+  /** Extra conditions ANDed with the flat columns above. */
+  conditions: RuleConditionGroup | null;
+}
+
+export type RuleComparison = '<' | '>' | '<=' | '>=' | '=';
+
+export type RuleCondition =
+  | { field: 'merchant' | 'sender' | 'bank_name' | 'account_last4'; match: 'exact' | 'contains' | 'regex'; value: string }
+  | { field: 'direction'; value: 'credit' | 'debit' }
+  | { field: 'amount'; op: RuleComparison; value: number }
+  | { field: 'amount'; min?: number; max?: number }
+  | { field: 'day_of_month'; op: RuleComparison; value: number }
+  /** 0 = Sunday … 6 = Saturday. */
+  | { field: 'day_of_week'; days: number[] }
+  /** "HH:MM" 24h, inclusive start, exclusive end; wraps midnight when from > to. */
+  | { field: 'time_of_day'; from: string; to: string };
+
+export interface RuleConditionGroup {
+  op: 'and' | 'or';
+  conditions: (RuleCondition | RuleConditionGroup)[];
 }
 
 export interface ParsedTransactionResult {
@@ -55,4 +87,11 @@ export interface ParsedTransactionResult {
     merchant: string | null;
     category: string | null;
   };
+  /** Fields flagged for review on an inserted row (services/reviewRouting.ts). */
+  review_fields?: string[];
+  /** What the reclassify preview's AI extraction proposed (set before commit). */
+  preview?: {
+    merchant: string | null;
+    category: string | null;
+  };
 }